@@ -0,0 +1,48 @@
+BEGIN;
+
+-- Core indexer tables (matches the production pg_dump in schema.sql).
+-- Every statement is IF NOT EXISTS so existing databases adopt it as a no-op.
+
+-- A) addresses
+CREATE TABLE IF NOT EXISTS public.addresses (
+  id      serial PRIMARY KEY,
+  address text   NOT NULL UNIQUE
+);
+
+-- B) transfers (one row per BC400 Transfer log)
+CREATE TABLE IF NOT EXISTS public.transfers (
+  tx_hash         text        NOT NULL,
+  log_index       integer     NOT NULL,
+  block_number    bigint      NOT NULL,
+  block_time      timestamptz NOT NULL,
+  from_address_id integer     NOT NULL REFERENCES public.addresses(id),
+  to_address_id   integer     NOT NULL REFERENCES public.addresses(id),
+  raw_amount      text        NOT NULL,
+
+  PRIMARY KEY (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfers_from_address_id ON public.transfers(from_address_id);
+CREATE INDEX IF NOT EXISTS idx_transfers_to_address_id   ON public.transfers(to_address_id);
+
+-- C) holder_balances (positive balances only; derived from transfers)
+CREATE TABLE IF NOT EXISTS public.holder_balances (
+  address_id        integer     PRIMARY KEY REFERENCES public.addresses(id) ON DELETE CASCADE,
+  balance_raw       numeric     NOT NULL,
+  balance_bc400     numeric     NOT NULL,
+  tx_count          integer     NOT NULL,
+  tags              text        NOT NULL DEFAULT 'none',
+  first_seen        timestamptz NOT NULL,
+  last_seen         timestamptz NOT NULL,
+  last_block_number bigint,
+  last_block_time   timestamptz,
+  last_tx_hash      text
+);
+
+-- D) meta (job progress key/values)
+CREATE TABLE IF NOT EXISTS public.meta (
+  key   text PRIMARY KEY,
+  value text NOT NULL
+);
+
+COMMIT;
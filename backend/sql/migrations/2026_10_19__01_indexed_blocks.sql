@@ -0,0 +1,28 @@
+BEGIN;
+
+-- A) indexed_blocks (block headers the live indexer has ingested; used for reorg detection)
+CREATE TABLE IF NOT EXISTS public.indexed_blocks (
+  block_number bigint      PRIMARY KEY,
+  block_hash   text        NOT NULL,
+  parent_hash  text        NOT NULL,
+  block_time   timestamptz NOT NULL,
+  indexed_at   timestamptz NOT NULL DEFAULT now()
+);
+
+-- B) chain_reorgs (audit trail of every rollback the indexer performed)
+CREATE TABLE IF NOT EXISTS public.chain_reorgs (
+  id                 bigserial   PRIMARY KEY,
+  detected_at        timestamptz NOT NULL DEFAULT now(),
+  old_tip            bigint      NOT NULL,
+  common_ancestor    bigint      NOT NULL,
+  depth              bigint      NOT NULL,
+  transfers_removed  integer     NOT NULL DEFAULT 0,
+  metadata           jsonb       NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_reorgs_detected_at ON public.chain_reorgs(detected_at DESC);
+
+-- rollbacks delete by block range
+CREATE INDEX IF NOT EXISTS idx_transfers_block_number ON public.transfers(block_number);
+
+COMMIT;
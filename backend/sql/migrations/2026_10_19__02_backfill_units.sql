@@ -0,0 +1,48 @@
+BEGIN;
+
+-- A) backfill_units (range-partitioned backfill work queue)
+CREATE TABLE IF NOT EXISTS public.backfill_units (
+  id               bigserial   PRIMARY KEY,
+  from_block       bigint      NOT NULL,
+  to_block         bigint      NOT NULL,
+  status           text        NOT NULL DEFAULT 'pending'
+                   CHECK (status IN ('pending', 'in_progress', 'done', 'failed')),
+
+  -- resume point inside the unit (last block fully ingested)
+  scanned_to       bigint,
+  logs_found       integer     NOT NULL DEFAULT 0,
+
+  -- per-unit retry state
+  attempts         integer     NOT NULL DEFAULT 0,
+  last_error       text,
+  next_attempt_at  timestamptz NOT NULL DEFAULT now(),
+
+  -- claim/lease (a crashed worker's unit becomes claimable once the lease expires)
+  claimed_by       text,
+  claimed_at       timestamptz,
+  lease_expires_at timestamptz,
+
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  completed_at     timestamptz,
+
+  UNIQUE (from_block),
+  CHECK (to_block >= from_block)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backfill_units_status ON public.backfill_units(status, from_block);
+
+-- B) backfill_status (one row per status bucket for dashboards / CLI)
+CREATE OR REPLACE VIEW public.backfill_status AS
+SELECT
+  status,
+  COUNT(*)::int                       AS units,
+  MIN(from_block)                     AS min_block,
+  MAX(to_block)                       AS max_block,
+  SUM(to_block - from_block + 1)      AS blocks,
+  SUM(logs_found)::bigint             AS logs_found,
+  MAX(attempts)                       AS max_attempts,
+  MAX(completed_at)                   AS last_completed_at
+FROM public.backfill_units
+GROUP BY status;
+
+COMMIT;
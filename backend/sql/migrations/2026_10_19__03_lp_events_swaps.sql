@@ -0,0 +1,7 @@
+BEGIN;
+
+-- A) lp_events lookups by pair + event type (swap-based buy/sell totals)
+CREATE INDEX IF NOT EXISTS idx_lp_events_pair_type_block
+  ON public.lp_events(pair_address, event_type, block_number);
+
+COMMIT;
@@ -0,0 +1,45 @@
+BEGIN;
+
+-- A) balance_changes (per-address balance ledger derived from transfers; one row per address leg)
+--    self-transfers produce a single row with delta_raw = 0 (same tx_count rules as holder_balances)
+CREATE TABLE IF NOT EXISTS public.balance_changes (
+  address_id   bigint      NOT NULL,
+  block_number bigint      NOT NULL,
+  block_time   timestamptz,
+  tx_hash      text        NOT NULL,
+  log_index    integer     NOT NULL,
+  delta_raw    numeric     NOT NULL,
+
+  PRIMARY KEY (address_id, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_balance_changes_address_block
+  ON public.balance_changes(address_id, block_number DESC, log_index DESC);
+CREATE INDEX IF NOT EXISTS idx_balance_changes_block ON public.balance_changes(block_number);
+CREATE INDEX IF NOT EXISTS idx_balance_changes_time  ON public.balance_changes(block_time);
+
+-- B) seed from existing transfers (idempotent; new rows are written by the indexer/backfill)
+INSERT INTO public.balance_changes (address_id, block_number, block_time, tx_hash, log_index, delta_raw)
+SELECT
+  t.to_address_id,
+  t.block_number,
+  t.block_time,
+  t.tx_hash,
+  t.log_index,
+  CASE WHEN t.from_address_id = t.to_address_id THEN 0::numeric ELSE t.raw_amount::numeric END
+FROM public.transfers t
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.balance_changes (address_id, block_number, block_time, tx_hash, log_index, delta_raw)
+SELECT
+  t.from_address_id,
+  t.block_number,
+  t.block_time,
+  t.tx_hash,
+  t.log_index,
+  -t.raw_amount::numeric
+FROM public.transfers t
+WHERE t.from_address_id <> t.to_address_id
+ON CONFLICT DO NOTHING;
+
+COMMIT;
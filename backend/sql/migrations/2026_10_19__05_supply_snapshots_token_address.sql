@@ -0,0 +1,10 @@
+BEGIN;
+
+-- A) supply_snapshots.token_address (written by services/supplySnapshot.ts, filtered on by
+--    investorAdjusted) was never created by a migration
+ALTER TABLE public.supply_snapshots ADD COLUMN IF NOT EXISTS token_address text;
+
+CREATE INDEX IF NOT EXISTS idx_supply_snapshots_token_ts
+  ON public.supply_snapshots(token_address, ts DESC);
+
+COMMIT;
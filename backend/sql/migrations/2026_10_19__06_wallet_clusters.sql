@@ -0,0 +1,28 @@
+BEGIN;
+
+-- A) addresses.cluster_id (NULL = not clustered; otherwise wallet_clusters.cluster_id)
+ALTER TABLE public.addresses ADD COLUMN IF NOT EXISTS cluster_id bigint;
+
+CREATE INDEX IF NOT EXISTS idx_addresses_cluster_id ON public.addresses(cluster_id) WHERE cluster_id IS NOT NULL;
+
+-- B) wallet_clusters (one row per multi-address cluster; id = lowest member address id)
+CREATE TABLE IF NOT EXISTS public.wallet_clusters (
+  cluster_id   bigint      PRIMARY KEY,
+  member_count integer     NOT NULL,
+  reasons      text[]      NOT NULL DEFAULT '{}',
+  updated_at   timestamptz NOT NULL DEFAULT now()
+);
+
+-- C) wallet_cluster_links (evidence: why two addresses were joined)
+CREATE TABLE IF NOT EXISTS public.wallet_cluster_links (
+  address_id_a integer NOT NULL REFERENCES public.addresses(id) ON DELETE CASCADE,
+  address_id_b integer NOT NULL REFERENCES public.addresses(id) ON DELETE CASCADE,
+  reason       text    NOT NULL CHECK (reason IN ('common_funder', 'sweep_destination', 'same_block_funding')),
+  evidence     jsonb   NOT NULL DEFAULT '{}'::jsonb,
+
+  PRIMARY KEY (address_id_a, address_id_b, reason)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_cluster_links_b ON public.wallet_cluster_links(address_id_b);
+
+COMMIT;
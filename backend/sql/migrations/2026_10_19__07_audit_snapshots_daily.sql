@@ -0,0 +1,23 @@
+BEGIN;
+
+-- A) one audit_snapshots row per token per UTC day, with the full /daily-audit bundle
+ALTER TABLE public.audit_snapshots ADD COLUMN IF NOT EXISTS snapshot_date date;
+ALTER TABLE public.audit_snapshots ADD COLUMN IF NOT EXISTS report jsonb;
+
+-- B) backfill snapshot_date (latest row of each day wins; older same-day rows stay NULL)
+UPDATE public.audit_snapshots s
+SET snapshot_date = (s.snapshot_time AT TIME ZONE 'UTC')::date
+WHERE s.snapshot_date IS NULL
+  AND s.id = (
+    SELECT x.id
+    FROM public.audit_snapshots x
+    WHERE x.token_address = s.token_address
+      AND (x.snapshot_time AT TIME ZONE 'UTC')::date = (s.snapshot_time AT TIME ZONE 'UTC')::date
+    ORDER BY x.snapshot_time DESC, x.id DESC
+    LIMIT 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_audit_snapshots_token_date
+  ON public.audit_snapshots(token_address, snapshot_date);
+
+COMMIT;
@@ -0,0 +1,38 @@
+BEGIN;
+
+-- A) dex_candles (OHLCV per pair/resolution, built from lp_events SYNC + SWAP by services/dexCandles.ts)
+CREATE TABLE IF NOT EXISTS public.dex_candles (
+  pair_address     text        NOT NULL,
+  resolution       text        NOT NULL CHECK (resolution IN ('1m', '5m', '1h', '1d')),
+  bucket_start     timestamptz NOT NULL,
+
+  -- token price in WBNB (from Sync reserves)
+  open_wbnb        numeric     NOT NULL,
+  high_wbnb        numeric     NOT NULL,
+  low_wbnb         numeric     NOT NULL,
+  close_wbnb       numeric     NOT NULL,
+
+  -- WBNB prices * BNB/USD at the bucket (NULL when no BNB/USD reading is stored yet)
+  bnb_usd          numeric,
+  open_usd         numeric,
+  high_usd         numeric,
+  low_usd          numeric,
+  close_usd        numeric,
+
+  -- swap volume in the bucket (pair-side amounts)
+  volume_token_raw numeric     NOT NULL DEFAULT 0 CHECK (volume_token_raw >= 0),
+  volume_wbnb_raw  numeric     NOT NULL DEFAULT 0 CHECK (volume_wbnb_raw >= 0),
+  volume_usd       numeric,
+  trades           integer     NOT NULL DEFAULT 0 CHECK (trades >= 0),
+
+  first_block      bigint      NOT NULL,
+  last_block       bigint      NOT NULL,
+  updated_at       timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (pair_address, resolution, bucket_start)
+);
+
+-- B) reorg rollback drops candles touched by orphaned blocks
+CREATE INDEX IF NOT EXISTS idx_dex_candles_last_block ON public.dex_candles(last_block);
+
+COMMIT;
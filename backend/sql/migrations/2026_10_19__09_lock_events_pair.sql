@@ -0,0 +1,7 @@
+BEGIN;
+
+-- A) lock_events lookups by LP token + locker + lock id (indexer attribution, /lp/lock state)
+CREATE INDEX IF NOT EXISTS idx_lock_events_pair_contract_key
+  ON public.lock_events(pair_address, contract_addr, (metadata->>'lockKey'));
+
+COMMIT;
@@ -0,0 +1,33 @@
+BEGIN;
+
+-- A) dex_pools (every PancakeSwap v2/v3 pool of the token against a common quote token,
+--    refreshed by services/dexPools.ts; the configured BC400_PAIR_ADDRESS is one row of it)
+CREATE TABLE IF NOT EXISTS public.dex_pools (
+  pool_address        text        PRIMARY KEY,
+  dex                 text        NOT NULL CHECK (dex IN ('pancake_v2', 'pancake_v3')),
+  factory_address     text        NOT NULL,
+  fee_tier            integer,    -- v3 fee in hundredths of a bip (500 = 0.05 %); NULL for v2
+  token_address       text        NOT NULL,
+  quote_address       text        NOT NULL,
+  quote_symbol        text        NOT NULL,
+  token0              text        NOT NULL,
+  token1              text        NOT NULL,
+
+  -- v2: getReserves(); v3: token balances held by the pool
+  reserve_token_raw   numeric     NOT NULL DEFAULT 0,
+  reserve_quote_raw   numeric     NOT NULL DEFAULT 0,
+  liquidity_raw       numeric,    -- v3 in-range liquidity()
+
+  price_quote         numeric,    -- token price in quote units
+  price_usd           numeric,
+  liquidity_usd       numeric,    -- both sides at current prices
+  liquidity_share_pct numeric,    -- of all registered pools' liquidity_usd
+
+  block_number        bigint,
+  discovered_at       timestamptz NOT NULL DEFAULT now(),
+  updated_at          timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dex_pools_token ON public.dex_pools(token_address);
+
+COMMIT;
@@ -0,0 +1,13 @@
+BEGIN;
+
+-- A) which price produced supply_snapshots.price_usd: spot | twap | liquidity_weighted
+ALTER TABLE public.supply_snapshots
+  ADD COLUMN IF NOT EXISTS price_method text;
+
+-- B) every row written before this was priced from pair spot reserves
+UPDATE public.supply_snapshots
+SET price_method = 'spot'
+WHERE price_method IS NULL
+  AND price_usd IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,10 @@
+BEGIN;
+
+-- A) UNCX locks were keyed owner:unlockDate, which merged same-day deposits by one owner;
+--    key each deposit by its own log (tx_hash:log_index), as the indexer now does
+UPDATE public.lock_events
+SET metadata = jsonb_set(metadata, '{lockKey}', to_jsonb(lower(tx_hash) || ':' || log_index::text))
+WHERE provider = 'UNCX'
+  AND event_type = 'LOCK';
+
+COMMIT;
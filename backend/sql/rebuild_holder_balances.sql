@@ -1,3 +1,6 @@
+-- Emergency full rebuild (TRUNCATE + recompute).
+-- holder_balances is maintained incrementally by the indexer/backfill;
+-- use `npm run verify-holders` to check for drift instead.
 BEGIN;
 
 TRUNCATE holder_balances;
@@ -38,7 +41,7 @@ SELECT
   ) / 1e9::numeric AS balance_bc400,
 
   COUNT(*) AS tx_count,
-  'none' AS tags,
+  COALESCE((SELECT string_agg(wl.label, ',' ORDER BY wl.label) FROM wallet_labels wl WHERE wl.address_id = a.id), 'none') AS tags,
 
   MIN(t.block_time) AS first_seen,
   MAX(t.block_time) AS last_seen,
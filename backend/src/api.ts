@@ -10,7 +10,10 @@ import { pool } from "./db";
 import { startSupplySnapshotCron } from "./cron/supplySnapshotCron";
 
 import { registerDexPriceRoute } from "./routes/dexPrice";
+import { registerDexPoolsRoute } from "./routes/dexPools";
+import { registerDexCandlesRoute } from "./routes/dexCandles";
 import { registerLpLockRoute } from "./routes/lpLock";
+import { registerLpHoldersRoute } from "./routes/lpHolders";
 import { registerSecurityRulesRoute } from "./routes/securityRules";
 import { registerLatestTransfersRoute } from "./routes/transfersLatest";
 import { registerDexTotalsRoute } from "./routes/dexTotals";
@@ -19,6 +22,14 @@ import { registerDebugAddressesRoute } from "./routes/debugAddresses";
 import { registerDailyAuditRoute } from "./routes/dailyAudit";
 import { registerTokenBurnRoute } from "./routes/tokenBurn";
 import { registerInvestorAdjustedRoute } from "./routes/investorAdjusted";
+import { registerHolderDistributionRoute } from "./routes/holderDistribution";
+import { registerConcentrationSeriesRoute } from "./routes/concentrationSeries";
+import { registerSupplySeriesRoute } from "./routes/supplySeries";
+import { registerRpcStatusRoute } from "./routes/rpcStatus";
+import { registerBalancesAsOfRoute } from "./routes/balancesAsOf";
+import { registerAddressProfileRoute } from "./routes/addressProfile";
+import { registerWalletLabelsRoute } from "./routes/walletLabels";
+import { registerWalletClustersRoute } from "./routes/walletClusters";
 
 const PORT = Number(process.env.PORT || 4000);
 const app = express();
@@ -38,13 +49,13 @@ app.use(
       if (allowedOrigins.includes(origin)) return callback(null, true);
       return callback(new Error(`CORS blocked for origin: ${origin}`));
     },
-    methods: ["GET", "POST", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    allowedHeaders: ["Content-Type", "Authorization", "x-api-key"],
   })
 );
 
 app.options("*", cors());
-app.use(express.json());
+app.use(express.json({ limit: "5mb" })); // label imports can be large
 
 function handleError(res: Response, where: string, err: unknown) {
   console.error(`Error in ${where}:`, err);
@@ -81,14 +92,28 @@ app.get("/", (_req: Request, res: Response) => {
       <li><a href="/health"><code>/health</code></a> (and <a href="/api/health"><code>/api/health</code></a>)</li>
       <li><a href="/summary"><code>/summary</code></a> (and <a href="/api/summary"><code>/api/summary</code></a>)</li>
       <li><a href="/top-holders"><code>/top-holders</code></a> (and <a href="/api/top-holders"><code>/api/top-holders</code></a>)</li>
+      <li><a href="/holders/distribution"><code>/holders/distribution</code></a> (and <a href="/api/holders/distribution"><code>/api/holders/distribution</code></a>)</li>
+      <li><a href="/supply/series"><code>/supply/series?from&amp;to&amp;interval=hour|day|week&amp;fill</code></a> (and <a href="/api/supply/series"><code>/api/supply/series</code></a>)</li>
+      <li><a href="/concentration/series"><code>/concentration/series?from&amp;to&amp;interval</code></a> (and <a href="/api/concentration/series"><code>/api/concentration/series</code></a>)</li>
+      <li><code>/balances/as-of?block=N</code> or <code>?timestamp=ISO</code>, <code>/balances/as-of/:address?block=N</code> (and <code>/api/...</code>)</li>
+      <li><code>/address/:address</code> (and <code>/api/address/:address</code>)</li>
+      <li><a href="/labels"><code>/labels</code></a> (GET/POST, <code>PUT|DELETE /labels/:address/:label</code>, <code>POST /labels/import</code>; and <code>/api/...</code>)</li>
+      <li><a href="/clusters"><code>/clusters</code></a>, <code>/clusters/:id</code> (and <a href="/api/clusters"><code>/api/clusters</code></a>)</li>
       <li><a href="/transfers"><code>/transfers</code></a> (and <a href="/api/transfers"><code>/api/transfers</code></a>)</li>
       <li><a href="/transfers/latest"><code>/transfers/latest</code></a> (and <a href="/api/transfers/latest"><code>/api/transfers/latest</code></a>)</li>
       <li><a href="/dex/price"><code>/dex/price</code></a> (and <a href="/api/dex/price"><code>/api/dex/price</code></a>)</li>
+      <li><a href="/dex/pools"><code>/dex/pools</code></a> (and <a href="/api/dex/pools"><code>/api/dex/pools</code></a>)</li>
+      <li><a href="/dex/impact"><code>/dex/impact?amount=100,1000&amp;unit=usd|wbnb|bc400&amp;side=buy|sell|both</code></a> (and <a href="/api/dex/impact"><code>/api/dex/impact</code></a>)</li>
+      <li><a href="/dex/candles"><code>/dex/candles?resolution=1m|5m|1h|1d&amp;from&amp;to</code></a> (and <a href="/api/dex/candles"><code>/api/dex/candles</code></a>)</li>
       <li><a href="/dex/totals"><code>/dex/totals</code></a> (and <a href="/api/dex/totals"><code>/api/dex/totals</code></a>)</li>
       <li><a href="/lp/lock"><code>/lp/lock</code></a> (and <a href="/api/lp/lock"><code>/api/lp/lock</code></a>)</li>
+      <li><a href="/lp/holders"><code>/lp/holders</code></a> (and <a href="/api/lp/holders"><code>/api/lp/holders</code></a>)</li>
+      <li><a href="/lp/liquidity"><code>/lp/liquidity</code></a> (and <a href="/api/lp/liquidity"><code>/api/lp/liquidity</code></a>)</li>
       <li><a href="/security/rules"><code>/security/rules</code></a> (and <a href="/api/security/rules"><code>/api/security/rules</code></a>)</li>
       <li><a href="/daily-audit"><code>/daily-audit</code></a> (and <a href="/api/daily-audit"><code>/api/daily-audit</code></a>)</li>
+      <li><a href="/daily-audit/history"><code>/daily-audit/history</code></a>, <code>/daily-audit/:date</code>, <a href="/daily-audit/diff"><code>/daily-audit/diff</code></a> (and <code>/api/...</code>)</li>
       <li><a href="/debug/addresses"><code>/debug/addresses</code></a> (and <a href="/api/debug/addresses"><code>/api/debug/addresses</code></a>)</li>
+      <li><a href="/rpc/status"><code>/rpc/status</code></a> (and <a href="/api/rpc/status"><code>/api/rpc/status</code></a>)</li>
     </ul>
   </div>
 </body>
@@ -188,6 +213,8 @@ async function transfersHandler(req: Request, res: Response) {
       tx_hash: string;
       from_address: string | null;
       to_address: string | null;
+      from_labels: string[] | null;
+      to_labels: string[] | null;
       raw_amount: string;
       log_index: number;
     }>(
@@ -198,6 +225,8 @@ async function transfersHandler(req: Request, res: Response) {
         t.tx_hash,
         af.address AS from_address,
         at.address AS to_address,
+        (SELECT array_agg(wl.label ORDER BY wl.label) FROM wallet_labels wl WHERE wl.address_id = t.from_address_id) AS from_labels,
+        (SELECT array_agg(wl.label ORDER BY wl.label) FROM wallet_labels wl WHERE wl.address_id = t.to_address_id) AS to_labels,
         t.raw_amount,
         t.log_index
       FROM transfers t
@@ -216,6 +245,8 @@ async function transfersHandler(req: Request, res: Response) {
         tx_hash: r.tx_hash,
         from_address: r.from_address,
         to_address: r.to_address,
+        from_labels: r.from_labels ?? [],
+        to_labels: r.to_labels ?? [],
         raw_amount: r.raw_amount,
       })),
     });
@@ -230,8 +261,11 @@ app.get("/transfers", transfersHandler);
 app.get("/api/transfers", transfersHandler);
 
 // ✅ Route modules (the ones your Daily Audit page calls)
-registerDexPriceRoute(app);
-registerLpLockRoute(app);
+registerDexPriceRoute(app, pool);
+registerDexPoolsRoute(app, pool);
+registerDexCandlesRoute(app, pool);
+registerLpLockRoute(app, pool);
+registerLpHoldersRoute(app, pool);
 registerSecurityRulesRoute(app, pool);
 registerDexTotalsRoute(app, pool);
 registerSummaryRoute(app, pool);
@@ -240,6 +274,14 @@ registerDailyAuditRoute(app, pool);
 registerLatestTransfersRoute(app, pool);
 registerTokenBurnRoute(app);
 registerInvestorAdjustedRoute(app, pool);
+registerHolderDistributionRoute(app, pool);
+registerSupplySeriesRoute(app, pool);
+registerConcentrationSeriesRoute(app, pool);
+registerRpcStatusRoute(app);
+registerBalancesAsOfRoute(app, pool);
+registerAddressProfileRoute(app, pool);
+registerWalletLabelsRoute(app, pool);
+registerWalletClustersRoute(app, pool);
 
 // ✅ START SUPPLY SNAPSHOT CRON (the function itself checks ENABLE_SUPPLY_SNAPSHOT_CRON)
 if (process.env.RUN_SUPPLY_CRON_IN_API === "true") {
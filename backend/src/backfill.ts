@@ -1,13 +1,44 @@
 import "dotenv/config";
 import { ethers, Log } from "ethers";
-import { pool, getMeta, setMeta } from "./db";
+import { pool, getMeta, setMeta, setMetaMax } from "./db";
 import { provider, callRpc } from "./clients/bscClient";
 import type { PoolClient } from "pg";
-import { tryAdvisoryLock, advisoryUnlock } from "./dbLocks";
+import os from "os";
+import {
+  tryAdvisoryLock,
+  advisoryUnlock,
+  tryAdvisoryLockShared,
+  advisoryUnlockShared,
+} from "./dbLocks";
+import {
+  BackfillUnit,
+  planUnits,
+  claimUnit,
+  markUnitProgress,
+  markUnitDone,
+  markUnitFailed,
+  contiguousDoneTo,
+  getBackfillStatus,
+} from "./backfill/units";
+import { AdaptiveLogRange } from "./clients/logRange";
+import { InsertedTransfer, applyTransferDeltas } from "./services/holderBalances";
+import { appendBalanceChanges } from "./services/balanceLedger";
+import {
+  PAIR_EVENT_TOPICS,
+  V3_POOL_EVENT_TOPICS,
+  PairTokens,
+  LpEventRow,
+  decodePairLog,
+  insertLpEvents,
+  loadPairTokens,
+} from "./indexer/lpEvents";
+import { LOCKER_EVENT_TOPICS, decodeLockEvents, insertLockEvents, knownLockers } from "./indexer/lockEvents";
+import { getPoolAddresses } from "./services/dexPools";
 
 // ------------------- Env (supports Render + local) -------------------
 const tokenAddress = (process.env.BC400_TOKEN_ADDRESS || process.env.TOKEN_ADDRESS || "").toLowerCase();
 const startBlockEnv = process.env.BC400_START_BLOCK || process.env.START_BLOCK;
+const pairAddress = (process.env.BC400_PAIR_ADDRESS || "").trim().toLowerCase();
 
 if (!tokenAddress) throw new Error("Missing token address env. Set BC400_TOKEN_ADDRESS or TOKEN_ADDRESS");
 if (!startBlockEnv) throw new Error("Missing start block env. Set BC400_START_BLOCK or START_BLOCK");
@@ -20,12 +51,36 @@ const LOCK_NAME = process.env.BC400_JOB_LOCK || "bc400_writer_lock";
 
 // ------------------- Tuning -------------------
 const CHUNK_SIZE = BigInt(process.env.BACKFILL_CHUNK_SIZE || "4000");
+const MIN_CHUNK_SIZE = BigInt(process.env.BACKFILL_MIN_CHUNK_SIZE || "1");
+const MAX_CHUNK_SIZE = BigInt(process.env.BACKFILL_MAX_CHUNK_SIZE || "50000");
+const GETLOGS_TARGET_LOGS = Number(process.env.GETLOGS_TARGET_LOGS || "5000");
 const CONFIRMATIONS = BigInt(process.env.BACKFILL_CONFIRMATIONS || process.env.INDEXER_CONFIRMATIONS || "5");
 const LOOKBACK_BLOCKS = BigInt(process.env.BACKFILL_LOOKBACK_BLOCKS || "0");
 const MAX_BLOCKTIME_CACHE = Number(process.env.BACKFILL_BLOCKTIME_CACHE || "20000");
 
+// ------------------- Parallel mode tuning -------------------
+const UNIT_SIZE = BigInt(process.env.BACKFILL_UNIT_SIZE || "100000");
+const WORKERS = Math.max(1, Number(process.env.BACKFILL_WORKERS || "4"));
+const UNIT_LEASE_MS = Number(process.env.BACKFILL_UNIT_LEASE_MS || "300000");
+const UNIT_MAX_ATTEMPTS = Number(process.env.BACKFILL_UNIT_MAX_ATTEMPTS || "5");
+
 const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
 
+// pair Swap/Sync/Mint/Burn (+ LP token Transfers) are fetched in the same getLogs call as token Transfers
+const hasPair = /^0x[a-f0-9]{40}$/.test(pairAddress);
+let pairTokens: PairTokens | null = null;
+
+// LP locker (PinkLock / UNCX / Team Finance) events too, unless INDEXER_LP_LOCKERS=false
+const lockerAddresses =
+  hasPair && String(process.env.INDEXER_LP_LOCKERS || "true").toLowerCase() !== "false"
+    ? Array.from(knownLockers().keys())
+    : [];
+
+// other registered pools of the token (dex_pools), same as the live indexer (INDEXER_EXTRA_POOLS)
+const indexExtraPools = hasPair && String(process.env.INDEXER_EXTRA_POOLS || "true").toLowerCase() !== "false";
+let extraPools: string[] = [];
+const extraPoolTokens = new Map<string, PairTokens>();
+
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
@@ -37,19 +92,45 @@ function parseTransferLog(log: Log) {
   return { from, to, rawAmount };
 }
 
+// range size adapts to provider limits / log density (starts at BACKFILL_CHUNK_SIZE)
+const logRange = new AdaptiveLogRange("backfill", {
+  initialSpan: CHUNK_SIZE,
+  minSpan: MIN_CHUNK_SIZE,
+  maxSpan: MAX_CHUNK_SIZE,
+  targetLogs: GETLOGS_TARGET_LOGS,
+});
+
 async function getLogsRange(from: bigint, to: bigint): Promise<Log[]> {
-  return callRpc(
-    async () =>
-      (await provider.getLogs({
-        address: tokenAddress,
-        topics: [TRANSFER_TOPIC],
-        fromBlock: Number(from),
-        toBlock: Number(to),
-      })) as Log[],
-    `getLogs(${from}-${to})`
+  if (!hasPair) return logRange.fetch({ address: tokenAddress, topics: [TRANSFER_TOPIC] }, from, to);
+  return logRange.fetch(
+    {
+      address: [tokenAddress, pairAddress, ...extraPools, ...lockerAddresses],
+      topics: [
+        [
+          TRANSFER_TOPIC,
+          ...PAIR_EVENT_TOPICS,
+          ...(extraPools.length ? V3_POOL_EVENT_TOPICS : []),
+          ...(lockerAddresses.length ? LOCKER_EVENT_TOPICS : []),
+        ],
+      ],
+    },
+    from,
+    to
   );
 }
 
+async function loadPair() {
+  if (!hasPair || pairTokens) return;
+  pairTokens = await loadPairTokens(pairAddress);
+  console.log(`Pair: ${pairAddress} token0=${pairTokens.token0} token1=${pairTokens.token1}`);
+
+  if (indexExtraPools) {
+    extraPools = (await getPoolAddresses(pool, tokenAddress)).filter((a) => a !== pairAddress);
+    for (const a of extraPools) extraPoolTokens.set(a, await loadPairTokens(a));
+    console.log("Extra pools:", extraPools.length ? extraPools.join(", ") : "(none registered)");
+  }
+}
+
 // -------- bounded block time cache --------
 const blockTimeCache = new Map<number, Date>();
 
@@ -100,6 +181,126 @@ async function bulkGetOrCreateAddressIds(client: PoolClient, addrs: string[]): P
   return map;
 }
 
+async function warmBlockTimes(logs: Log[]) {
+  // locker logs are mostly other tokens' locks; ingestLogs fetches times for the ones it keeps
+  logs = logs.filter((l) => !lockerAddresses.includes(String(l.address).toLowerCase()));
+  if (logs.length === 0) return;
+  const uniqueBlocks = Array.from(new Set(logs.map((l) => Number(l.blockNumber)))).sort((a, b) => a - b);
+  for (const bn of uniqueBlocks) await getBlockTime(bn);
+}
+
+// -------- chunk ingestion (shared by serial + parallel modes) --------
+async function ingestLogs(client: PoolClient, logs: Log[]): Promise<void> {
+  if (logs.length === 0) return;
+
+  if (hasPair && pairTokens) {
+    const lpRows: LpEventRow[] = [];
+    for (const log of logs) {
+      const addr = String(log.address).toLowerCase();
+      const tokens = addr === pairAddress ? pairTokens : extraPoolTokens.get(addr);
+      if (!tokens) continue;
+      const bn = Number(log.blockNumber);
+      const row = decodePairLog(log, tokens, blockTimeCache.get(bn) || (await getBlockTime(bn)));
+      if (row) lpRows.push(row);
+    }
+    await insertLpEvents(client, lpRows);
+
+    const lockerLogs = logs.filter((l) => lockerAddresses.includes(String(l.address).toLowerCase()));
+    if (lockerLogs.length > 0) {
+      const pairLogs = logs.filter((l) => String(l.address).toLowerCase() === pairAddress);
+      const lockRows = await decodeLockEvents(
+        client,
+        lockerLogs,
+        pairLogs,
+        tokenAddress,
+        pairAddress,
+        (bn) => blockTimeCache.get(bn) || null
+      );
+      for (const r of lockRows) r.blockTime = r.blockTime || (await getBlockTime(Number(r.blockNumber)));
+      await insertLockEvents(client, lockRows);
+    }
+  }
+
+  logs = logs.filter((l) => String(l.address).toLowerCase() === tokenAddress && l.topics[0] === TRANSFER_TOPIC);
+  if (logs.length === 0) return;
+
+  const addrList: string[] = [];
+  for (const log of logs) {
+    const { from: fa, to: ta } = parseTransferLog(log);
+    addrList.push(fa, ta);
+  }
+  const addrMap = await bulkGetOrCreateAddressIds(client, addrList);
+
+  const tx_hash: string[] = [];
+  const log_index: number[] = [];
+  const block_number: string[] = [];
+  const block_time: Date[] = [];
+  const from_id: number[] = [];
+  const to_id: number[] = [];
+  const raw_amount: string[] = [];
+
+  for (const log of logs) {
+    const { from: fa, to: ta, rawAmount } = parseTransferLog(log);
+    const bn = Number(log.blockNumber);
+    const bt = blockTimeCache.get(bn) || (await getBlockTime(bn));
+
+    const faId = addrMap.get(fa);
+    const taId = addrMap.get(ta);
+    if (!faId || !taId) throw new Error(`Address id missing fa=${fa} ta=${ta}`);
+
+    const li = Number((log as any).logIndex ?? (log as any).index ?? 0);
+
+    tx_hash.push(String(log.transactionHash));
+    log_index.push(li);
+    block_number.push(String(log.blockNumber));
+    block_time.push(bt);
+    from_id.push(faId);
+    to_id.push(taId);
+    raw_amount.push(rawAmount.toString());
+  }
+
+  const inserted: InsertedTransfer[] = [];
+  const BATCH_ROWS = 1000;
+  for (let i = 0; i < tx_hash.length; i += BATCH_ROWS) {
+    const j = Math.min(i + BATCH_ROWS, tx_hash.length);
+
+    const ins = await client.query<InsertedTransfer>(
+      `
+      INSERT INTO transfers (
+        tx_hash, log_index, block_number, block_time,
+        from_address_id, to_address_id, raw_amount
+      )
+      SELECT *
+      FROM UNNEST(
+        $1::text[],
+        $2::int[],
+        $3::bigint[],
+        $4::timestamptz[],
+        $5::int[],
+        $6::int[],
+        $7::text[]
+      )
+      ON CONFLICT (tx_hash, log_index) DO NOTHING
+      RETURNING tx_hash, log_index, block_number, block_time, from_address_id, to_address_id, raw_amount
+      `,
+      [
+        tx_hash.slice(i, j),
+        log_index.slice(i, j),
+        block_number.slice(i, j).map((x) => BigInt(x).toString()),
+        block_time.slice(i, j),
+        from_id.slice(i, j),
+        to_id.slice(i, j),
+        raw_amount.slice(i, j),
+      ]
+    );
+    inserted.push(...ins.rows);
+  }
+
+  // only rows this transaction actually inserted (overlap re-scans are no-ops)
+  await applyTransferDeltas(client, inserted);
+  await appendBalanceChanges(client, inserted);
+}
+
 // ------------------- Progress logic -------------------
 async function resolveStartFrom(): Promise<bigint> {
   const backfilled = await getMeta("last_backfilled_block");
@@ -153,8 +354,11 @@ async function runBackfillOnce() {
       return;
     }
 
-    for (let chunkFrom = from; chunkFrom <= target; chunkFrom += CHUNK_SIZE + 1n) {
-      let chunkTo = chunkFrom + CHUNK_SIZE;
+    await logRange.restore();
+    await loadPair();
+
+    for (let chunkFrom = from, chunkTo = from; chunkFrom <= target; chunkFrom = chunkTo + 1n) {
+      chunkTo = chunkFrom + logRange.nextSpan() - 1n;
       if (chunkTo > target) chunkTo = target;
 
       const scanFrom =
@@ -163,87 +367,15 @@ async function runBackfillOnce() {
       console.log(`\n🔎 Backfilling ${scanFrom} → ${chunkTo} (progressFrom=${chunkFrom})`);
 
       const logs = await getLogsRange(scanFrom, chunkTo);
-      console.log(`  Found ${logs.length} Transfer logs`);
+      console.log(`  Found ${logs.length} logs`);
 
-      if (logs.length > 0) {
-        const uniqueBlocks = Array.from(new Set(logs.map((l) => Number(l.blockNumber)))).sort((a, b) => a - b);
-        for (const bn of uniqueBlocks) await getBlockTime(bn);
-      }
+      await warmBlockTimes(logs);
 
       const client = await pool.connect();
       try {
         await client.query("BEGIN");
 
-        if (logs.length > 0) {
-          const addrList: string[] = [];
-          for (const log of logs) {
-            const { from: fa, to: ta } = parseTransferLog(log);
-            addrList.push(fa, ta);
-          }
-          const addrMap = await bulkGetOrCreateAddressIds(client, addrList);
-
-          const tx_hash: string[] = [];
-          const log_index: number[] = [];
-          const block_number: string[] = [];
-          const block_time: Date[] = [];
-          const from_id: number[] = [];
-          const to_id: number[] = [];
-          const raw_amount: string[] = [];
-
-          for (const log of logs) {
-            const { from: fa, to: ta, rawAmount } = parseTransferLog(log);
-            const bn = Number(log.blockNumber);
-            const bt = blockTimeCache.get(bn) || (await getBlockTime(bn));
-
-            const faId = addrMap.get(fa);
-            const taId = addrMap.get(ta);
-            if (!faId || !taId) throw new Error(`Address id missing fa=${fa} ta=${ta}`);
-
-            const li = Number((log as any).logIndex ?? (log as any).index ?? 0);
-
-            tx_hash.push(String(log.transactionHash));
-            log_index.push(li);
-            block_number.push(String(log.blockNumber));
-            block_time.push(bt);
-            from_id.push(faId);
-            to_id.push(taId);
-            raw_amount.push(rawAmount.toString());
-          }
-
-          const BATCH_ROWS = 1000;
-          for (let i = 0; i < tx_hash.length; i += BATCH_ROWS) {
-            const j = Math.min(i + BATCH_ROWS, tx_hash.length);
-
-            await client.query(
-              `
-              INSERT INTO transfers (
-                tx_hash, log_index, block_number, block_time,
-                from_address_id, to_address_id, raw_amount
-              )
-              SELECT *
-              FROM UNNEST(
-                $1::text[],
-                $2::int[],
-                $3::bigint[],
-                $4::timestamptz[],
-                $5::int[],
-                $6::int[],
-                $7::text[]
-              )
-              ON CONFLICT (tx_hash, log_index) DO NOTHING
-              `,
-              [
-                tx_hash.slice(i, j),
-                log_index.slice(i, j),
-                block_number.slice(i, j).map((x) => BigInt(x).toString()),
-                block_time.slice(i, j),
-                from_id.slice(i, j),
-                to_id.slice(i, j),
-                raw_amount.slice(i, j),
-              ]
-            );
-          }
-        }
+        await ingestLogs(client, logs);
 
         await setMeta("last_backfilled_block", chunkTo.toString(), client);
         await setMeta("last_scanned_block", chunkTo.toString(), client);
@@ -269,7 +401,119 @@ async function runBackfillOnce() {
   }
 }
 
-runBackfillOnce().catch((err) => {
+// ------------------- Parallel (range-partitioned) backfill -------------------
+async function processUnit(unit: BackfillUnit, workerId: string) {
+  const unitFrom = BigInt(unit.from_block);
+  const unitTo = BigInt(unit.to_block);
+
+  // resume inside the unit if a previous attempt got partway
+  let chunkFrom = unit.scanned_to ? BigInt(unit.scanned_to) + 1n : unitFrom;
+
+  console.log(`[${workerId}] unit #${unit.id} ${unitFrom} → ${unitTo} (attempt ${unit.attempts}, from ${chunkFrom})`);
+
+  for (let chunkTo = chunkFrom; chunkFrom <= unitTo; chunkFrom = chunkTo + 1n) {
+    chunkTo = chunkFrom + logRange.nextSpan() - 1n;
+    if (chunkTo > unitTo) chunkTo = unitTo;
+
+    const logs = await getLogsRange(chunkFrom, chunkTo);
+    await warmBlockTimes(logs);
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await ingestLogs(client, logs);
+      await markUnitProgress(client, unit.id, chunkTo, logs.length, UNIT_LEASE_MS);
+      await client.query("COMMIT");
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+async function runWorker(workerId: string) {
+  while (true) {
+    const unit = await claimUnit(pool, workerId, UNIT_LEASE_MS, UNIT_MAX_ATTEMPTS);
+    if (!unit) return;
+
+    try {
+      await processUnit(unit, workerId);
+      await markUnitDone(pool, unit.id);
+      console.log(`[${workerId}] ✅ unit #${unit.id} done`);
+    } catch (e) {
+      console.error(`[${workerId}] ❌ unit #${unit.id} failed:`, e);
+      await markUnitFailed(pool, unit.id, e);
+    }
+  }
+}
+
+async function runParallelBackfill() {
+  console.log("🟡 BC400 parallel backfill (range units + row locks + shared advisory lock)");
+  console.log("Token:", tokenAddress);
+  console.log("UNIT_SIZE:", UNIT_SIZE.toString(), "CHUNK_SIZE:", CHUNK_SIZE.toString(), "WORKERS:", WORKERS);
+  console.log("LOCK_NAME:", LOCK_NAME);
+
+  // shared: several backfill processes may run together, but never alongside the indexer/serial backfill
+  const lockClient = await pool.connect();
+  try {
+    const ok = await tryAdvisoryLockShared(lockClient, LOCK_NAME);
+    if (!ok) {
+      console.log(`🔒 Lock busy (${LOCK_NAME}). Indexer or serial backfill running. Exiting.`);
+      return;
+    }
+
+    let from = await resolveStartFrom();
+    if (from < CONFIGURED_START_BLOCK) from = CONFIGURED_START_BLOCK;
+    const target = await resolveBackfillTarget();
+
+    await logRange.restore();
+    await loadPair();
+
+    const added = from <= target ? await planUnits(pool, from, target, UNIT_SIZE) : 0;
+    console.log(`Planned ${added} new unit(s) up to ${target}`);
+
+    const host = `${os.hostname()}:${process.pid}`;
+    await Promise.all(Array.from({ length: WORKERS }, (_, i) => runWorker(`${host}:w${i}`)));
+
+    const doneTo = await contiguousDoneTo(pool);
+    if (doneTo !== null) {
+      await setMetaMax("last_backfilled_block", doneTo.toString());
+      await setMetaMax("last_scanned_block", doneTo.toString());
+      console.log(`  ✅ last_backfilled_block >= ${doneTo}`);
+    }
+
+    await printBackfillStatus();
+  } finally {
+    try {
+      await advisoryUnlockShared(lockClient, LOCK_NAME);
+    } catch {}
+    lockClient.release();
+  }
+}
+
+async function printBackfillStatus() {
+  const { summary, open } = await getBackfillStatus(pool);
+  console.log("\n📊 Backfill units by status:");
+  console.table(summary);
+  if (open.length > 0) {
+    console.log("In-flight / failed ranges:");
+    console.table(open);
+  }
+}
+
+// ------------------- Entry -------------------
+// serial (default) | --parallel | --status   (or BACKFILL_MODE=parallel|status)
+const MODE = (
+  process.env.BACKFILL_MODE ||
+  (process.argv.includes("--parallel") ? "parallel" : process.argv.includes("--status") ? "status" : "serial")
+).toLowerCase();
+
+const entry =
+  MODE === "parallel" ? runParallelBackfill : MODE === "status" ? printBackfillStatus : runBackfillOnce;
+
+entry().catch((err) => {
   console.error("❌ Backfill crashed:", err);
   process.exit(1);
-});
\ No newline at end of file
+});
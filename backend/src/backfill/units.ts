@@ -0,0 +1,186 @@
+import type { Pool, PoolClient } from "pg";
+
+export type BackfillUnit = {
+  id: number;
+  from_block: string;
+  to_block: string;
+  scanned_to: string | null;
+  attempts: number;
+};
+
+export type BackfillUnitRange = {
+  id: number;
+  from_block: string;
+  to_block: string;
+  status: "pending" | "in_progress" | "done" | "failed";
+  scanned_to: string | null;
+  attempts: number;
+  last_error: string | null;
+  claimed_by: string | null;
+  lease_expires_at: string | null;
+};
+
+/**
+ * Split [from, to] into units of `unitSize` blocks.
+ * Only the part above the already-planned range is added, so re-running is safe.
+ */
+export async function planUnits(pool: Pool, from: bigint, to: bigint, unitSize: bigint): Promise<number> {
+  const res = await pool.query<{ max: string | null }>(`SELECT MAX(to_block) AS max FROM backfill_units`);
+  const planned = res.rows[0]?.max;
+
+  let start = from;
+  if (planned && BigInt(planned) + 1n > start) start = BigInt(planned) + 1n;
+  if (start > to) return 0;
+
+  const froms: string[] = [];
+  const tos: string[] = [];
+  for (let f = start; f <= to; f += unitSize) {
+    let t = f + unitSize - 1n;
+    if (t > to) t = to;
+    froms.push(f.toString());
+    tos.push(t.toString());
+  }
+
+  const ins = await pool.query(
+    `
+    INSERT INTO backfill_units (from_block, to_block)
+    SELECT * FROM UNNEST($1::bigint[], $2::bigint[])
+    ON CONFLICT (from_block) DO NOTHING
+    `,
+    [froms, tos]
+  );
+
+  return ins.rowCount ?? 0;
+}
+
+/**
+ * Claim the lowest runnable unit (row lock + SKIP LOCKED so workers never collide).
+ * Runnable = pending, failed-but-due-for-retry, or in_progress with an expired lease and attempts left.
+ * Expired leases that used up their attempts (a unit that keeps crashing its worker) are marked failed
+ * first, so they stop cycling and show up for an operator like any other exhausted unit.
+ */
+export async function claimUnit(
+  pool: Pool,
+  workerId: string,
+  leaseMs: number,
+  maxAttempts: number
+): Promise<BackfillUnit | null> {
+  await pool.query(
+    `
+    UPDATE backfill_units
+    SET status = 'failed',
+        last_error = 'lease expired on the last attempt (worker died mid-unit)'
+          || COALESCE('; previous error: ' || last_error, ''),
+        lease_expires_at = NULL
+    WHERE status = 'in_progress'
+      AND lease_expires_at < now()
+      AND attempts >= $1
+    `,
+    [maxAttempts]
+  );
+
+  const res = await pool.query<BackfillUnit>(
+    `
+    UPDATE backfill_units u
+    SET status = 'in_progress',
+        claimed_by = $1,
+        claimed_at = now(),
+        lease_expires_at = now() + ($2::int * INTERVAL '1 millisecond'),
+        attempts = u.attempts + 1
+    WHERE u.id = (
+      SELECT id
+      FROM backfill_units
+      WHERE (status = 'pending')
+         OR (status = 'failed' AND attempts < $3 AND next_attempt_at <= now())
+         OR (status = 'in_progress' AND lease_expires_at < now() AND attempts < $3)
+      ORDER BY from_block
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING u.id, u.from_block, u.to_block, u.scanned_to, u.attempts
+    `,
+    [workerId, leaseMs, maxAttempts]
+  );
+
+  return res.rows[0] ?? null;
+}
+
+/** Record progress inside a unit (same transaction as the transfer inserts) and extend the lease. */
+export async function markUnitProgress(
+  client: PoolClient,
+  unitId: number,
+  scannedTo: bigint,
+  logsFound: number,
+  leaseMs: number
+): Promise<void> {
+  await client.query(
+    `
+    UPDATE backfill_units
+    SET scanned_to = $2,
+        logs_found = logs_found + $3,
+        lease_expires_at = now() + ($4::int * INTERVAL '1 millisecond')
+    WHERE id = $1
+    `,
+    [unitId, scannedTo.toString(), logsFound, leaseMs]
+  );
+}
+
+export async function markUnitDone(pool: Pool, unitId: number): Promise<void> {
+  await pool.query(
+    `
+    UPDATE backfill_units
+    SET status = 'done',
+        completed_at = now(),
+        last_error = NULL,
+        lease_expires_at = NULL
+    WHERE id = $1
+    `,
+    [unitId]
+  );
+}
+
+/** Failed units back off exponentially; after max attempts they stay 'failed' for an operator. */
+export async function markUnitFailed(pool: Pool, unitId: number, err: unknown): Promise<void> {
+  const msg = err instanceof Error ? err.message : String(err);
+  await pool.query(
+    `
+    UPDATE backfill_units
+    SET status = 'failed',
+        last_error = $2,
+        lease_expires_at = NULL,
+        next_attempt_at = now() + (LEAST(POWER(2, attempts), 64) * INTERVAL '15 seconds')
+    WHERE id = $1
+    `,
+    [unitId, msg.slice(0, 2000)]
+  );
+}
+
+/** Highest block such that every unit at or below it is done (safe value for last_backfilled_block). */
+export async function contiguousDoneTo(pool: Pool): Promise<bigint | null> {
+  const res = await pool.query<{ done_to: string | null }>(
+    `
+    SELECT MAX(to_block) AS done_to
+    FROM backfill_units
+    WHERE status = 'done'
+      AND to_block < COALESCE(
+        (SELECT MIN(from_block) FROM backfill_units WHERE status <> 'done'),
+        9223372036854775807
+      )
+    `
+  );
+  const v = res.rows[0]?.done_to;
+  return v ? BigInt(v) : null;
+}
+
+export async function getBackfillStatus(pool: Pool) {
+  const summary = await pool.query(`SELECT * FROM backfill_status ORDER BY status`);
+  const open = await pool.query<BackfillUnitRange>(
+    `
+    SELECT id, from_block, to_block, status, scanned_to, attempts, last_error, claimed_by, lease_expires_at
+    FROM backfill_units
+    WHERE status IN ('in_progress', 'failed')
+    ORDER BY from_block
+    `
+  );
+  return { summary: summary.rows, open: open.rows };
+}
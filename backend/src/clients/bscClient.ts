@@ -1,33 +1,48 @@
 import "dotenv/config";
-import { ethers } from "ethers";
+import { JsonRpcProvider, Network } from "ethers";
+import type { JsonRpcPayload, JsonRpcResult, JsonRpcError } from "ethers";
 
-// Accept both naming styles (Render + local)
-const rpcUrl =
-  process.env.BSC_RPC_URL ||
-  process.env.RPC_URL;
+// Public fallback so read-only routes keep working without config (same default the routes used)
+const DEFAULT_PUBLIC_RPC = "https://bsc-dataseed.binance.org/";
 
-if (!rpcUrl) {
-  throw new Error("Missing RPC URL. Set BSC_RPC_URL (preferred) or RPC_URL (Render).");
+// Accept every naming style we've used (Render + local), plus a comma-separated pool
+function resolveRpcUrls(): string[] {
+  const list = [
+    ...(process.env.BSC_RPC_URLS || "").split(","),
+    process.env.BSC_RPC_URL,
+    process.env.RPC_URL,
+    process.env.BSC_RPC_HTTP_URL,
+    process.env.NODEREAL_HTTP_URL,
+  ]
+    .map((u) => String(u || "").trim())
+    .filter(Boolean);
+
+  const unique = Array.from(new Set(list));
+  if (unique.length === 0) {
+    console.warn(`[rpc] no RPC URL configured (BSC_RPC_URLS / BSC_RPC_URL / RPC_URL); using ${DEFAULT_PUBLIC_RPC}`);
+    return [DEFAULT_PUBLIC_RPC];
+  }
+  return unique;
 }
 
 // Optional WS (not used here yet, but supported for later)
 export const wsUrl = process.env.BSC_WS_URL || process.env.WS_URL || undefined;
 
-export const provider = new ethers.JsonRpcProvider(rpcUrl);
+// ---------- tuning ----------
+const MIN_RPC_GAP_MS = Number(process.env.RPC_MIN_GAP_MS || 120); // per endpoint
+const HEALTH_INTERVAL_MS = Number(process.env.RPC_HEALTH_INTERVAL_MS || 30_000);
+const MAX_LAG_BLOCKS = Number(process.env.RPC_MAX_LAG_BLOCKS || 20);
+const COOLDOWN_BASE_MS = Number(process.env.RPC_COOLDOWN_MS || 5_000);
+const EWMA_ALPHA = 0.2;
 
-// ---------- polite global throttle ----------
-let lastRpcAt = 0;
-const MIN_RPC_GAP_MS = Number(process.env.RPC_MIN_GAP_MS || 120);
+const BSC_NETWORK = Network.from(56);
 
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
 
-async function throttle() {
-  const now = Date.now();
-  const wait = Math.max(0, MIN_RPC_GAP_MS - (now - lastRpcAt));
-  if (wait > 0) await sleep(wait);
-  lastRpcAt = Date.now();
+function errMessage(err: any) {
+  return typeof err?.message === "string" ? err.message : JSON.stringify(err ?? {});
 }
 
 function looksRateLimited(msg: string) {
@@ -45,28 +60,351 @@ function looksRateLimited(msg: string) {
   );
 }
 
+/**
+ * getLogs "your range is too big" errors. Two flavours:
+ * - block span caps ("exceed maximum block range: 5000") -> per-endpoint, learnable
+ * - result caps ("query returned more than 10000 results") -> depends on log density, just split
+ * Throttling/timeouts are never range errors: splitting on them would shrink the learned spans.
+ */
+export function isLogRangeError(msg: string) {
+  if (looksRateLimited(msg)) return false;
+  const m = msg.toLowerCase();
+  return (
+    m.includes("block range") ||
+    m.includes("range too large") ||
+    m.includes("range is too large") ||
+    m.includes("range limit") ||
+    m.includes("too many blocks") ||
+    (m.includes("more than") && m.includes("results")) ||
+    m.includes("too many results") ||
+    m.includes("response size") ||
+    m.includes("max results")
+  );
+}
+
+/** Block span cap from a span-type error message (null for result-count errors or unparseable). */
+export function parseLogSpanLimit(msg: string): number | null {
+  const m = msg.toLowerCase();
+  const spanType =
+    m.includes("block range") || m.includes("range too large") || m.includes("range is too large") || m.includes("too many blocks");
+  if (!spanType) return null;
+  const n = m.match(/(\d{2,})/);
+  return n ? Number(n[1]) : null;
+}
+
+function getLogsSpan(payload: JsonRpcPayload | Array<JsonRpcPayload>): number | null {
+  const p = Array.isArray(payload) ? (payload.length === 1 ? payload[0] : null) : payload;
+  if (!p || p.method !== "eth_getLogs") return null;
+  const f = (p.params as any[])?.[0];
+  if (!f || typeof f.fromBlock !== "string" || typeof f.toBlock !== "string") return null;
+  if (!f.fromBlock.startsWith("0x") || !f.toBlock.startsWith("0x")) return null;
+  return Number(BigInt(f.toBlock) - BigInt(f.fromBlock)) + 1;
+}
+
+// Errors that every endpoint would return for the same request (failing over won't help)
+function isDeterministicRpcError(error: JsonRpcError["error"]) {
+  const msg = String(error?.message || "").toLowerCase();
+  return error?.code === 3 || msg.includes("execution reverted") || msg.includes("revert");
+}
+
+// Never log/expose full URLs (API keys live in the path/query)
+function endpointHost(url: string, i: number) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return `rpc${i}`;
+  }
+}
+
+type Endpoint = {
+  label: string;
+  host: string;
+  provider: JsonRpcProvider;
+  latencyMs: number; // EWMA
+  errorRate: number; // EWMA, 0..1
+  head: number | null;
+  headAt: number | null;
+  cooldownUntil: number;
+  consecutiveFailures: number;
+  lastCallAt: number;
+  calls: number;
+  failures: number;
+  lastError: string | null;
+  maxLogSpan: number | null; // learned eth_getLogs block span cap
+};
+
+export type RpcEndpointStatus = {
+  label: string;
+  score: number;
+  latencyMs: number;
+  errorRate: number;
+  head: number | null;
+  lagBlocks: number | null;
+  coolingDown: boolean;
+  calls: number;
+  failures: number;
+  lastError: string | null;
+  maxLogSpan: number | null;
+};
+
+/**
+ * RpcPoolProvider
+ * - one ethers provider backed by several endpoints
+ * - every request goes to the best-scored endpoint (latency x error rate + head lag)
+ * - endpoint failures fail over to the next endpoint instead of throwing
+ * - background eth_blockNumber probe keeps head freshness current
+ */
+export class RpcPoolProvider extends JsonRpcProvider {
+  readonly endpoints: Endpoint[];
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  constructor(urls: string[]) {
+    const opts = { staticNetwork: BSC_NETWORK, batchMaxCount: 1 };
+    super(urls[0], BSC_NETWORK, opts);
+
+    this.endpoints = urls.map((url, i) => ({
+      label: `${endpointHost(url, i)}#${i}`,
+      host: endpointHost(url, i),
+      provider: new JsonRpcProvider(url, BSC_NETWORK, opts),
+      latencyMs: 250,
+      errorRate: 0,
+      head: null,
+      headAt: null,
+      cooldownUntil: 0,
+      consecutiveFailures: 0,
+      lastCallAt: 0,
+      calls: 0,
+      failures: 0,
+      lastError: null,
+      maxLogSpan: null,
+    }));
+  }
+
+  private bestHead(): number | null {
+    const heads = this.endpoints.map((e) => e.head).filter((h): h is number => h !== null);
+    return heads.length ? Math.max(...heads) : null;
+  }
+
+  private score(ep: Endpoint, bestHead: number | null): number {
+    const lag = bestHead !== null && ep.head !== null ? Math.max(0, bestHead - ep.head) : 0;
+    const lagPenalty = lag > MAX_LAG_BLOCKS ? 10_000 : lag * 100;
+    return ep.latencyMs * (1 + 10 * ep.errorRate) + lagPenalty;
+  }
+
+  /** Healthy endpoints first (best score), cooling-down ones last as a final resort. */
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    const bestHead = this.bestHead();
+    return [...this.endpoints].sort((a, b) => {
+      const ac = a.cooldownUntil > now ? 1 : 0;
+      const bc = b.cooldownUntil > now ? 1 : 0;
+      if (ac !== bc) return ac - bc;
+      return this.score(a, bestHead) - this.score(b, bestHead);
+    });
+  }
+
+  private recordSuccess(ep: Endpoint, ms: number) {
+    ep.calls += 1;
+    ep.latencyMs = ep.latencyMs * (1 - EWMA_ALPHA) + ms * EWMA_ALPHA;
+    ep.errorRate = ep.errorRate * (1 - EWMA_ALPHA);
+    ep.consecutiveFailures = 0;
+  }
+
+  private recordFailure(ep: Endpoint, msg: string) {
+    ep.calls += 1;
+    ep.failures += 1;
+    ep.errorRate = ep.errorRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+    ep.consecutiveFailures += 1;
+    ep.lastError = msg.slice(0, 300);
+
+    const backoff = COOLDOWN_BASE_MS * Math.pow(2, Math.min(ep.consecutiveFailures - 1, 5));
+    ep.cooldownUntil = Date.now() + backoff;
+  }
+
+  private async throttle(ep: Endpoint) {
+    const wait = Math.max(0, MIN_RPC_GAP_MS - (Date.now() - ep.lastCallAt));
+    if (wait > 0) await sleep(wait);
+    ep.lastCallAt = Date.now();
+  }
+
+  /** A getLogs range error is about the request, not endpoint health: learn the cap, no penalty. */
+  private learnLogSpan(ep: Endpoint, span: number | null, msg: string) {
+    if (span === null) return;
+    const parsed = parseLogSpanLimit(msg);
+    if (parsed === null) return;
+    const cap = Math.max(1, Math.min(parsed, span - 1));
+    if (ep.maxLogSpan === null || cap < ep.maxLogSpan) {
+      ep.maxLogSpan = cap;
+      console.warn(`[rpc:${ep.label}] learned getLogs block span cap = ${cap}`);
+    }
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    this.startHealthChecks();
+
+    let lastError: unknown = null;
+    let lastResults: Array<JsonRpcResult> | null = null;
+
+    // getLogs: skip endpoints known to reject this span
+    const span = getLogsSpan(payload);
+    const candidates = this.ranked().filter((ep) => span === null || ep.maxLogSpan === null || span <= ep.maxLogSpan);
+
+    if (candidates.length === 0) {
+      const id = Array.isArray(payload) ? payload[0]?.id : payload.id;
+      const cap = this.maxAdmissibleLogSpan();
+      return [
+        {
+          id,
+          error: { code: -32005, message: `rpc pool: block range too large for every endpoint (max ${cap} blocks)` },
+        } as unknown as JsonRpcResult,
+      ];
+    }
+
+    for (const ep of candidates) {
+      await this.throttle(ep);
+      const t0 = Date.now();
+
+      try {
+        const results = await ep.provider._send(payload);
+
+        const rpcErr = (results as Array<JsonRpcResult | JsonRpcError>).find(
+          (r): r is JsonRpcError => "error" in r
+        );
+        if (rpcErr && span !== null && isLogRangeError(String(rpcErr.error?.message || ""))) {
+          this.learnLogSpan(ep, span, String(rpcErr.error?.message || ""));
+          lastResults = results;
+          continue;
+        }
+        if (rpcErr && !isDeterministicRpcError(rpcErr.error)) {
+          this.recordFailure(ep, String(rpcErr.error?.message || "rpc error"));
+          console.error(`[rpc:${ep.label}] error -> failover`, rpcErr.error?.message);
+          lastResults = results;
+          continue;
+        }
+
+        this.recordSuccess(ep, Date.now() - t0);
+        return results;
+      } catch (err) {
+        const msg = errMessage(err);
+        if (span !== null && isLogRangeError(msg)) {
+          this.learnLogSpan(ep, span, msg);
+          lastError = err;
+          continue;
+        }
+        this.recordFailure(ep, msg);
+        console.error(`[rpc:${ep.label}] transport error -> failover`, msg);
+        lastError = err;
+      }
+    }
+
+    // every endpoint failed: surface the RPC error (ethers maps it) or the transport error
+    if (lastResults) return lastResults;
+    throw lastError ?? new Error("rpc pool: no endpoints available");
+  }
+
+  /** Probe every endpoint's head block; also measures latency for idle endpoints. */
+  async checkHealth(): Promise<void> {
+    await Promise.all(
+      this.endpoints.map(async (ep) => {
+        const t0 = Date.now();
+        try {
+          const [res] = await ep.provider._send({ id: 1, jsonrpc: "2.0", method: "eth_blockNumber", params: [] });
+          if (!("result" in res)) throw new Error(String((res as any)?.error?.message || "no result"));
+          ep.head = Number(BigInt(res.result));
+          ep.headAt = Date.now();
+          this.recordSuccess(ep, Date.now() - t0);
+        } catch (err) {
+          this.recordFailure(ep, errMessage(err));
+        }
+      })
+    );
+  }
+
+  private startHealthChecks() {
+    if (this.healthTimer || this.endpoints.length < 2) return;
+    void this.checkHealth();
+    this.healthTimer = setInterval(() => void this.checkHealth(), HEALTH_INTERVAL_MS);
+    // don't keep scripts alive just for health probes
+    this.healthTimer.unref();
+  }
+
+  /** Largest getLogs span any usable endpoint accepts (null = no cap learned). */
+  maxAdmissibleLogSpan(): number | null {
+    const now = Date.now();
+    const usable = this.endpoints.filter((e) => e.cooldownUntil <= now);
+    const pool = usable.length ? usable : this.endpoints;
+    if (pool.some((e) => e.maxLogSpan === null)) return null;
+    return Math.max(...pool.map((e) => e.maxLogSpan as number));
+  }
+
+  /** Learned caps keyed by host (stable across restarts / config reorder). */
+  logSpanLimits(): Record<string, number> {
+    const out: Record<string, number> = {};
+    for (const ep of this.endpoints) if (ep.maxLogSpan !== null) out[ep.host] = ep.maxLogSpan;
+    return out;
+  }
+
+  applyLogSpanLimits(limits: Record<string, number>) {
+    for (const ep of this.endpoints) {
+      const v = Number(limits?.[ep.host]);
+      if (Number.isFinite(v) && v > 0) ep.maxLogSpan = v;
+    }
+  }
+
+  status(): RpcEndpointStatus[] {
+    const now = Date.now();
+    const bestHead = this.bestHead();
+    return this.endpoints.map((ep) => ({
+      label: ep.label,
+      score: Math.round(this.score(ep, bestHead)),
+      latencyMs: Math.round(ep.latencyMs),
+      errorRate: Number(ep.errorRate.toFixed(4)),
+      head: ep.head,
+      lagBlocks: bestHead !== null && ep.head !== null ? bestHead - ep.head : null,
+      coolingDown: ep.cooldownUntil > now,
+      calls: ep.calls,
+      failures: ep.failures,
+      lastError: ep.lastError,
+      maxLogSpan: ep.maxLogSpan,
+    }));
+  }
+
+  destroy(): void {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthTimer = null;
+    for (const ep of this.endpoints) ep.provider.destroy();
+    super.destroy();
+  }
+}
+
+// Shared pool: indexer, backfill, routes and services all use this one provider
+export const provider = new RpcPoolProvider(resolveRpcUrls());
+
+export function getRpcPoolStatus() {
+  return provider.status();
+}
+
 /**
  * callRpc
- * - global throttle
- * - exponential backoff on 429/temporary errors
+ * - endpoint selection + failover happen inside the pool provider
+ * - exponential backoff when every endpoint is rate-limited/temporarily down
  */
 export async function callRpc<T>(fn: () => Promise<T>, label = "rpc"): Promise<T> {
   let attempt = 0;
 
   while (true) {
     try {
-      await throttle();
       return await fn();
     } catch (err: any) {
-      const msg =
-        typeof err?.message === "string"
-          ? err.message
-          : JSON.stringify(err ?? {});
+      const msg = errMessage(err);
       attempt += 1;
 
+      // range problems are the caller's to split, retrying the same range won't help
+      if (isLogRangeError(msg)) throw err;
+
       if (looksRateLimited(msg)) {
         const backoff = Math.min(30_000, 1000 * Math.pow(2, Math.min(attempt, 5)));
-        console.error(`[${label}] rate/temporary error -> retry in ${backoff}ms`, msg);
+        console.error(`[${label}] rate/temporary error on all endpoints -> retry in ${backoff}ms`, msg);
         await sleep(backoff);
         continue;
       }
@@ -75,4 +413,4 @@ export async function callRpc<T>(fn: () => Promise<T>, label = "rpc"): Promise<T
       throw err;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,139 @@
+import type { Log } from "ethers";
+import { getMeta, setMeta } from "../db";
+import { callRpc, isLogRangeError, provider } from "./bscClient";
+
+// Learned per-endpoint getLogs block span caps (shared by every job)
+const LIMITS_META_KEY = "rpc_log_span_limits";
+
+export type LogFilter = {
+  address: string | string[];
+  topics: Array<string | string[] | null>;
+};
+
+export type AdaptiveLogRangeOptions = {
+  initialSpan: bigint;
+  minSpan: bigint;
+  maxSpan: bigint;
+  // grow when a range returns fewer than targetLogs/4, shrink above targetLogs
+  targetLogs: number;
+};
+
+function minBig(a: bigint, b: bigint) {
+  return a < b ? a : b;
+}
+
+function maxBig(a: bigint, b: bigint) {
+  return a > b ? a : b;
+}
+
+/**
+ * AdaptiveLogRange
+ * - splits a getLogs range in half on "too many results / range too large" errors
+ * - grows the span again when results are sparse
+ * - remembers its span (meta `getlogs_span:<name>`) and the pool's learned
+ *   per-endpoint caps (meta `rpc_log_span_limits`) across restarts
+ */
+export class AdaptiveLogRange {
+  private span: bigint;
+  private persistedSpan: bigint | null = null;
+  private persistedLimits = "";
+
+  constructor(private readonly name: string, private readonly opts: AdaptiveLogRangeOptions) {
+    this.span = opts.initialSpan;
+  }
+
+  private get spanKey() {
+    return `getlogs_span:${this.name}`;
+  }
+
+  async restore(): Promise<void> {
+    const [savedSpan, savedLimits] = await Promise.all([getMeta(this.spanKey), getMeta(LIMITS_META_KEY)]);
+
+    if (savedSpan && /^\d+$/.test(savedSpan)) {
+      this.span = this.clamp(BigInt(savedSpan));
+      this.persistedSpan = this.span;
+    }
+
+    if (savedLimits) {
+      try {
+        provider.applyLogSpanLimits(JSON.parse(savedLimits));
+        this.persistedLimits = savedLimits;
+      } catch {}
+    }
+
+    console.log(`[getLogs:${this.name}] span=${this.span} limits=${savedLimits || "{}"}`);
+  }
+
+  private clamp(v: bigint): bigint {
+    let s = maxBig(this.opts.minSpan, minBig(this.opts.maxSpan, v));
+    const cap = provider.maxAdmissibleLogSpan();
+    if (cap !== null) s = minBig(s, maxBig(this.opts.minSpan, BigInt(cap)));
+    return s;
+  }
+
+  /** Span the caller should use for its next range. */
+  nextSpan(): bigint {
+    this.span = this.clamp(this.span);
+    return this.span;
+  }
+
+  /** All logs in [from, to], in block order, splitting the range as needed. */
+  async fetch(filter: LogFilter, from: bigint, to: bigint): Promise<Log[]> {
+    const out: Log[] = [];
+    let cursor = from;
+
+    while (cursor <= to) {
+      const size = this.nextSpan();
+      let end = cursor + size - 1n;
+      if (end > to) end = to;
+      const width = end - cursor + 1n;
+
+      try {
+        const logs = (await callRpc(
+          () =>
+            provider.getLogs({
+              address: filter.address,
+              topics: filter.topics,
+              fromBlock: Number(cursor),
+              toBlock: Number(end),
+            }),
+          `getLogs(${cursor}-${end})`
+        )) as Log[];
+
+        out.push(...logs);
+        this.onSuccess(width, logs.length);
+        cursor = end + 1n;
+      } catch (err: any) {
+        const msg = typeof err?.message === "string" ? err.message : String(err);
+        if (!isLogRangeError(msg) || width <= this.opts.minSpan) throw err;
+
+        this.span = this.clamp(width / 2n);
+        console.warn(`[getLogs:${this.name}] range ${cursor}-${end} too large -> span ${this.span}`);
+      }
+    }
+
+    await this.persist();
+    return out;
+  }
+
+  private onSuccess(width: bigint, logCount: number) {
+    if (logCount > this.opts.targetLogs) {
+      this.span = this.clamp(width / 2n);
+    } else if (logCount < this.opts.targetLogs / 4 && width >= this.span) {
+      this.span = this.clamp(this.span * 2n);
+    }
+  }
+
+  private async persist() {
+    if (this.persistedSpan !== this.span) {
+      await setMeta(this.spanKey, this.span.toString());
+      this.persistedSpan = this.span;
+    }
+
+    const limits = JSON.stringify(provider.logSpanLimits());
+    if (limits !== this.persistedLimits && limits !== "{}") {
+      await setMeta(LIMITS_META_KEY, limits);
+      this.persistedLimits = limits;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import type { Pool } from "pg";
+import { writeAuditSnapshot } from "../services/auditSnapshots";
+
+/**
+ * Writes one audit_snapshots row per UTC day (first run at/after AUDIT_SNAPSHOT_HOUR_UTC).
+ * Enable by setting ENABLE_AUDIT_SNAPSHOT_CRON=true
+ * Check interval minutes default: 30
+ */
+export function startAuditSnapshotCron(pool: Pool) {
+  const enabled =
+    String(process.env.ENABLE_AUDIT_SNAPSHOT_CRON || "").toLowerCase() === "true";
+
+  if (!enabled) {
+    console.log("[audit-cron] disabled (set ENABLE_AUDIT_SNAPSHOT_CRON=true to enable)");
+    return;
+  }
+
+  const mins = Number(process.env.AUDIT_SNAPSHOT_INTERVAL_MINUTES || "30");
+  const ms = Math.max(1, mins) * 60 * 1000;
+  const hourUtc = Math.min(23, Math.max(0, Number(process.env.AUDIT_SNAPSHOT_HOUR_UTC || "0")));
+
+  console.log(`[audit-cron] enabled. interval=${mins} minutes hourUtc=${hourUtc}`);
+
+  let running = false;
+  async function runOnce(label: "initial" | "interval") {
+    if (running) return;
+    if (new Date().getUTCHours() < hourUtc) return;
+
+    running = true;
+    try {
+      const res = await writeAuditSnapshot(pool);
+      if (!res.inserted) return;
+      console.log(`[audit-cron] ${label} stored date=${res.date} risk=${res.riskScore ?? "n/a"}`);
+    } catch (e) {
+      console.error(`[audit-cron] ${label} run failed:`, e);
+    } finally {
+      running = false;
+    }
+  }
+
+  // run once on boot (after the supply snapshot had a chance to land)
+  setTimeout(() => void runOnce("initial"), 30_000);
+
+  // run every interval
+  setInterval(() => void runOnce("interval"), ms);
+}
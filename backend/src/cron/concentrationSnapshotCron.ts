@@ -0,0 +1,46 @@
+import type { Pool } from "pg";
+import { insertConcentrationSnapshot } from "../services/concentrationSnapshots";
+
+/**
+ * Writes a concentration_snapshots row on an interval.
+ * Enable by setting ENABLE_CONCENTRATION_SNAPSHOT_CRON=true
+ * Interval minutes default: 60
+ */
+export function startConcentrationSnapshotCron(pool: Pool) {
+  const enabled =
+    String(process.env.ENABLE_CONCENTRATION_SNAPSHOT_CRON || "").toLowerCase() === "true";
+
+  if (!enabled) {
+    console.log("[concentration-cron] disabled (set ENABLE_CONCENTRATION_SNAPSHOT_CRON=true to enable)");
+    return;
+  }
+
+  const mins = Number(process.env.CONCENTRATION_SNAPSHOT_INTERVAL_MINUTES || "60");
+  const ms = Math.max(1, mins) * 60 * 1000;
+
+  console.log(`[concentration-cron] enabled. interval=${mins} minutes`);
+
+  async function runOnce(label: "initial" | "interval") {
+    try {
+      const res = await insertConcentrationSnapshot(pool);
+      const ts = res.ts.toISOString();
+
+      if (!res.inserted) {
+        console.log(`[concentration-cron] ${label} skip ts=${ts} reason=${res.reason ?? "unknown"}`);
+        return;
+      }
+
+      console.log(
+        `[concentration-cron] ${label} inserted ts=${ts} top10=${res.top10PctCirculating ?? "n/a"}% risk=${res.riskScore}`
+      );
+    } catch (e) {
+      console.error(`[concentration-cron] ${label} run failed:`, e);
+    }
+  }
+
+  // run once on boot (after the supply snapshot had a chance to land)
+  setTimeout(() => void runOnce("initial"), 20_000);
+
+  // run every interval
+  setInterval(() => void runOnce("interval"), ms);
+}
@@ -0,0 +1,45 @@
+import type { Pool } from "pg";
+import { buildDexCandles } from "../services/dexCandles";
+
+/**
+ * Rolls lp_events forward into dex_candles on an interval.
+ * Enable by setting ENABLE_DEX_CANDLE_CRON=true
+ * Interval minutes default: 1
+ */
+export function startDexCandleCron(pool: Pool) {
+  const enabled =
+    String(process.env.ENABLE_DEX_CANDLE_CRON || "").toLowerCase() === "true";
+
+  if (!enabled) {
+    console.log("[candle-cron] disabled (set ENABLE_DEX_CANDLE_CRON=true to enable)");
+    return;
+  }
+
+  const mins = Number(process.env.DEX_CANDLE_INTERVAL_MINUTES || "1");
+  const ms = Math.max(1, mins) * 60 * 1000;
+
+  console.log(`[candle-cron] enabled. interval=${mins} minutes`);
+
+  let running = false;
+  async function runOnce(label: "initial" | "interval") {
+    if (running) return;
+    running = true;
+    try {
+      const res = await buildDexCandles(pool);
+      const counts = Object.entries(res.byResolution)
+        .map(([r, x]) => `${r}=${x.upserted}`)
+        .join(" ");
+      console.log(`[candle-cron] ${label} upserted ${counts}`);
+    } catch (e) {
+      console.error(`[candle-cron] ${label} run failed:`, e);
+    } finally {
+      running = false;
+    }
+  }
+
+  // run once on boot
+  setTimeout(() => void runOnce("initial"), 15_000);
+
+  // run every interval
+  setInterval(() => void runOnce("interval"), ms);
+}
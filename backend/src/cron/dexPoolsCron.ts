@@ -0,0 +1,42 @@
+import type { Pool } from "pg";
+import { refreshDexPools } from "../services/dexPools";
+
+/**
+ * Re-discovers PancakeSwap v2/v3 pools of the token and refreshes their reserves in dex_pools.
+ * Enable by setting ENABLE_DEX_POOLS_CRON=true
+ * Interval minutes default: 15
+ */
+export function startDexPoolsCron(pool: Pool) {
+  const enabled =
+    String(process.env.ENABLE_DEX_POOLS_CRON || "").toLowerCase() === "true";
+
+  if (!enabled) {
+    console.log("[pools-cron] disabled (set ENABLE_DEX_POOLS_CRON=true to enable)");
+    return;
+  }
+
+  const mins = Number(process.env.DEX_POOLS_INTERVAL_MINUTES || "15");
+  const ms = Math.max(1, mins) * 60 * 1000;
+
+  console.log(`[pools-cron] enabled. interval=${mins} minutes`);
+
+  let running = false;
+  async function runOnce(label: "initial" | "interval") {
+    if (running) return;
+    running = true;
+    try {
+      const res = await refreshDexPools(pool);
+      console.log(`[pools-cron] ${label} refreshed ${res.pools.length} pool(s) at block ${res.blockNumber}`);
+    } catch (e) {
+      console.error(`[pools-cron] ${label} run failed:`, e);
+    } finally {
+      running = false;
+    }
+  }
+
+  // run once on boot
+  setTimeout(() => void runOnce("initial"), 15_000);
+
+  // run every interval
+  setInterval(() => void runOnce("interval"), ms);
+}
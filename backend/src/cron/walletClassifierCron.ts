@@ -0,0 +1,42 @@
+import type { Pool } from "pg";
+import { runWalletClassifier } from "../services/walletClassifier";
+
+/**
+ * Re-runs the auto wallet classifier on an interval.
+ * Enable by setting ENABLE_WALLET_CLASSIFIER_CRON=true
+ * Interval minutes default: 360
+ */
+export function startWalletClassifierCron(pool: Pool) {
+  const enabled =
+    String(process.env.ENABLE_WALLET_CLASSIFIER_CRON || "").toLowerCase() === "true";
+
+  if (!enabled) {
+    console.log("[classifier-cron] disabled (set ENABLE_WALLET_CLASSIFIER_CRON=true to enable)");
+    return;
+  }
+
+  const mins = Number(process.env.WALLET_CLASSIFIER_INTERVAL_MINUTES || "360");
+  const ms = Math.max(1, mins) * 60 * 1000;
+
+  console.log(`[classifier-cron] enabled. interval=${mins} minutes`);
+
+  let running = false;
+  async function runOnce(label: "initial" | "interval") {
+    if (running) return;
+    running = true;
+    try {
+      const res = await runWalletClassifier(pool);
+      console.log(`[classifier-cron] ${label} labelled=${res.labelled} written=${res.written} removed=${res.removed}`);
+    } catch (e) {
+      console.error(`[classifier-cron] ${label} run failed:`, e);
+    } finally {
+      running = false;
+    }
+  }
+
+  // run once on boot (after a short delay)
+  setTimeout(() => void runOnce("initial"), 10_000);
+
+  // run every interval
+  setInterval(() => void runOnce("interval"), ms);
+}
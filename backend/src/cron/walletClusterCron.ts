@@ -0,0 +1,42 @@
+import type { Pool } from "pg";
+import { runWalletClustering } from "../services/walletClustering";
+
+/**
+ * Rebuilds wallet clusters from the transfers graph on an interval.
+ * Enable by setting ENABLE_WALLET_CLUSTER_CRON=true
+ * Interval minutes default: 720
+ */
+export function startWalletClusterCron(pool: Pool) {
+  const enabled =
+    String(process.env.ENABLE_WALLET_CLUSTER_CRON || "").toLowerCase() === "true";
+
+  if (!enabled) {
+    console.log("[cluster-cron] disabled (set ENABLE_WALLET_CLUSTER_CRON=true to enable)");
+    return;
+  }
+
+  const mins = Number(process.env.WALLET_CLUSTER_INTERVAL_MINUTES || "720");
+  const ms = Math.max(1, mins) * 60 * 1000;
+
+  console.log(`[cluster-cron] enabled. interval=${mins} minutes`);
+
+  let running = false;
+  async function runOnce(label: "initial" | "interval") {
+    if (running) return;
+    running = true;
+    try {
+      const res = await runWalletClustering(pool);
+      console.log(`[cluster-cron] ${label} clusters=${res.clusters} addresses=${res.clusteredAddresses} links=${res.links}`);
+    } catch (e) {
+      console.error(`[cluster-cron] ${label} run failed:`, e);
+    } finally {
+      running = false;
+    }
+  }
+
+  // run once on boot (after the classifier had a chance to label hubs)
+  setTimeout(() => void runOnce("initial"), 60_000);
+
+  // run every interval
+  setInterval(() => void runOnce("interval"), ms);
+}
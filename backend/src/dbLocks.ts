@@ -27,4 +27,19 @@ export async function tryAdvisoryLock(client: PoolClient, name: string): Promise
 export async function advisoryUnlock(client: PoolClient, name: string): Promise<void> {
   const key = lockKey64(name).toString();
   await client.query("SELECT pg_advisory_unlock($1::bigint)", [key]);
-}
\ No newline at end of file
+}
+
+/**
+ * Shared variant: many holders at once, but excludes the exclusive lock.
+ * Parallel backfill workers share it; the indexer's exclusive lock waits for them.
+ */
+export async function tryAdvisoryLockShared(client: PoolClient, name: string): Promise<boolean> {
+  const key = lockKey64(name).toString();
+  const res = await client.query("SELECT pg_try_advisory_lock_shared($1::bigint) AS ok", [key]);
+  return Boolean(res.rows[0]?.ok);
+}
+
+export async function advisoryUnlockShared(client: PoolClient, name: string): Promise<void> {
+  const key = lockKey64(name).toString();
+  await client.query("SELECT pg_advisory_unlock_shared($1::bigint)", [key]);
+}
@@ -4,10 +4,32 @@ import { pool, getMeta, setMeta } from "./db";
 import { callRpc, provider } from "./clients/bscClient";
 import type { PoolClient } from "pg";
 import { tryAdvisoryLock, advisoryUnlock } from "./dbLocks";
+import { AdaptiveLogRange } from "./clients/logRange";
+import { InsertedTransfer, applyTransferDeltas } from "./services/holderBalances";
+import { appendBalanceChanges } from "./services/balanceLedger";
+import {
+  BlockHeader,
+  recordBlockHeaders,
+  getStoredBlockHash,
+  findCommonAncestor,
+  rollbackToBlock,
+} from "./indexer/reorg";
+import {
+  PAIR_EVENT_TOPICS,
+  V3_POOL_EVENT_TOPICS,
+  PairTokens,
+  LpEventRow,
+  decodePairLog,
+  insertLpEvents,
+  loadPairTokens,
+} from "./indexer/lpEvents";
+import { LOCKER_EVENT_TOPICS, decodeLockEvents, insertLockEvents, knownLockers } from "./indexer/lockEvents";
+import { getPoolAddresses } from "./services/dexPools";
 
 // ------------------- Env (supports Render + local) -------------------
 const tokenAddress = (process.env.BC400_TOKEN_ADDRESS || process.env.TOKEN_ADDRESS || "").toLowerCase();
 const startBlockEnv = process.env.BC400_START_BLOCK || process.env.START_BLOCK;
+const pairAddress = (process.env.BC400_PAIR_ADDRESS || "").trim().toLowerCase();
 
 if (!tokenAddress) throw new Error("Missing token address env. Set BC400_TOKEN_ADDRESS or TOKEN_ADDRESS");
 if (!startBlockEnv) throw new Error("Missing start block env. Set BC400_START_BLOCK or START_BLOCK");
@@ -20,13 +42,33 @@ const LOCK_RETRY_MS = Number(process.env.BC400_LOCK_RETRY_MS || 15_000);
 
 // ------------------- Tuning -------------------
 const INDEXER_BATCH_SIZE = BigInt(process.env.INDEXER_BATCH_SIZE || "2000");
+const INDEXER_MIN_BATCH_SIZE = BigInt(process.env.INDEXER_MIN_BATCH_SIZE || "1");
+const INDEXER_MAX_BATCH_SIZE = BigInt(process.env.INDEXER_MAX_BATCH_SIZE || "20000");
+const GETLOGS_TARGET_LOGS = Number(process.env.GETLOGS_TARGET_LOGS || "5000");
 const CONFIRMATIONS = BigInt(process.env.INDEXER_CONFIRMATIONS || "5");
 const LOOKBACK_BLOCKS = BigInt(process.env.INDEXER_LOOKBACK_BLOCKS || "25");
 const SLEEP_MS = Number(process.env.INDEXER_SLEEP_MS || "12000");
 const MAX_BLOCKTIME_CACHE = Number(process.env.INDEXER_BLOCKTIME_CACHE || "10000");
+const REORG_MAX_DEPTH = BigInt(process.env.INDEXER_REORG_MAX_DEPTH || "200");
 
 const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
 
+// pair Swap/Sync/Mint/Burn (+ LP token Transfers) are fetched in the same getLogs call as token Transfers
+const hasPair = /^0x[a-f0-9]{40}$/.test(pairAddress);
+let pairTokens: PairTokens | null = null;
+
+// LP locker (PinkLock / UNCX / Team Finance) events too, unless INDEXER_LP_LOCKERS=false
+const lockerAddresses =
+  hasPair && String(process.env.INDEXER_LP_LOCKERS || "true").toLowerCase() !== "false"
+    ? Array.from(knownLockers().keys())
+    : [];
+
+// other registered pools of the token (dex_pools: v2 + v3, any quote), loaded at startup;
+// their Swaps (and v2 Sync/Mint/Burn) land in lp_events under their own pair_address
+const indexExtraPools = hasPair && String(process.env.INDEXER_EXTRA_POOLS || "true").toLowerCase() !== "false";
+let extraPools: string[] = [];
+const extraPoolTokens = new Map<string, PairTokens>();
+
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
@@ -38,37 +80,112 @@ function parseTransferLog(log: any) {
   return { from, to, rawAmount };
 }
 
+// range size adapts to provider limits / log density (starts at INDEXER_BATCH_SIZE)
+const logRange = new AdaptiveLogRange("indexer", {
+  initialSpan: INDEXER_BATCH_SIZE,
+  minSpan: INDEXER_MIN_BATCH_SIZE,
+  maxSpan: INDEXER_MAX_BATCH_SIZE,
+  targetLogs: GETLOGS_TARGET_LOGS,
+});
+
 async function getLogsRange(from: bigint, to: bigint) {
-  return callRpc(
-    async () =>
-      provider.getLogs({
-        address: tokenAddress,
-        topics: [TRANSFER_TOPIC],
-        fromBlock: Number(from),
-        toBlock: Number(to),
-      }),
-    `getLogs(${from}-${to})`
+  if (!hasPair) return logRange.fetch({ address: tokenAddress, topics: [TRANSFER_TOPIC] }, from, to);
+  return logRange.fetch(
+    {
+      address: [tokenAddress, pairAddress, ...extraPools, ...lockerAddresses],
+      topics: [
+        [
+          TRANSFER_TOPIC,
+          ...PAIR_EVENT_TOPICS,
+          ...(extraPools.length ? V3_POOL_EVENT_TOPICS : []),
+          ...(lockerAddresses.length ? LOCKER_EVENT_TOPICS : []),
+        ],
+      ],
+    },
+    from,
+    to
   );
 }
 
 // bounded cache
-const blockTimeCache = new Map<number, Date>();
+const blockHeaderCache = new Map<number, BlockHeader>();
 
-async function getBlockTime(blockNumber: number): Promise<Date> {
-  const cached = blockTimeCache.get(blockNumber);
+async function getBlockHeader(blockNumber: number, fresh = false): Promise<BlockHeader> {
+  const cached = fresh ? undefined : blockHeaderCache.get(blockNumber);
   if (cached) return cached;
 
   const b = await callRpc(() => provider.getBlock(blockNumber), `getBlock(${blockNumber})`);
-  if (!b) throw new Error(`getBlock(${blockNumber}) returned null`);
+  if (!b || !b.hash) throw new Error(`getBlock(${blockNumber}) returned null`);
+
+  const h: BlockHeader = {
+    number: blockNumber,
+    hash: b.hash.toLowerCase(),
+    parentHash: b.parentHash.toLowerCase(),
+    time: new Date(Number(b.timestamp) * 1000),
+  };
+  blockHeaderCache.set(blockNumber, h);
+
+  if (blockHeaderCache.size > MAX_BLOCKTIME_CACHE) {
+    blockHeaderCache.clear();
+    blockHeaderCache.set(blockNumber, h);
+  }
+  return h;
+}
+
+async function getBlockTime(blockNumber: number): Promise<Date> {
+  return (await getBlockHeader(blockNumber)).time;
+}
+
+/**
+ * Reorg check: does block `nextFrom` still build on the checkpoint we stored for nextFrom-1?
+ * On mismatch, roll back to the common ancestor and return the new nextFrom.
+ * Returns null when the chain is consistent (or we have no checkpoint to compare).
+ */
+async function checkForReorg(nextFrom: bigint): Promise<bigint | null> {
+  const tip = nextFrom - 1n;
+
+  const client = await pool.connect();
+  try {
+    const storedTipHash = await getStoredBlockHash(client, tip);
+    if (!storedTipHash) return null;
+
+    const next = await getBlockHeader(Number(nextFrom), true);
+    if (next.parentHash === storedTipHash) return null;
+
+    console.warn(
+      `⚠️ Reorg detected at ${nextFrom}: parentHash=${next.parentHash} stored(${tip})=${storedTipHash}`
+    );
+
+    const ancestor = await findCommonAncestor(client, tip, REORG_MAX_DEPTH, async (bn) => {
+      return (await getBlockHeader(bn, true)).hash;
+    });
+
+    if (ancestor === null) {
+      throw new Error(
+        `Reorg deeper than INDEXER_REORG_MAX_DEPTH=${REORG_MAX_DEPTH} below block ${tip}; manual intervention required`
+      );
+    }
 
-  const t = new Date(Number(b.timestamp) * 1000);
-  blockTimeCache.set(blockNumber, t);
+    await client.query("BEGIN");
+    try {
+      const { transfersRemoved, addressesTouched } = await rollbackToBlock(client, ancestor, tip);
+      await setMeta("last_indexed_block", ancestor.toString(), client);
+      await client.query("COMMIT");
+
+      console.warn(
+        `↩️ Rolled back to ${ancestor} (depth=${tip - ancestor}, transfersRemoved=${transfersRemoved}, addressesTouched=${addressesTouched})`
+      );
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    }
 
-  if (blockTimeCache.size > MAX_BLOCKTIME_CACHE) {
-    blockTimeCache.clear();
-    blockTimeCache.set(blockNumber, t);
+    // cached headers above the ancestor belong to the orphaned fork
+    blockHeaderCache.clear();
+    return ancestor + 1n;
+  } finally {
+    client.release();
   }
-  return t;
 }
 
 async function resolveNextFrom(): Promise<bigint> {
@@ -113,9 +230,11 @@ async function bulkGetOrCreateAddressIds(
 }
 
 export async function runIndexer() {
-  console.log("🟡 BC400 live indexer (safeLatest + idempotent + overlap + advisory lock)");
+  console.log("🟡 BC400 live indexer (safeLatest + idempotent + overlap + reorg rollback + advisory lock)");
   console.log("Token:", tokenAddress);
   console.log("START_BLOCK:", START_BLOCK.toString());
+  console.log("Pair:", hasPair ? pairAddress : "(not set, lp_events disabled)");
+  console.log("LP lockers:", lockerAddresses.length ? lockerAddresses.join(", ") : "(disabled)");
   console.log("LOCK_NAME:", LOCK_NAME);
 
   // Acquire lock (light retry loop)
@@ -129,6 +248,17 @@ export async function runIndexer() {
       await sleep(LOCK_RETRY_MS);
     }
 
+    await logRange.restore();
+    if (hasPair) {
+      pairTokens = await loadPairTokens(pairAddress);
+      console.log(`Pair tokens: token0=${pairTokens.token0} token1=${pairTokens.token1}`);
+    }
+    if (indexExtraPools) {
+      extraPools = (await getPoolAddresses(pool, tokenAddress)).filter((a) => a !== pairAddress);
+      for (const a of extraPools) extraPoolTokens.set(a, await loadPairTokens(a));
+      console.log("Extra pools:", extraPools.length ? extraPools.join(", ") : "(none registered)");
+    }
+
     let nextFrom = await resolveNextFrom();
     if (nextFrom < START_BLOCK) nextFrom = START_BLOCK;
     console.log("Initial nextFrom:", nextFrom.toString());
@@ -143,8 +273,21 @@ export async function runIndexer() {
         continue;
       }
 
+      try {
+        const rewound = await checkForReorg(nextFrom);
+        if (rewound !== null) {
+          nextFrom = rewound;
+          continue;
+        }
+      } catch (err) {
+        // never ingest on top of an unverified fork: stay put until the check passes
+        console.error("Reorg check failed (retry after 5s):", err);
+        await sleep(5000);
+        continue;
+      }
+
       const scanFrom = nextFrom > LOOKBACK_BLOCKS ? nextFrom - LOOKBACK_BLOCKS : START_BLOCK;
-      let scanTo = nextFrom + (INDEXER_BATCH_SIZE - 1n);
+      let scanTo = nextFrom + (logRange.nextSpan() - 1n);
       if (scanTo > safeLatest) scanTo = safeLatest;
 
       console.log(`Scanning ${scanFrom} → ${scanTo} (nextFrom=${nextFrom}, safeLatest=${safeLatest})`);
@@ -158,20 +301,48 @@ export async function runIndexer() {
         continue;
       }
 
-      console.log(`  Found ${logs.length} Transfer logs`);
+      const transferLogs = logs.filter(
+        (l) => String(l.address).toLowerCase() === tokenAddress && l.topics?.[0] === TRANSFER_TOPIC
+      );
+      const pairLogs = hasPair ? logs.filter((l) => String(l.address).toLowerCase() === pairAddress) : [];
+      const poolLogs = logs.filter((l) => extraPoolTokens.has(String(l.address).toLowerCase()));
+      const lockerLogs = logs.filter((l) => lockerAddresses.includes(String(l.address).toLowerCase()));
+
+      console.log(
+        `  Found ${transferLogs.length} Transfer logs, ${pairLogs.length} pair logs, ${poolLogs.length} other pool logs, ${lockerLogs.length} locker logs`
+      );
 
-      if (logs.length > 0) {
-        const uniqueBlocks = Array.from(new Set(logs.map((l) => Number(l.blockNumber)))).sort((a, b) => a - b);
-        for (const bn of uniqueBlocks) await getBlockTime(bn);
+      // headers for every block we ingest (+ the range end as checkpoint);
+      // locker logs are mostly other tokens' locks, their block times are fetched only if kept
+      const headers: BlockHeader[] = [];
+      try {
+        const uniqueBlocks = Array.from(
+          new Set([...transferLogs, ...pairLogs, ...poolLogs].map((l) => Number(l.blockNumber)))
+        ).sort((a, b) => a - b);
+        for (const bn of uniqueBlocks) headers.push(await getBlockHeader(bn));
+        headers.push(await getBlockHeader(Number(scanTo)));
+
+        // a log whose blockHash differs from the header means the chain moved mid-scan
+        for (const log of logs) {
+          const h = blockHeaderCache.get(Number(log.blockNumber));
+          if (h && log.blockHash && String(log.blockHash).toLowerCase() !== h.hash) {
+            throw new Error(`blockHash mismatch at ${log.blockNumber} (log=${log.blockHash} header=${h.hash})`);
+          }
+        }
+      } catch (err) {
+        console.error("Block header fetch/verify failed (retry after 5s):", err);
+        blockHeaderCache.clear();
+        await sleep(5000);
+        continue;
       }
 
       const client = await pool.connect();
       try {
         await client.query("BEGIN");
 
-        if (logs.length > 0) {
+        if (transferLogs.length > 0) {
           const addrList: string[] = [];
-          for (const log of logs) {
+          for (const log of transferLogs) {
             const { from: fa, to: ta } = parseTransferLog(log);
             addrList.push(fa, ta);
           }
@@ -185,10 +356,10 @@ export async function runIndexer() {
           const to_id: number[] = [];
           const raw_amount: string[] = [];
 
-          for (const log of logs) {
+          for (const log of transferLogs) {
             const { from: fa, to: ta, rawAmount } = parseTransferLog(log);
             const bn = Number(log.blockNumber);
-            const bt = blockTimeCache.get(bn) || (await getBlockTime(bn));
+            const bt = blockHeaderCache.get(bn)?.time || (await getBlockTime(bn));
 
             const faId = addrMap.get(fa);
             const taId = addrMap.get(ta);
@@ -205,11 +376,12 @@ export async function runIndexer() {
             raw_amount.push(rawAmount.toString());
           }
 
+          const inserted: InsertedTransfer[] = [];
           const BATCH_ROWS = 1000;
           for (let i = 0; i < tx_hash.length; i += BATCH_ROWS) {
             const j = Math.min(i + BATCH_ROWS, tx_hash.length);
 
-            await client.query(
+            const ins = await client.query<InsertedTransfer>(
               `
               INSERT INTO transfers (
                 tx_hash, log_index, block_number, block_time,
@@ -226,6 +398,7 @@ export async function runIndexer() {
                 $7::text[]
               )
               ON CONFLICT (tx_hash, log_index) DO NOTHING
+              RETURNING tx_hash, log_index, block_number, block_time, from_address_id, to_address_id, raw_amount
               `,
               [
                 tx_hash.slice(i, j),
@@ -237,9 +410,48 @@ export async function runIndexer() {
                 raw_amount.slice(i, j),
               ]
             );
+            inserted.push(...ins.rows);
+          }
+
+          // only rows this transaction actually inserted (overlap re-scans are no-ops)
+          await applyTransferDeltas(client, inserted);
+          await appendBalanceChanges(client, inserted);
+        }
+
+        if (pairLogs.length > 0 && pairTokens) {
+          const lpRows: LpEventRow[] = [];
+          for (const log of pairLogs) {
+            const bt = blockHeaderCache.get(Number(log.blockNumber))?.time || null;
+            const row = decodePairLog(log, pairTokens, bt);
+            if (row) lpRows.push(row);
           }
+          await insertLpEvents(client, lpRows);
+        }
+
+        if (poolLogs.length > 0) {
+          const poolRows: LpEventRow[] = [];
+          for (const log of poolLogs) {
+            const bt = blockHeaderCache.get(Number(log.blockNumber))?.time || null;
+            const row = decodePairLog(log, extraPoolTokens.get(String(log.address).toLowerCase())!, bt);
+            if (row) poolRows.push(row);
+          }
+          await insertLpEvents(client, poolRows);
+        }
+
+        if (lockerLogs.length > 0) {
+          const lockRows = await decodeLockEvents(
+            client,
+            lockerLogs,
+            pairLogs,
+            tokenAddress,
+            pairAddress,
+            (bn) => blockHeaderCache.get(bn)?.time || null
+          );
+          for (const r of lockRows) r.blockTime = r.blockTime || (await getBlockTime(Number(r.blockNumber)));
+          await insertLockEvents(client, lockRows);
         }
 
+        await recordBlockHeaders(client, headers);
         await setMeta("last_indexed_block", scanTo.toString(), client);
         await client.query("COMMIT");
       } catch (e) {
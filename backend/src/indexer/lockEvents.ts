@@ -0,0 +1,319 @@
+import { ethers } from "ethers";
+import type { Log } from "ethers";
+import type { PoolClient } from "pg";
+
+// Known LP lockers on BSC (lowercase). Extra ones: LP_LOCKER_ADDRESSES="PinkLock:0x..,UNCX:0x.."
+const KNOWN_LOCKERS: Record<string, LockProvider> = {
+  "0x407993575c91ce7643a4d4ccacc9a98c36ee1bbe": "PinkLock", // PinkLock V2
+  "0x7ee058420e5937496f5a2096f04caa7721cf70cc": "PinkLock", // PinkLock V1
+  "0xc765bddb93b0d1c1a88282ba0fa6b2d00e3e0c83": "UNCX", // UNCX PancakeSwap V2 locker
+  "0xe2fe530c047f2d85298b07d9333c05737f1435fb": "TeamFinance", // Team Finance LockToken
+};
+
+export type LockProvider = "PinkLock" | "UNCX" | "TeamFinance";
+
+const LOCKER_EVENTS_ABI = [
+  // PinkLock
+  "event LockAdded(uint256 indexed id, address token, address owner, uint256 amount, uint256 unlockDate)",
+  "event LockUpdated(uint256 indexed id, address token, address owner, uint256 newAmount, uint256 newUnlockDate)",
+  "event LockRemoved(uint256 indexed id, address token, address owner, uint256 amount, uint256 unlockedAt)",
+  "event LockVested(uint256 indexed id, address token, address owner, uint256 amount, uint256 remaining, uint256 timestamp)",
+  // UNCX
+  "event onDeposit(address lpToken, address user, uint256 amount, uint256 lockDate, uint256 unlockDate)",
+  "event onWithdraw(address lpToken, uint256 amount)",
+  // Team Finance
+  "event Deposit(uint256 id, address indexed tokenAddress, address indexed withdrawalAddress, uint256 amount, uint256 unlockTime)",
+  "event LockDurationExtended(uint256 id, uint256 unlockTime)",
+  "event LogWithdrawal(address SentToAddress, uint256 AmountTransferred)",
+];
+
+export const lockerIface = new ethers.Interface(LOCKER_EVENTS_ABI);
+
+export const LOCKER_EVENT_TOPICS = [
+  "LockAdded",
+  "LockUpdated",
+  "LockRemoved",
+  "LockVested",
+  "onDeposit",
+  "onWithdraw",
+  "Deposit",
+  "LockDurationExtended",
+  "LogWithdrawal",
+].map((n) => lockerIface.getEvent(n)!.topicHash);
+
+let lockerCache: Map<string, LockProvider> | null = null;
+
+/** Locker contract -> provider (built-ins + LP_LOCKER_ADDRESSES). */
+export function knownLockers(): Map<string, LockProvider> {
+  if (lockerCache) return lockerCache;
+
+  const map = new Map<string, LockProvider>(Object.entries(KNOWN_LOCKERS));
+  for (const part of String(process.env.LP_LOCKER_ADDRESSES || "").split(",")) {
+    const [provider, addr] = part.split(":").map((s) => s.trim());
+    if (!addr || !/^0x[a-fA-F0-9]{40}$/.test(addr)) continue;
+    if (provider !== "PinkLock" && provider !== "UNCX" && provider !== "TeamFinance") continue;
+    map.set(addr.toLowerCase(), provider);
+  }
+
+  lockerCache = map;
+  return map;
+}
+
+export type LockEventRow = {
+  provider: LockProvider;
+  contractAddr: string;
+  tokenAddress: string;
+  pairAddress: string | null;
+  blockNumber: string;
+  blockTime: Date | null;
+  txHash: string;
+  logIndex: number;
+  eventType: "LOCK" | "UNLOCK" | "EXTEND" | "WITHDRAW";
+  amountRaw: string | null;
+  unlockTime: Date | null;
+  ownerAddress: string | null;
+  metadata: Record<string, any>;
+};
+
+// a decoded locker log before we know whether it concerns our LP token
+type DecodedLock = Omit<LockEventRow, "tokenAddress" | "pairAddress"> & {
+  lpToken: string | null; // null when the event doesn't name the locked token
+  lockKey: string | null; // lock id (UNCX has none: the deposit's tx:logIndex) to tie EXTEND/WITHDRAW to their LOCK
+};
+
+const unix = (v: any) => new Date(Number(v) * 1000);
+
+function decodeLockerLog(log: Log, provider: LockProvider, blockTime: Date | null): DecodedLock | null {
+  let parsed: ethers.LogDescription | null = null;
+  try {
+    parsed = lockerIface.parseLog({ topics: log.topics as string[], data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const a = parsed.args;
+  const base = {
+    provider,
+    contractAddr: String(log.address).toLowerCase(),
+    blockNumber: String(log.blockNumber),
+    blockTime,
+    txHash: String(log.transactionHash),
+    logIndex: Number((log as any).logIndex ?? (log as any).index ?? 0),
+  };
+  const meta = { event: parsed.name };
+
+  switch (parsed.name) {
+    case "LockAdded":
+    case "LockUpdated":
+    case "LockRemoved":
+    case "LockVested": {
+      const id = BigInt(a.id).toString();
+      const eventType =
+        parsed.name === "LockAdded"
+          ? "LOCK"
+          : parsed.name === "LockUpdated"
+            ? "EXTEND"
+            : parsed.name === "LockVested"
+              ? "UNLOCK"
+              : "WITHDRAW";
+      return {
+        ...base,
+        eventType,
+        lpToken: String(a.token).toLowerCase(),
+        lockKey: id,
+        ownerAddress: String(a.owner).toLowerCase(),
+        amountRaw: BigInt(parsed.name === "LockUpdated" ? a.newAmount : a.amount).toString(),
+        unlockTime:
+          parsed.name === "LockAdded" ? unix(a.unlockDate) : parsed.name === "LockUpdated" ? unix(a.newUnlockDate) : null,
+        metadata: {
+          ...meta,
+          lockId: id,
+          ...(parsed.name === "LockVested" ? { remainingRaw: BigInt(a.remaining).toString() } : {}),
+        },
+      };
+    }
+    case "onDeposit":
+      return {
+        ...base,
+        eventType: "LOCK",
+        lpToken: String(a.lpToken).toLowerCase(),
+        // owner:unlockDate would merge two same-day deposits by one user
+        lockKey: `${base.txHash.toLowerCase()}:${base.logIndex}`,
+        ownerAddress: String(a.user).toLowerCase(),
+        amountRaw: BigInt(a.amount).toString(),
+        unlockTime: unix(a.unlockDate),
+        metadata: { ...meta, lockDate: unix(a.lockDate).toISOString() },
+      };
+    case "onWithdraw":
+      return {
+        ...base,
+        eventType: "WITHDRAW",
+        lpToken: String(a.lpToken).toLowerCase(),
+        lockKey: null,
+        ownerAddress: null,
+        amountRaw: BigInt(a.amount).toString(),
+        unlockTime: null,
+        metadata: meta,
+      };
+    case "Deposit": {
+      const id = BigInt(a.id).toString();
+      return {
+        ...base,
+        eventType: "LOCK",
+        lpToken: String(a.tokenAddress).toLowerCase(),
+        lockKey: id,
+        ownerAddress: String(a.withdrawalAddress).toLowerCase(),
+        amountRaw: BigInt(a.amount).toString(),
+        unlockTime: unix(a.unlockTime),
+        metadata: { ...meta, lockId: id },
+      };
+    }
+    case "LockDurationExtended": {
+      const id = BigInt(a.id).toString();
+      return {
+        ...base,
+        eventType: "EXTEND",
+        lpToken: null,
+        lockKey: id,
+        ownerAddress: null,
+        amountRaw: null,
+        unlockTime: unix(a.unlockTime),
+        metadata: { ...meta, lockId: id },
+      };
+    }
+    case "LogWithdrawal":
+      return {
+        ...base,
+        eventType: "WITHDRAW",
+        lpToken: null,
+        lockKey: null,
+        ownerAddress: String(a.SentToAddress).toLowerCase(),
+        amountRaw: BigInt(a.AmountTransferred).toString(),
+        unlockTime: null,
+        metadata: meta,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode locker logs and keep the ones about our LP token (`pairAddress`):
+ *  - events naming the token directly (PinkLock, UNCX, Team Finance Deposit)
+ *  - events carrying a lock id we've already attributed (this batch or lock_events)
+ *  - token-less withdrawals whose tx moved our LP token out of that locker (`pairLogs`)
+ */
+export async function decodeLockEvents(
+  client: PoolClient,
+  lockerLogs: Log[],
+  pairLogs: Log[],
+  tokenAddress: string,
+  pairAddress: string,
+  blockTimeOf: (blockNumber: number) => Date | null
+): Promise<LockEventRow[]> {
+  if (lockerLogs.length === 0) return [];
+  const lockers = knownLockers();
+  const pair = pairAddress.toLowerCase();
+
+  const decoded: DecodedLock[] = [];
+  for (const log of lockerLogs) {
+    const provider = lockers.get(String(log.address).toLowerCase());
+    if (!provider) continue;
+    const d = decodeLockerLog(log, provider, blockTimeOf(Number(log.blockNumber)));
+    if (d) decoded.push(d);
+  }
+  if (decoded.length === 0) return [];
+
+  // LP token transfers out of a locker, per tx
+  const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+  const lpOutOfLocker = new Set<string>();
+  for (const l of pairLogs) {
+    if (l.topics?.[0] !== TRANSFER_TOPIC) continue;
+    const from = ("0x" + l.topics[1].slice(26)).toLowerCase();
+    if (lockers.has(from)) lpOutOfLocker.add(`${String(l.transactionHash).toLowerCase()}:${from}`);
+  }
+
+  const keyOf = (d: DecodedLock) => `${d.contractAddr}:${d.lockKey}`;
+  const ours = new Set<string>();
+  for (const d of decoded) if (d.lpToken === pair && d.lockKey) ours.add(keyOf(d));
+
+  const unresolved = decoded.filter((d) => d.lpToken === null && d.lockKey && !ours.has(keyOf(d)));
+  if (unresolved.length > 0) {
+    const known = await client.query<{ contract_addr: string; lock_key: string }>(
+      `
+      SELECT DISTINCT contract_addr, metadata->>'lockKey' AS lock_key
+      FROM public.lock_events
+      WHERE pair_address = $1
+        AND contract_addr = ANY($2::text[])
+        AND metadata->>'lockKey' = ANY($3::text[])
+      `,
+      [pair, Array.from(new Set(unresolved.map((d) => d.contractAddr))), unresolved.map((d) => d.lockKey as string)]
+    );
+    for (const r of known.rows) ours.add(`${r.contract_addr}:${r.lock_key}`);
+  }
+
+  const rows: LockEventRow[] = [];
+  for (const d of decoded) {
+    const mine =
+      d.lpToken === pair ||
+      (d.lpToken === null && d.lockKey !== null && ours.has(keyOf(d))) ||
+      (d.lpToken === null && d.lockKey === null && lpOutOfLocker.has(`${d.txHash.toLowerCase()}:${d.contractAddr}`));
+    if (!mine) continue;
+
+    const { lpToken: _lp, lockKey, ...rest } = d;
+    rows.push({
+      ...rest,
+      tokenAddress: tokenAddress.toLowerCase(),
+      pairAddress: pair,
+      metadata: { ...d.metadata, lockKey },
+    });
+  }
+  return rows;
+}
+
+export async function insertLockEvents(client: PoolClient, rows: LockEventRow[]): Promise<void> {
+  if (rows.length === 0) return;
+
+  await client.query(
+    `
+    INSERT INTO lock_events (
+      provider, contract_addr, token_address, pair_address,
+      block_number, block_time, tx_hash, log_index,
+      event_type, amount_raw, unlock_time, owner_address, metadata
+    )
+    SELECT *
+    FROM UNNEST(
+      $1::text[],
+      $2::text[],
+      $3::text[],
+      $4::text[],
+      $5::bigint[],
+      $6::timestamptz[],
+      $7::text[],
+      $8::int[],
+      $9::text[],
+      $10::numeric[],
+      $11::timestamptz[],
+      $12::text[],
+      $13::jsonb[]
+    )
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    `,
+    [
+      rows.map((r) => r.provider),
+      rows.map((r) => r.contractAddr),
+      rows.map((r) => r.tokenAddress),
+      rows.map((r) => r.pairAddress),
+      rows.map((r) => r.blockNumber),
+      rows.map((r) => r.blockTime),
+      rows.map((r) => r.txHash),
+      rows.map((r) => r.logIndex),
+      rows.map((r) => r.eventType),
+      rows.map((r) => r.amountRaw),
+      rows.map((r) => r.unlockTime),
+      rows.map((r) => r.ownerAddress),
+      rows.map((r) => JSON.stringify(r.metadata)),
+    ]
+  );
+}
@@ -0,0 +1,213 @@
+import { ethers } from "ethers";
+import type { Log } from "ethers";
+import type { PoolClient } from "pg";
+import { callRpc, provider } from "../clients/bscClient";
+
+// PancakeSwap v2 pair events (UniswapV2Pair ABI)
+const PAIR_EVENTS_ABI = [
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  "event Sync(uint112 reserve0, uint112 reserve1)",
+  "event Mint(address indexed sender, uint256 amount0, uint256 amount1)",
+  "event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)",
+  // the pair is also the LP token
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+];
+
+const PAIR_TOKENS_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+];
+
+export const pairIface = new ethers.Interface(PAIR_EVENTS_ABI);
+
+export const PAIR_EVENT_TOPICS = ["Swap", "Sync", "Mint", "Burn"].map((n) => pairIface.getEvent(n)!.topicHash);
+
+// PancakeSwap v3 pools (other dex_pools entries): only Swap is decoded; amounts are pool-side already
+const V3_POOL_EVENTS_ABI = [
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint128 protocolFeesToken0, uint128 protocolFeesToken1)",
+];
+
+export const v3PoolIface = new ethers.Interface(V3_POOL_EVENTS_ABI);
+
+export const V3_POOL_EVENT_TOPICS = [v3PoolIface.getEvent("Swap")!.topicHash];
+
+export type PairTokens = { token0: string; token1: string };
+
+export type LpEventRow = {
+  pairAddress: string;
+  blockNumber: string;
+  blockTime: Date | null;
+  txHash: string;
+  logIndex: number;
+  eventType: "SWAP" | "SYNC" | "MINT" | "BURN" | "TRANSFER";
+  token0DeltaRaw: string | null;
+  token1DeltaRaw: string | null;
+  lpDeltaRaw: string | null;
+  metadata: Record<string, any>;
+};
+
+const pairTokensCache = new Map<string, PairTokens>();
+
+export async function loadPairTokens(pairAddress: string): Promise<PairTokens> {
+  const key = pairAddress.toLowerCase();
+  const cached = pairTokensCache.get(key);
+  if (cached) return cached;
+
+  const pair = new ethers.Contract(key, PAIR_TOKENS_ABI, provider);
+  const [t0, t1] = await Promise.all([
+    callRpc(() => pair.token0(), `token0(${key})`),
+    callRpc(() => pair.token1(), `token1(${key})`),
+  ]);
+
+  const tokens = { token0: String(t0).toLowerCase(), token1: String(t1).toLowerCase() };
+  pairTokensCache.set(key, tokens);
+  return tokens;
+}
+
+/**
+ * Decode one pair log into an lp_events row.
+ * Deltas are from the pair's point of view (+ = token flowed INTO the pair).
+ * LP token Transfers become TRANSFER rows: lp_delta_raw = value, metadata.from / metadata.to.
+ * v3 pool Swaps become SWAP rows too (metadata.dex = "pancake_v3", sqrtPriceX96 / tick / liquidity).
+ * Returns null for anything else.
+ */
+export function decodePairLog(log: Log, tokens: PairTokens, blockTime: Date | null): LpEventRow | null {
+  const isV3 = log.topics?.[0] === V3_POOL_EVENT_TOPICS[0];
+  let parsed: ethers.LogDescription | null = null;
+  try {
+    parsed = (isV3 ? v3PoolIface : pairIface).parseLog({ topics: log.topics as string[], data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const a = parsed.args;
+  const base = {
+    pairAddress: String(log.address).toLowerCase(),
+    blockNumber: String(log.blockNumber),
+    blockTime,
+    txHash: String(log.transactionHash),
+    logIndex: Number((log as any).logIndex ?? (log as any).index ?? 0),
+    lpDeltaRaw: null,
+  };
+  const meta = { token0: tokens.token0, token1: tokens.token1 };
+
+  if (isV3) {
+    return {
+      ...base,
+      eventType: "SWAP",
+      token0DeltaRaw: BigInt(a.amount0).toString(),
+      token1DeltaRaw: BigInt(a.amount1).toString(),
+      metadata: {
+        ...meta,
+        dex: "pancake_v3",
+        sender: String(a.sender).toLowerCase(),
+        to: String(a.recipient).toLowerCase(),
+        sqrtPriceX96: BigInt(a.sqrtPriceX96).toString(),
+        liquidity: BigInt(a.liquidity).toString(),
+        tick: Number(a.tick),
+      },
+    };
+  }
+
+  switch (parsed.name) {
+    case "Swap": {
+      const a0In = BigInt(a.amount0In);
+      const a1In = BigInt(a.amount1In);
+      const a0Out = BigInt(a.amount0Out);
+      const a1Out = BigInt(a.amount1Out);
+      return {
+        ...base,
+        eventType: "SWAP",
+        token0DeltaRaw: (a0In - a0Out).toString(),
+        token1DeltaRaw: (a1In - a1Out).toString(),
+        metadata: {
+          ...meta,
+          sender: String(a.sender).toLowerCase(),
+          to: String(a.to).toLowerCase(),
+          amount0In: a0In.toString(),
+          amount1In: a1In.toString(),
+          amount0Out: a0Out.toString(),
+          amount1Out: a1Out.toString(),
+        },
+      };
+    }
+    case "Sync":
+      return {
+        ...base,
+        eventType: "SYNC",
+        token0DeltaRaw: null,
+        token1DeltaRaw: null,
+        metadata: { ...meta, reserve0: BigInt(a.reserve0).toString(), reserve1: BigInt(a.reserve1).toString() },
+      };
+    case "Mint":
+      return {
+        ...base,
+        eventType: "MINT",
+        token0DeltaRaw: BigInt(a.amount0).toString(),
+        token1DeltaRaw: BigInt(a.amount1).toString(),
+        metadata: { ...meta, sender: String(a.sender).toLowerCase() },
+      };
+    case "Burn":
+      return {
+        ...base,
+        eventType: "BURN",
+        token0DeltaRaw: (-BigInt(a.amount0)).toString(),
+        token1DeltaRaw: (-BigInt(a.amount1)).toString(),
+        metadata: { ...meta, sender: String(a.sender).toLowerCase(), to: String(a.to).toLowerCase() },
+      };
+    case "Transfer":
+      return {
+        ...base,
+        eventType: "TRANSFER",
+        token0DeltaRaw: null,
+        token1DeltaRaw: null,
+        lpDeltaRaw: BigInt(a.value).toString(),
+        metadata: { ...meta, from: String(a.from).toLowerCase(), to: String(a.to).toLowerCase() },
+      };
+    default:
+      return null;
+  }
+}
+
+export async function insertLpEvents(client: PoolClient, rows: LpEventRow[]): Promise<void> {
+  const BATCH_ROWS = 1000;
+  for (let i = 0; i < rows.length; i += BATCH_ROWS) {
+    const batch = rows.slice(i, i + BATCH_ROWS);
+
+    await client.query(
+      `
+      INSERT INTO lp_events (
+        pair_address, block_number, block_time, tx_hash, log_index,
+        event_type, token0_delta_raw, token1_delta_raw, lp_delta_raw, metadata
+      )
+      SELECT *
+      FROM UNNEST(
+        $1::text[],
+        $2::bigint[],
+        $3::timestamptz[],
+        $4::text[],
+        $5::int[],
+        $6::text[],
+        $7::numeric[],
+        $8::numeric[],
+        $9::numeric[],
+        $10::jsonb[]
+      )
+      ON CONFLICT (tx_hash, log_index) DO NOTHING
+      `,
+      [
+        batch.map((r) => r.pairAddress),
+        batch.map((r) => r.blockNumber),
+        batch.map((r) => r.blockTime),
+        batch.map((r) => r.txHash),
+        batch.map((r) => r.logIndex),
+        batch.map((r) => r.eventType),
+        batch.map((r) => r.token0DeltaRaw),
+        batch.map((r) => r.token1DeltaRaw),
+        batch.map((r) => r.lpDeltaRaw),
+        batch.map((r) => JSON.stringify(r.metadata)),
+      ]
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import type { PoolClient } from "pg";
+import { refreshHolderBalances } from "../services/holderBalances";
+
+export type BlockHeader = {
+  number: number;
+  hash: string;
+  parentHash: string;
+  time: Date;
+};
+
+/**
+ * Store the headers of blocks we ingested (idempotent).
+ * A later poll compares the chain against these to detect reorgs.
+ */
+export async function recordBlockHeaders(client: PoolClient, headers: BlockHeader[]): Promise<void> {
+  if (headers.length === 0) return;
+
+  const unique = new Map<number, BlockHeader>();
+  for (const h of headers) unique.set(h.number, h);
+  const rows = Array.from(unique.values());
+
+  await client.query(
+    `
+    INSERT INTO indexed_blocks (block_number, block_hash, parent_hash, block_time)
+    SELECT *
+    FROM UNNEST($1::bigint[], $2::text[], $3::text[], $4::timestamptz[])
+    ON CONFLICT (block_number) DO UPDATE SET
+      block_hash  = EXCLUDED.block_hash,
+      parent_hash = EXCLUDED.parent_hash,
+      block_time  = EXCLUDED.block_time,
+      indexed_at  = now()
+    `,
+    [
+      rows.map((h) => String(h.number)),
+      rows.map((h) => h.hash.toLowerCase()),
+      rows.map((h) => h.parentHash.toLowerCase()),
+      rows.map((h) => h.time),
+    ]
+  );
+}
+
+export async function getStoredBlockHash(client: PoolClient, blockNumber: bigint): Promise<string | null> {
+  const res = await client.query<{ block_hash: string }>(
+    `SELECT block_hash FROM indexed_blocks WHERE block_number = $1`,
+    [blockNumber.toString()]
+  );
+  return res.rowCount ? res.rows[0].block_hash : null;
+}
+
+/**
+ * Walk our stored headers downwards from `tip` and return the highest block
+ * whose hash still matches the canonical chain.
+ * Returns null if nothing within `maxDepth` matches (reorg deeper than we can prove).
+ */
+export async function findCommonAncestor(
+  client: PoolClient,
+  tip: bigint,
+  maxDepth: bigint,
+  chainHashAt: (blockNumber: number) => Promise<string>
+): Promise<bigint | null> {
+  const floor = tip > maxDepth ? tip - maxDepth : 0n;
+
+  const stored = await client.query<{ block_number: string; block_hash: string }>(
+    `
+    SELECT block_number, block_hash
+    FROM indexed_blocks
+    WHERE block_number <= $1 AND block_number >= $2
+    ORDER BY block_number DESC
+    `,
+    [tip.toString(), floor.toString()]
+  );
+
+  for (const row of stored.rows) {
+    const bn = Number(row.block_number);
+    const chainHash = (await chainHashAt(bn)).toLowerCase();
+    if (chainHash === row.block_hash.toLowerCase()) return BigInt(row.block_number);
+  }
+
+  return null;
+}
+
+/**
+ * Remove everything above `ancestor` that was derived from orphaned blocks.
+ * Runs inside the caller's transaction; caller moves the progress pointer.
+ */
+export async function rollbackToBlock(
+  client: PoolClient,
+  ancestor: bigint,
+  oldTip: bigint
+): Promise<{ transfersRemoved: number; addressesTouched: number }> {
+  const removed = await client.query<{ from_address_id: number; to_address_id: number }>(
+    `
+    DELETE FROM transfers
+    WHERE block_number > $1
+    RETURNING from_address_id, to_address_id
+    `,
+    [ancestor.toString()]
+  );
+
+  const touched = new Set<number>();
+  for (const r of removed.rows) {
+    touched.add(Number(r.from_address_id));
+    touched.add(Number(r.to_address_id));
+  }
+
+  // holder_balances is derived from transfers -> recompute affected rows
+  await refreshHolderBalances(client, Array.from(touched));
+
+  // balance ledger rows + pair events from orphaned blocks
+  await client.query(`DELETE FROM balance_changes WHERE block_number > $1`, [ancestor.toString()]);
+  const lpRemoved = await client.query(`DELETE FROM lp_events WHERE block_number > $1`, [ancestor.toString()]);
+  // candles built from those events; the candle builder re-creates them from its last stored bucket
+  await client.query(`DELETE FROM dex_candles WHERE last_block > $1`, [ancestor.toString()]);
+  await client.query(`DELETE FROM lock_events WHERE block_number > $1`, [ancestor.toString()]);
+
+  await client.query(`DELETE FROM indexed_blocks WHERE block_number > $1`, [ancestor.toString()]);
+
+  await client.query(
+    `
+    INSERT INTO chain_reorgs (old_tip, common_ancestor, depth, transfers_removed, metadata)
+    VALUES ($1, $2, $3, $4, $5)
+    `,
+    [
+      oldTip.toString(),
+      ancestor.toString(),
+      (oldTip - ancestor).toString(),
+      removed.rowCount ?? 0,
+      { addressesTouched: touched.size, lpEventsRemoved: lpRemoved.rowCount ?? 0 },
+    ]
+  );
+
+  return { transfersRemoved: removed.rowCount ?? 0, addressesTouched: touched.size };
+}
@@ -0,0 +1,204 @@
+import type { Pool } from "pg";
+
+/**
+ * Tables/columns the TypeScript code reads or writes (public schema).
+ * Keep in sync when a query starts using a new column; `npm run migrate:check`
+ * compares this against the live database.
+ */
+export const EXPECTED_SCHEMA: Record<string, string[]> = {
+  addresses: ["id", "address", "cluster_id"],
+  transfers: ["tx_hash", "log_index", "block_number", "block_time", "from_address_id", "to_address_id", "raw_amount"],
+  holder_balances: [
+    "address_id",
+    "balance_raw",
+    "balance_bc400",
+    "tx_count",
+    "tags",
+    "first_seen",
+    "last_seen",
+    "last_block_number",
+    "last_block_time",
+    "last_tx_hash",
+  ],
+  meta: ["key", "value"],
+  supply_snapshots: [
+    "token_address",
+    "ts",
+    "total_supply_raw",
+    "burned_raw",
+    "lp_raw",
+    "locked_raw",
+    "circulating_raw",
+    "price_usd",
+    "marketcap_usd",
+    "price_method",
+    "metadata",
+  ],
+  lp_events: [
+    "pair_address",
+    "block_number",
+    "block_time",
+    "tx_hash",
+    "log_index",
+    "event_type",
+    "token0_delta_raw",
+    "token1_delta_raw",
+    "lp_delta_raw",
+    "metadata",
+  ],
+  lock_events: [
+    "provider",
+    "contract_addr",
+    "token_address",
+    "pair_address",
+    "block_number",
+    "block_time",
+    "tx_hash",
+    "log_index",
+    "event_type",
+    "amount_raw",
+    "unlock_time",
+    "owner_address",
+    "metadata",
+  ],
+  indexed_blocks: ["block_number", "block_hash", "parent_hash", "block_time"],
+  chain_reorgs: ["old_tip", "common_ancestor", "depth", "transfers_removed", "metadata"],
+  backfill_units: [
+    "id",
+    "from_block",
+    "to_block",
+    "status",
+    "scanned_to",
+    "logs_found",
+    "attempts",
+    "last_error",
+    "next_attempt_at",
+    "claimed_by",
+    "claimed_at",
+    "lease_expires_at",
+    "completed_at",
+  ],
+  backfill_status: ["status", "units", "min_block", "max_block", "blocks", "logs_found", "max_attempts", "last_completed_at"],
+  wallet_labels: ["address_id", "label", "source", "confidence", "notes", "created_at", "updated_at"],
+  balance_changes: ["address_id", "block_number", "block_time", "tx_hash", "log_index", "delta_raw"],
+  audit_snapshots: [
+    "id",
+    "snapshot_date",
+    "snapshot_time",
+    "chain",
+    "token_address",
+    "last_indexed_block",
+    "last_indexed_time",
+    "total_supply_raw",
+    "burned_raw",
+    "locked_raw",
+    "lp_raw",
+    "treasury_raw",
+    "circulating_raw",
+    "top10_raw",
+    "top20_raw",
+    "effective_top10_pct",
+    "raw_top10_of_top20_pct",
+    "transfers_24h",
+    "active_wallets_24h",
+    "dex",
+    "pair_address",
+    "price_usd",
+    "marketcap_usd",
+    "risk_score",
+    "risk_label",
+    "risk_notes",
+    "report",
+  ],
+  concentration_snapshots: [
+    "ts",
+    "top10_pct_total",
+    "top10_value_total_raw",
+    "top10_pct_circulating",
+    "top10_value_circulating_raw",
+    "effective_concentration_pct",
+    "risk_score",
+    "risk_level",
+    "explanation",
+    "components",
+  ],
+  dex_candles: [
+    "pair_address",
+    "resolution",
+    "bucket_start",
+    "open_wbnb",
+    "high_wbnb",
+    "low_wbnb",
+    "close_wbnb",
+    "bnb_usd",
+    "open_usd",
+    "high_usd",
+    "low_usd",
+    "close_usd",
+    "volume_token_raw",
+    "volume_wbnb_raw",
+    "volume_usd",
+    "trades",
+    "first_block",
+    "last_block",
+  ],
+  dex_pools: [
+    "pool_address",
+    "dex",
+    "factory_address",
+    "fee_tier",
+    "token_address",
+    "quote_address",
+    "quote_symbol",
+    "token0",
+    "token1",
+    "reserve_token_raw",
+    "reserve_quote_raw",
+    "liquidity_raw",
+    "price_quote",
+    "price_usd",
+    "liquidity_usd",
+    "liquidity_share_pct",
+    "block_number",
+    "discovered_at",
+    "updated_at",
+  ],
+  wallet_clusters: ["cluster_id", "member_count", "reasons", "updated_at"],
+  wallet_cluster_links: ["address_id_a", "address_id_b", "reason", "evidence"],
+};
+
+export type SchemaDrift = {
+  missingTables: string[];
+  missingColumns: { table: string; column: string }[];
+};
+
+export async function checkSchemaDrift(pool: Pool): Promise<SchemaDrift> {
+  const res = await pool.query<{ table_name: string; column_name: string }>(
+    `
+    SELECT table_name, column_name
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = ANY($1::text[])
+    `,
+    [Object.keys(EXPECTED_SCHEMA)]
+  );
+
+  const live = new Map<string, Set<string>>();
+  for (const r of res.rows) {
+    if (!live.has(r.table_name)) live.set(r.table_name, new Set());
+    live.get(r.table_name)!.add(r.column_name);
+  }
+
+  const drift: SchemaDrift = { missingTables: [], missingColumns: [] };
+  for (const [table, columns] of Object.entries(EXPECTED_SCHEMA)) {
+    const cols = live.get(table);
+    if (!cols) {
+      drift.missingTables.push(table);
+      continue;
+    }
+    for (const column of columns) {
+      if (!cols.has(column)) drift.missingColumns.push({ table, column });
+    }
+  }
+
+  return drift;
+}
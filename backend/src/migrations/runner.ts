@@ -0,0 +1,144 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { Pool, PoolClient } from "pg";
+import { tryAdvisoryLock, advisoryUnlock } from "../dbLocks";
+
+// backend/sql/migrations (same relative path from src/migrations and dist/migrations)
+export const MIGRATIONS_DIR = path.resolve(__dirname, "../../sql/migrations");
+
+const LOCK_NAME = "bc400_migrations";
+
+export type MigrationFile = {
+  version: string; // file name without .sql; applied in lexicographic order
+  filename: string;
+  checksum: string;
+  sql: string;
+};
+
+export type MigrationStatus = {
+  version: string;
+  applied: boolean;
+  appliedAt: string | null;
+  checksumChanged: boolean;
+  missingFile: boolean;
+};
+
+export function loadMigrations(dir = MIGRATIONS_DIR): MigrationFile[] {
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".sql"))
+    .sort()
+    .map((filename) => {
+      const sql = fs.readFileSync(path.join(dir, filename), "utf8");
+      return {
+        version: filename.replace(/\.sql$/, ""),
+        filename,
+        checksum: crypto.createHash("sha256").update(sql).digest("hex"),
+        sql,
+      };
+    });
+}
+
+// Files carry their own BEGIN/COMMIT for manual psql use; the runner supplies the transaction
+function stripTransaction(sql: string) {
+  return sql.replace(/^\s*BEGIN\s*;\s*$/gim, "").replace(/^\s*COMMIT\s*;\s*$/gim, "");
+}
+
+export async function ensureMigrationsTable(db: Pool | PoolClient): Promise<void> {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS public.schema_migrations (
+      version      text        PRIMARY KEY,
+      checksum     text        NOT NULL,
+      applied_at   timestamptz NOT NULL DEFAULT now(),
+      execution_ms integer     NOT NULL DEFAULT 0
+    )
+  `);
+}
+
+async function getApplied(db: Pool | PoolClient) {
+  const res = await db.query<{ version: string; checksum: string; applied_at: string }>(
+    `SELECT version, checksum, applied_at::text AS applied_at FROM public.schema_migrations ORDER BY version`
+  );
+  return new Map(res.rows.map((r) => [r.version, r]));
+}
+
+export async function getMigrationStatus(pool: Pool): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(pool);
+  const files = loadMigrations();
+  const applied = await getApplied(pool);
+
+  const out: MigrationStatus[] = files.map((f) => {
+    const a = applied.get(f.version);
+    return {
+      version: f.version,
+      applied: Boolean(a),
+      appliedAt: a?.applied_at ?? null,
+      checksumChanged: Boolean(a && a.checksum !== f.checksum),
+      missingFile: false,
+    };
+  });
+
+  // recorded in the DB but no longer on disk
+  const known = new Set(files.map((f) => f.version));
+  for (const [version, a] of applied) {
+    if (!known.has(version)) {
+      out.push({ version, applied: true, appliedAt: a.applied_at, checksumChanged: false, missingFile: true });
+    }
+  }
+
+  return out.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+/**
+ * Apply every pending migration in order, each in its own transaction together
+ * with its schema_migrations row. Stops at the first failure.
+ */
+export async function runMigrations(pool: Pool): Promise<string[]> {
+  const client = await pool.connect();
+  try {
+    const ok = await tryAdvisoryLock(client, LOCK_NAME);
+    if (!ok) throw new Error(`Lock busy (${LOCK_NAME}): another migration run is in progress`);
+
+    try {
+      await ensureMigrationsTable(client);
+      const applied = await getApplied(client);
+      const done: string[] = [];
+
+      for (const m of loadMigrations()) {
+        const prev = applied.get(m.version);
+        if (prev) {
+          if (prev.checksum !== m.checksum) {
+            console.warn(`⚠️ ${m.filename} changed after it was applied (checksum mismatch); not re-running`);
+          }
+          continue;
+        }
+
+        const started = Date.now();
+        await client.query("BEGIN");
+        try {
+          await client.query(stripTransaction(m.sql));
+          await client.query(
+            `INSERT INTO public.schema_migrations (version, checksum, execution_ms) VALUES ($1, $2, $3)`,
+            [m.version, m.checksum, Date.now() - started]
+          );
+          await client.query("COMMIT");
+        } catch (e: any) {
+          await client.query("ROLLBACK");
+          throw new Error(`Migration ${m.filename} failed: ${e?.message || e}`);
+        }
+
+        console.log(`✅ applied ${m.filename} (${Date.now() - started}ms)`);
+        done.push(m.version);
+      }
+
+      return done;
+    } finally {
+      try {
+        await advisoryUnlock(client, LOCK_NAME);
+      } catch {}
+    }
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,365 @@
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+import { getPoolAddresses } from "../services/dexPools";
+import { getPairEventsCoverage } from "../services/dexSwaps";
+
+function normalizeAddress(addr: string) {
+  return String(addr || "").trim().toLowerCase();
+}
+
+function isEvmAddress(a: string) {
+  return /^0x[a-f0-9]{40}$/.test(a);
+}
+
+function clampInt(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+type HistoryRow = {
+  tx_hash: string;
+  log_index: number;
+  block_number: string;
+  block_time: string | null;
+  from_address: string | null;
+  to_address: string | null;
+  raw_amount: string;
+  direction: "in" | "out" | "self";
+};
+
+export function registerAddressProfileRoute(app: Express, pool: Pool) {
+  async function handler(req: Request, res: Response) {
+    const address = normalizeAddress(req.params.address);
+    if (!isEvmAddress(address)) {
+      return res.status(400).json({ error: "Invalid address", details: "Expected a 0x…42-char address" });
+    }
+
+    const limit = clampInt(parseInt(String(req.query.limit ?? "50"), 10) || 50, 1, 200);
+    const counterpartyLimit = clampInt(parseInt(String(req.query.counterparties ?? "10"), 10) || 10, 1, 50);
+
+    const cursorBlockRaw = String(req.query.cursorBlock ?? "");
+    const cursorLogRaw = String(req.query.cursorLog ?? "");
+    const hasCursor = cursorBlockRaw.length > 0 && cursorLogRaw.length > 0;
+    if (hasCursor && (!/^\d+$/.test(cursorBlockRaw) || !/^\d+$/.test(cursorLogRaw))) {
+      return res.status(400).json({
+        error: "Invalid cursor values",
+        details: "cursorBlock and cursorLog must be integers",
+      });
+    }
+
+    const pairAddress = normalizeAddress(process.env.BC400_PAIR_ADDRESS || "");
+    const tokenAddress = normalizeAddress(process.env.BC400_TOKEN_ADDRESS || process.env.TOKEN_ADDRESS || "");
+
+    const client = await pool.connect();
+    try {
+      const addrRow = await client.query<{ id: number; address: string; cluster_id: string | null }>(
+        `SELECT id, address, cluster_id::text AS cluster_id FROM public.addresses WHERE lower(address) = $1 LIMIT 1`,
+        [address]
+      );
+      if (addrRow.rowCount === 0) {
+        return res.status(404).json({ error: "Address not indexed", address });
+      }
+      const addressId = addrRow.rows[0].id;
+
+      // ---- balance + rank (holder_balances only holds positive balances) ----
+      const holder = await client.query<{
+        balance_raw: string;
+        balance_bc400: string;
+        tx_count: number;
+        tags: string | null;
+        first_seen: string | null;
+        last_seen: string | null;
+        last_block_number: string | null;
+        last_tx_hash: string | null;
+        rank: string;
+      }>(
+        `
+        SELECT
+          hb.balance_raw::text AS balance_raw,
+          hb.balance_bc400::text AS balance_bc400,
+          hb.tx_count,
+          hb.tags,
+          hb.first_seen::text AS first_seen,
+          hb.last_seen::text AS last_seen,
+          hb.last_block_number::text AS last_block_number,
+          hb.last_tx_hash,
+          (
+            SELECT COUNT(*) + 1
+            FROM public.holder_balances o
+            WHERE o.balance_raw::numeric > hb.balance_raw::numeric
+          )::text AS rank
+        FROM public.holder_balances hb
+        WHERE hb.address_id = $1
+        `,
+        [addressId]
+      );
+      const h = holder.rows[0] ?? null;
+
+      // ---- lifetime flows (self-transfers counted separately) ----
+      const flows = await client.query<{
+        in_raw: string;
+        out_raw: string;
+        in_count: string;
+        out_count: string;
+        self_count: string;
+        first_seen: string | null;
+        last_seen: string | null;
+      }>(
+        `
+        SELECT
+          COALESCE(SUM(t.raw_amount::numeric) FILTER (WHERE t.to_address_id = $1 AND t.from_address_id <> $1), 0)::text AS in_raw,
+          COALESCE(SUM(t.raw_amount::numeric) FILTER (WHERE t.from_address_id = $1 AND t.to_address_id <> $1), 0)::text AS out_raw,
+          COUNT(*) FILTER (WHERE t.to_address_id = $1 AND t.from_address_id <> $1)::text AS in_count,
+          COUNT(*) FILTER (WHERE t.from_address_id = $1 AND t.to_address_id <> $1)::text AS out_count,
+          COUNT(*) FILTER (WHERE t.from_address_id = $1 AND t.to_address_id = $1)::text AS self_count,
+          MIN(t.block_time)::text AS first_seen,
+          MAX(t.block_time)::text AS last_seen
+        FROM public.transfers t
+        WHERE t.from_address_id = $1 OR t.to_address_id = $1
+        `,
+        [addressId]
+      );
+      const f = flows.rows[0];
+
+      // ---- buys / sells against the pair ----
+      let dex: {
+        pairAddress: string | null;
+        source: "swaps" | "transfers" | null;
+        buys: number;
+        sells: number;
+        boughtRaw: string;
+        soldRaw: string;
+      } = { pairAddress: isEvmAddress(pairAddress) ? pairAddress : null, source: null, buys: 0, sells: 0, boughtRaw: "0", soldRaw: "0" };
+
+      if (isEvmAddress(pairAddress)) {
+        // every registered pool of the token (v2 + v3, any quote), the configured pair included
+        const poolAddresses = isEvmAddress(tokenAddress)
+          ? await getPoolAddresses(client, tokenAddress, pairAddress)
+          : [pairAddress];
+
+        const hasSwaps = await client.query(
+          `SELECT 1 FROM public.lp_events WHERE pair_address = ANY($1::text[]) AND event_type = 'SWAP' LIMIT 1`,
+          [poolAddresses]
+        );
+        // same rule as /dex/totals: swaps only once pair events reach back to the pair's first trade
+        const coverage = await getPairEventsCoverage(client, pairAddress);
+
+        if (hasSwaps.rowCount > 0 && coverage.complete && isEvmAddress(tokenAddress)) {
+          // a swap is this wallet's buy if it received BC400 in the same tx, a sell if it sent BC400
+          const s = await client.query<{ buys: string; sells: string; bought_raw: string; sold_raw: string }>(
+            `
+            WITH swaps AS (
+              SELECT
+                e.tx_hash,
+                CASE WHEN e.metadata->>'token0' = $3 THEN e.token0_delta_raw ELSE e.token1_delta_raw END AS bc_delta
+              FROM public.lp_events e
+              WHERE e.pair_address = ANY($2::text[])
+                AND e.event_type = 'SWAP'
+                AND e.tx_hash IN (
+                  SELECT tx_hash FROM public.transfers WHERE from_address_id = $1 OR to_address_id = $1
+                )
+            )
+            SELECT
+              COUNT(*) FILTER (WHERE s.bc_delta < 0 AND EXISTS (
+                SELECT 1 FROM public.transfers t WHERE t.tx_hash = s.tx_hash AND t.to_address_id = $1
+              ))::text AS buys,
+              COUNT(*) FILTER (WHERE s.bc_delta > 0 AND EXISTS (
+                SELECT 1 FROM public.transfers t WHERE t.tx_hash = s.tx_hash AND t.from_address_id = $1
+              ))::text AS sells,
+              COALESCE(SUM(-s.bc_delta) FILTER (WHERE s.bc_delta < 0 AND EXISTS (
+                SELECT 1 FROM public.transfers t WHERE t.tx_hash = s.tx_hash AND t.to_address_id = $1
+              )), 0)::text AS bought_raw,
+              COALESCE(SUM(s.bc_delta) FILTER (WHERE s.bc_delta > 0 AND EXISTS (
+                SELECT 1 FROM public.transfers t WHERE t.tx_hash = s.tx_hash AND t.from_address_id = $1
+              )), 0)::text AS sold_raw
+            FROM swaps s
+            `,
+            [addressId, poolAddresses, tokenAddress]
+          );
+          const r = s.rows[0];
+          dex = {
+            ...dex,
+            source: "swaps",
+            buys: Number(r?.buys ?? 0),
+            sells: Number(r?.sells ?? 0),
+            boughtRaw: r?.bought_raw ?? "0",
+            soldRaw: r?.sold_raw ?? "0",
+          };
+        } else {
+          // fallback until lp_events cover the pair's history: direct pool <-> wallet transfers
+          const t = await client.query<{ buys: string; sells: string; bought_raw: string; sold_raw: string }>(
+            `
+            SELECT
+              COUNT(*) FILTER (WHERE pa.address = ANY($2::text[]) AND t.to_address_id = $1)::text AS buys,
+              COUNT(*) FILTER (WHERE pb.address = ANY($2::text[]) AND t.from_address_id = $1)::text AS sells,
+              COALESCE(SUM(t.raw_amount::numeric) FILTER (WHERE pa.address = ANY($2::text[]) AND t.to_address_id = $1), 0)::text AS bought_raw,
+              COALESCE(SUM(t.raw_amount::numeric) FILTER (WHERE pb.address = ANY($2::text[]) AND t.from_address_id = $1), 0)::text AS sold_raw
+            FROM public.transfers t
+            JOIN public.addresses pa ON pa.id = t.from_address_id
+            JOIN public.addresses pb ON pb.id = t.to_address_id
+            WHERE t.from_address_id = $1 OR t.to_address_id = $1
+            `,
+            [addressId, poolAddresses]
+          );
+          const r = t.rows[0];
+          dex = {
+            ...dex,
+            source: "transfers",
+            buys: Number(r?.buys ?? 0),
+            sells: Number(r?.sells ?? 0),
+            boughtRaw: r?.bought_raw ?? "0",
+            soldRaw: r?.sold_raw ?? "0",
+          };
+        }
+      }
+
+      // ---- labels ----
+      const labels = await client.query<{
+        label: string;
+        source: string;
+        confidence: string;
+        notes: string | null;
+        updated_at: string;
+      }>(
+        `
+        SELECT label, source, confidence::text AS confidence, notes, updated_at::text AS updated_at
+        FROM public.wallet_labels
+        WHERE address_id = $1
+        ORDER BY confidence DESC, label
+        `,
+        [addressId]
+      );
+
+      // ---- top counterparties by volume ----
+      const counterparties = await client.query<{
+        address: string;
+        sent_raw: string;
+        received_raw: string;
+        transfers: string;
+        labels: string[] | null;
+      }>(
+        `
+        WITH legs AS (
+          SELECT t.to_address_id AS cp_id, t.raw_amount::numeric AS sent, 0::numeric AS received
+          FROM public.transfers t
+          WHERE t.from_address_id = $1 AND t.to_address_id <> $1
+          UNION ALL
+          SELECT t.from_address_id, 0::numeric, t.raw_amount::numeric
+          FROM public.transfers t
+          WHERE t.to_address_id = $1 AND t.from_address_id <> $1
+        ),
+        agg AS (
+          SELECT cp_id, SUM(sent) AS sent_raw, SUM(received) AS received_raw, COUNT(*) AS transfers
+          FROM legs
+          GROUP BY cp_id
+          ORDER BY SUM(sent) + SUM(received) DESC
+          LIMIT $2
+        )
+        SELECT
+          a.address,
+          agg.sent_raw::text AS sent_raw,
+          agg.received_raw::text AS received_raw,
+          agg.transfers::text AS transfers,
+          (SELECT array_agg(wl.label ORDER BY wl.label) FROM public.wallet_labels wl WHERE wl.address_id = agg.cp_id) AS labels
+        FROM agg
+        JOIN public.addresses a ON a.id = agg.cp_id
+        ORDER BY agg.sent_raw + agg.received_raw DESC
+        `,
+        [addressId, counterpartyLimit]
+      );
+
+      // ---- transfer history (cursor = last item's block/log, newest first) ----
+      const historyParams: any[] = [addressId, limit];
+      let cursorSql = "";
+      if (hasCursor) {
+        historyParams.push(cursorBlockRaw, cursorLogRaw);
+        cursorSql = `AND (t.block_number, t.log_index) < ($3::bigint, $4::int)`;
+      }
+
+      const history = await client.query<HistoryRow>(
+        `
+        SELECT
+          t.tx_hash,
+          t.log_index,
+          t.block_number::text AS block_number,
+          t.block_time::text AS block_time,
+          af.address AS from_address,
+          at.address AS to_address,
+          t.raw_amount::text AS raw_amount,
+          CASE
+            WHEN t.from_address_id = $1 AND t.to_address_id = $1 THEN 'self'
+            WHEN t.to_address_id = $1 THEN 'in'
+            ELSE 'out'
+          END AS direction
+        FROM public.transfers t
+        LEFT JOIN public.addresses af ON af.id = t.from_address_id
+        LEFT JOIN public.addresses at ON at.id = t.to_address_id
+        WHERE (t.from_address_id = $1 OR t.to_address_id = $1)
+          ${cursorSql}
+        ORDER BY t.block_number DESC, t.log_index DESC
+        LIMIT $2
+        `,
+        historyParams
+      );
+
+      const items = history.rows.map((r) => ({ ...r, block_number: Number(r.block_number) }));
+      const last = items.length === limit ? items[items.length - 1] : null;
+
+      return res.json({
+        address: addrRow.rows[0].address,
+        addressId,
+        clusterId: addrRow.rows[0].cluster_id ? Number(addrRow.rows[0].cluster_id) : null,
+
+        balanceRaw: h?.balance_raw ?? "0",
+        balanceBc400: h?.balance_bc400 ?? "0",
+        rank: h ? Number(h.rank) : null,
+        tags: h?.tags ? h.tags.split(",").filter(Boolean) : [],
+        firstSeen: h?.first_seen ?? f?.first_seen ?? null,
+        lastSeen: h?.last_seen ?? f?.last_seen ?? null,
+        lastBlockNumber: h?.last_block_number ? Number(h.last_block_number) : null,
+        lastTxHash: h?.last_tx_hash ?? null,
+
+        totals: {
+          inRaw: f?.in_raw ?? "0",
+          outRaw: f?.out_raw ?? "0",
+          inCount: Number(f?.in_count ?? 0),
+          outCount: Number(f?.out_count ?? 0),
+          selfCount: Number(f?.self_count ?? 0),
+        },
+
+        dex,
+
+        labels: labels.rows.map((l) => ({
+          label: l.label,
+          source: l.source,
+          confidence: Number(l.confidence),
+          notes: l.notes,
+          updatedAt: l.updated_at,
+        })),
+
+        counterparties: counterparties.rows.map((c) => ({
+          address: c.address,
+          sentRaw: c.sent_raw,
+          receivedRaw: c.received_raw,
+          transfers: Number(c.transfers),
+          labels: c.labels ?? [],
+        })),
+
+        transfers: {
+          items,
+          nextCursor: last ? { blockNumber: last.block_number, logIndex: last.log_index } : null,
+        },
+      });
+    } catch (err) {
+      console.error("Error in /address/:address:", err);
+      return res.status(500).json({
+        error: "Failed to load address profile",
+        details: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  app.get("/address/:address", handler);
+  app.get("/api/address/:address", handler);
+}
@@ -0,0 +1,109 @@
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+import { HolderAsOfRow, getHolderAsOf, getTopHoldersAsOf, resolveAsOf } from "../services/balanceLedger";
+
+function normalizeAddress(addr: string) {
+  return String(addr || "").trim().toLowerCase();
+}
+
+// ?block=N or ?timestamp=<ISO | unix seconds>
+function parseAsOfQuery(q: any): { block: bigint | null; timestamp: Date | null } | null {
+  const block = String(q.block ?? "").trim();
+  if (/^\d+$/.test(block)) return { block: BigInt(block), timestamp: null };
+
+  const ts = String(q.timestamp ?? q.ts ?? "").trim();
+  if (!ts) return null;
+
+  const d = /^\d+$/.test(ts) ? new Date(Number(ts) * 1000) : new Date(ts);
+  if (Number.isNaN(d.getTime())) return null;
+  return { block: null, timestamp: d };
+}
+
+// balances past the indexed head aren't known yet: answering would label today's state as a future block
+async function blockBeyondHead(pool: Pool, q: { block: bigint | null }): Promise<string | null> {
+  if (q.block === null) return null;
+  const r = await pool.query<{ value: string }>(`SELECT value FROM meta WHERE key = 'last_indexed_block'`);
+  const head = r.rows[0]?.value;
+  if (!head) return "indexer hasn't run yet (no last_indexed_block)";
+  return q.block > BigInt(head) ? `block ${q.block} is beyond the indexed head (${head})` : null;
+}
+
+// same shape as /top-holders
+function toHolder(r: HolderAsOfRow) {
+  return {
+    rank: r.rank ? Number(r.rank) : null,
+    addressId: r.address_id,
+    address: r.address,
+    balanceBc400: r.balance_bc400,
+    balanceRaw: r.balance_raw,
+    txCount: r.tx_count,
+    tags: r.tags ? r.tags.split(",").filter(Boolean) : [],
+    firstSeen: r.first_seen,
+    lastSeen: r.last_seen,
+    lastBlockNumber: r.last_block_number ? Number(r.last_block_number) : null,
+    lastBlockTime: r.last_block_time,
+    lastTxHash: r.last_tx_hash,
+  };
+}
+
+export function registerBalancesAsOfRoute(app: Express, pool: Pool) {
+  async function topHandler(req: Request, res: Response) {
+    const q = parseAsOfQuery(req.query);
+    if (!q) return res.status(400).json({ error: "Provide ?block=<number> or ?timestamp=<ISO|unix seconds>" });
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 25, 1), 200);
+
+    try {
+      const beyond = await blockBeyondHead(pool, q);
+      if (beyond) return res.status(400).json({ error: "Block not indexed yet", details: beyond });
+
+      const asOf = await resolveAsOf(pool, q);
+      if (!asOf) return res.json({ asOf: null, holders: [] });
+
+      const rows = await getTopHoldersAsOf(pool, asOf.blockNumber, limit);
+      return res.json({ asOf, holders: rows.map(toHolder) });
+    } catch (err) {
+      console.error("Error in /balances/as-of:", err);
+      return res.status(500).json({
+        error: "Failed to load balances as of block",
+        details: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  async function addressHandler(req: Request, res: Response) {
+    const address = normalizeAddress(req.params.address);
+    if (!/^0x[a-f0-9]{40}$/.test(address)) return res.status(400).json({ error: "Invalid address" });
+
+    const q = parseAsOfQuery(req.query);
+    if (!q) return res.status(400).json({ error: "Provide ?block=<number> or ?timestamp=<ISO|unix seconds>" });
+
+    try {
+      const addr = await pool.query<{ id: number }>(
+        `SELECT id FROM addresses WHERE lower(address) = $1 LIMIT 1`,
+        [address]
+      );
+      if (addr.rowCount === 0) return res.status(404).json({ error: "Address not indexed", address });
+
+      const beyond = await blockBeyondHead(pool, q);
+      if (beyond) return res.status(400).json({ error: "Block not indexed yet", details: beyond });
+
+      const asOf = await resolveAsOf(pool, q);
+      if (!asOf) return res.json({ asOf: null, holder: null });
+
+      const row = await getHolderAsOf(pool, addr.rows[0].id, asOf.blockNumber);
+      return res.json({ asOf, holder: row ? toHolder(row) : null });
+    } catch (err) {
+      console.error("Error in /balances/as-of/:address:", err);
+      return res.status(500).json({
+        error: "Failed to load address balance as of block",
+        details: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  app.get("/balances/as-of", topHandler);
+  app.get("/api/balances/as-of", topHandler);
+  app.get("/balances/as-of/:address", addressHandler);
+  app.get("/api/balances/as-of/:address", addressHandler);
+}
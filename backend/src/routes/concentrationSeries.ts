@@ -0,0 +1,92 @@
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+import { parseSeriesWindow } from "../utils/seriesWindow";
+
+function numOrNull(v: string | null | undefined) {
+  if (v === null || v === undefined) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function registerConcentrationSeriesRoute(app: Express, pool: Pool) {
+  /**
+   * Bucketed concentration_snapshots: one point per bucket that has data,
+   * using the last snapshot inside the bucket.
+   */
+  async function handler(req: Request, res: Response) {
+    const w = parseSeriesWindow(req.query);
+    if (w.ok === false) return res.status(400).json({ error: "Invalid series window", details: w.error });
+    const { from, to, interval, intervalSeconds, bucketOffsetSeconds } = w.value;
+
+    try {
+      const rows = await pool.query<{
+        bucket: string;
+        ts: string;
+        top10_pct_total: string;
+        top10_pct_circulating: string;
+        effective_concentration_pct: string;
+        effective_holders: string | null;
+        merged_top10_pct: string | null;
+        merged_effective_holders: string | null;
+        risk_score: number;
+        risk_level: string;
+        samples: string;
+      }>(
+        `
+        WITH b AS (
+          SELECT
+            cs.*,
+            to_timestamp(floor((extract(epoch FROM cs.ts) - $4) / $3) * $3 + $4) AS bucket
+          FROM public.concentration_snapshots cs
+          WHERE cs.ts >= $1 AND cs.ts < $2
+        )
+        SELECT DISTINCT ON (bucket)
+          bucket::text AS bucket,
+          ts::text AS ts,
+          top10_pct_total::text AS top10_pct_total,
+          top10_pct_circulating::text AS top10_pct_circulating,
+          effective_concentration_pct::text AS effective_concentration_pct,
+          components->>'effectiveHolders' AS effective_holders,
+          components->'merged'->>'top10PctOfTrueCirculating' AS merged_top10_pct,
+          components->'merged'->>'effectiveHolders' AS merged_effective_holders,
+          risk_score,
+          risk_level,
+          (COUNT(*) OVER (PARTITION BY bucket))::text AS samples
+        FROM b
+        ORDER BY bucket, ts DESC
+        `,
+        [from, to, intervalSeconds, bucketOffsetSeconds]
+      );
+
+      return res.json({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        interval,
+        points: rows.rows.map((r) => ({
+          t: new Date(r.bucket).toISOString(),
+          ts: new Date(r.ts).toISOString(),
+          top10PctTotal: numOrNull(r.top10_pct_total),
+          top10PctCirculating: numOrNull(r.top10_pct_circulating),
+          effectiveConcentrationPct: numOrNull(r.effective_concentration_pct),
+          effectiveHolders: numOrNull(r.effective_holders),
+          merged: {
+            top10PctCirculating: numOrNull(r.merged_top10_pct),
+            effectiveHolders: numOrNull(r.merged_effective_holders),
+          },
+          riskScore: r.risk_score,
+          riskLevel: r.risk_level,
+          samples: Number(r.samples),
+        })),
+      });
+    } catch (err) {
+      console.error("Error in /concentration/series:", err);
+      return res.status(500).json({
+        error: "Failed to load concentration series",
+        details: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  app.get("/concentration/series", handler);
+  app.get("/api/concentration/series", handler);
+}
@@ -0,0 +1,119 @@
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+import { CANDLE_RESOLUTIONS, isCandleResolution } from "../services/dexCandles";
+import { parseSeriesWindow } from "../utils/seriesWindow";
+
+// default lookback per resolution (keeps the default response a chart-sized series)
+const DEFAULT_DAYS: Record<string, number> = { "1m": 1, "5m": 7, "1h": 30, "1d": 365 };
+
+function numOrNull(v: string | null | undefined) {
+  if (v === null || v === undefined) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function registerDexCandlesRoute(app: Express, pool: Pool) {
+  /**
+   * Stored OHLCV candles (see services/dexCandles.ts) for the configured pair.
+   * ?resolution=1m|5m|1h|1d (default 1h) &from=&to= (ISO or unix seconds).
+   * Buckets without Sync events have no candle; charts should treat them as gaps.
+   */
+  async function handler(req: Request, res: Response) {
+    const resolution = String(req.query.resolution ?? "1h").trim().toLowerCase();
+    if (!isCandleResolution(resolution)) {
+      return res.status(400).json({
+        error: "Invalid resolution",
+        details: `expected one of ${Object.keys(CANDLE_RESOLUTIONS).join(", ")}`,
+      });
+    }
+
+    const w = parseSeriesWindow({ ...req.query, interval: resolution }, DEFAULT_DAYS[resolution]);
+    if (w.ok === false) return res.status(400).json({ error: "Invalid candle window", details: w.error });
+    const { from, to } = w.value;
+
+    const pairAddress = String(process.env.BC400_PAIR_ADDRESS || "").trim().toLowerCase();
+
+    try {
+      const rows = await pool.query<{
+        bucket_start: string;
+        open_wbnb: string;
+        high_wbnb: string;
+        low_wbnb: string;
+        close_wbnb: string;
+        bnb_usd: string | null;
+        open_usd: string | null;
+        high_usd: string | null;
+        low_usd: string | null;
+        close_usd: string | null;
+        volume_token_raw: string;
+        volume_wbnb_raw: string;
+        volume_usd: string | null;
+        trades: number;
+        updated_at: string;
+      }>(
+        `
+        SELECT
+          bucket_start::text AS bucket_start,
+          open_wbnb::text, high_wbnb::text, low_wbnb::text, close_wbnb::text,
+          bnb_usd::text,
+          open_usd::text, high_usd::text, low_usd::text, close_usd::text,
+          volume_token_raw::text, volume_wbnb_raw::text, volume_usd::text,
+          trades,
+          updated_at::text AS updated_at
+        FROM public.dex_candles
+        WHERE pair_address = $1
+          AND resolution = $2
+          AND bucket_start >= to_timestamp(floor(extract(epoch FROM $3::timestamptz) / $5::int) * $5::int)
+          AND bucket_start <= $4
+        ORDER BY bucket_start
+        `,
+        [pairAddress, resolution, from, to, CANDLE_RESOLUTIONS[resolution]]
+      );
+
+      const lastUpdated = rows.rows.reduce<string | null>(
+        (acc, r) => (acc === null || r.updated_at > acc ? r.updated_at : acc),
+        null
+      );
+
+      return res.json({
+        pairAddress,
+        resolution,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        updatedAt: lastUpdated ? new Date(lastUpdated).toISOString() : null,
+        candles: rows.rows.map((r) => ({
+          t: new Date(r.bucket_start).toISOString(),
+          wbnb: {
+            open: numOrNull(r.open_wbnb),
+            high: numOrNull(r.high_wbnb),
+            low: numOrNull(r.low_wbnb),
+            close: numOrNull(r.close_wbnb),
+          },
+          usd:
+            r.bnb_usd === null
+              ? null
+              : {
+                  open: numOrNull(r.open_usd),
+                  high: numOrNull(r.high_usd),
+                  low: numOrNull(r.low_usd),
+                  close: numOrNull(r.close_usd),
+                  bnbUsd: numOrNull(r.bnb_usd),
+                },
+          volumeTokenRaw: r.volume_token_raw,
+          volumeWbnbRaw: r.volume_wbnb_raw,
+          volumeUsd: numOrNull(r.volume_usd),
+          trades: r.trades,
+        })),
+      });
+    } catch (err) {
+      console.error("Error in /dex/candles:", err);
+      return res.status(500).json({
+        error: "Failed to load candles",
+        details: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  app.get("/dex/candles", handler);
+  app.get("/api/dex/candles", handler);
+}
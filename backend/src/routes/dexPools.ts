@@ -0,0 +1,60 @@
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+import { aggregatePools, listDexPools } from "../services/dexPools";
+
+export function registerDexPoolsRoute(app: Express, pool: Pool) {
+  /**
+   * Pool registry (see services/dexPools.ts): every PancakeSwap v2/v3 pool of the token
+   * against WBNB / USDT / BUSD / USDC with reserves, USD liquidity and liquidity share,
+   * plus the liquidity-weighted price across them. Refreshed by discover:pools / ENABLE_DEX_POOLS_CRON.
+   */
+  async function handler(_req: Request, res: Response) {
+    const tokenAddress = String(process.env.BC400_TOKEN_ADDRESS || process.env.TOKEN_ADDRESS || "").trim().toLowerCase();
+    const pairAddress = String(process.env.BC400_PAIR_ADDRESS || "").trim().toLowerCase();
+    if (!/^0x[a-f0-9]{40}$/.test(tokenAddress)) {
+      return res.status(400).json({ error: "BC400_TOKEN_ADDRESS not set (must be a 0x…42-char address)" });
+    }
+
+    try {
+      const rows = await listDexPools(pool, tokenAddress);
+      const lastUpdated = rows.reduce<string | null>(
+        (acc, r) => (acc === null || r.updated_at > acc ? r.updated_at : acc),
+        null
+      );
+
+      return res.json({
+        tokenAddress,
+        configuredPair: /^0x[a-f0-9]{40}$/.test(pairAddress) ? pairAddress : null,
+        aggregate: aggregatePools(rows),
+        pools: rows.map((r) => ({
+          poolAddress: r.pool_address,
+          dex: r.dex,
+          feeTier: r.fee_tier,
+          feePct: r.fee_tier !== null ? r.fee_tier / 10_000 : 0.25,
+          quote: { symbol: r.quote_symbol, address: r.quote_address },
+          configured: r.pool_address === pairAddress,
+          reserveTokenRaw: r.reserve_token_raw,
+          reserveQuoteRaw: r.reserve_quote_raw,
+          liquidityRaw: r.liquidity_raw,
+          priceQuote: r.price_quote,
+          priceUsd: r.price_usd,
+          liquidityUsd: r.liquidity_usd,
+          liquiditySharePct: r.liquidity_share_pct,
+          blockNumber: r.block_number !== null ? Number(r.block_number) : null,
+          discoveredAt: new Date(r.discovered_at).toISOString(),
+          updatedAt: new Date(r.updated_at).toISOString(),
+        })),
+        updatedAt: lastUpdated ? new Date(lastUpdated).toISOString() : null,
+      });
+    } catch (err) {
+      console.error("Error in /dex/pools:", err);
+      return res.status(500).json({
+        error: "Failed to load dex pools",
+        details: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  app.get("/dex/pools", handler);
+  app.get("/api/dex/pools", handler);
+}
@@ -1,11 +1,32 @@
 import type { Express } from "express";
-import { Contract, JsonRpcProvider, formatUnits, getAddress } from "ethers";
+import type { Pool } from "pg";
+import { Contract, JsonRpcProvider, formatUnits, getAddress, parseUnits } from "ethers";
+import { provider as rpcProvider } from "../clients/bscClient";
+import {
+  DepthLevel,
+  PANCAKE_V2_FEE_BPS,
+  PairReserves,
+  SwapQuote,
+  SwapSide,
+  SwapUnit,
+  quoteSwap,
+  sellDepthLevels,
+} from "../services/priceImpact";
+import { aggregatePools, listDexPools } from "../services/dexPools";
+import { resolveTokenPrice } from "../services/tokenPrice";
 
 const ZERO = "0x0000000000000000000000000000000000000000";
 const DEFAULT_BC400 = "0x61Fc93c7C070B32B1b1479B86056d8Ec1D7125BD";
 const DEFAULT_WBNB = "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c";
 const PANCAKE_V2_FACTORY = "0xca143ce32fe78f1f7019d7d551a6402fc5350c73";
 
+// /dex/impact ladder when no ?amount= is given
+const DEFAULT_IMPACT_AMOUNTS: Record<"usd" | "wbnb" | "bc400", string[]> = {
+  usd: ["100", "1000", "10000"],
+  wbnb: ["0.1", "1", "10"],
+  bc400: ["100000", "1000000", "10000000"],
+};
+
 // ✅ Chainlink BNB/USD on BSC (override with env if you ever want)
 const DEFAULT_BNB_USD_FEED = "0x0567F2323251f0Aab15c8dFb1967E4e8A7D42aeE";
 
@@ -27,12 +48,9 @@ function isZeroAddress(a: string) {
   return String(a || "").toLowerCase() === ZERO.toLowerCase();
 }
 
+// ✅ shared RPC pool (failover + health scoring)
 function getProvider() {
-  const rpc =
-    process.env.BSC_RPC_URL ||
-    process.env.RPC_URL ||
-    "https://bsc-dataseed.binance.org/";
-  return new JsonRpcProvider(rpc);
+  return rpcProvider;
 }
 
 const FACTORY_ABI = [
@@ -100,80 +118,144 @@ async function getBnbUsd(provider: JsonRpcProvider) {
   return { bnbUsd: num, source: `chainlink:${feedAddr}` as const };
 }
 
-export function registerDexPriceRoute(app: Express) {
+type PairState =
+  | { kind: "no_pair"; BC400: string }
+  | { kind: "mismatch"; BC400: string; pair: string; token0: string; token1: string }
+  | {
+      kind: "ok";
+      BC400: string;
+      WBNB: string;
+      pair: string;
+      bcReserveRaw: bigint;
+      wbnbReserveRaw: bigint;
+      tokenDecimals: number;
+      wbnbDecimals: number;
+    };
+
+// configured (or factory-discovered) BC400/WBNB pair + its current reserves
+async function loadPair(provider: JsonRpcProvider): Promise<PairState> {
+  const BC400 =
+    checksumOrNull(process.env.BC400_TOKEN_ADDRESS || DEFAULT_BC400) ??
+    getAddress(DEFAULT_BC400);
+
+  const WBNB =
+    checksumOrNull(process.env.WBNB_TOKEN_ADDRESS || DEFAULT_WBNB) ??
+    getAddress(DEFAULT_WBNB);
+
+  // 1) Prefer configured pair, but ignore ZERO
+  const configuredPairRaw = checksumOrNull(process.env.BC400_PAIR_ADDRESS || "");
+  const configuredPair =
+    configuredPairRaw && !isZeroAddress(configuredPairRaw) ? configuredPairRaw : null;
+
+  let pair: string | null = configuredPair;
+
+  // 2) Fallback: discover via factory
+  if (!pair) {
+    const factory = new Contract(PANCAKE_V2_FACTORY, FACTORY_ABI, provider);
+    const found: string = await factory.getPair(BC400, WBNB);
+    const foundTrim = String(found || "").trim();
+
+    if (!isHexAddress(foundTrim) || foundTrim.toLowerCase() === ZERO.toLowerCase()) {
+      return { kind: "no_pair", BC400 };
+    }
+
+    pair = getAddress(foundTrim);
+  }
+
+  // Load pair reserves + token0/token1
+  const pairC = new Contract(pair, PAIR_ABI, provider);
+  const [token0Raw, token1Raw, reserves] = await Promise.all([
+    pairC.token0(),
+    pairC.token1(),
+    pairC.getReserves(),
+  ]);
+
+  const token0 = getAddress(String(token0Raw));
+  const token1 = getAddress(String(token1Raw));
+
+  // Validate that pair contains BC400 + WBNB
+  const hasBC400 = token0 === BC400 || token1 === BC400;
+  const hasWBNB = token0 === WBNB || token1 === WBNB;
+
+  if (!hasBC400 || !hasWBNB) {
+    return { kind: "mismatch", BC400, pair, token0, token1 };
+  }
+
+  const [r0, r1] = reserves as [bigint, bigint, number];
+
+  const bcIs0 = token0 === BC400;
+
+  const [tokenDecimals, wbnbDecimals] = await Promise.all([
+    new Contract(BC400, ERC20_ABI, provider).decimals().catch(() => 18),
+    new Contract(WBNB, ERC20_ABI, provider).decimals().catch(() => 18),
+  ]);
+
+  return {
+    kind: "ok",
+    BC400,
+    WBNB,
+    pair,
+    bcReserveRaw: bcIs0 ? r0 : r1,
+    wbnbReserveRaw: bcIs0 ? r1 : r0,
+    tokenDecimals: Number(tokenDecimals),
+    wbnbDecimals: Number(wbnbDecimals),
+  };
+}
+
+function pairReserves(p: Extract<PairState, { kind: "ok" }>): PairReserves {
+  return {
+    tokenRaw: p.bcReserveRaw,
+    wbnbRaw: p.wbnbReserveRaw,
+    tokenDecimals: p.tokenDecimals,
+    wbnbDecimals: p.wbnbDecimals,
+  };
+}
+
+// sell depth levels with the WBNB proceeds also in USD (when we have a BNB price)
+function depthWithUsd(levels: DepthLevel[], bnbUsd: number | null) {
+  return levels.map((l) => ({
+    ...l,
+    wbnbOutUsd: bnbUsd ? Number(l.wbnbOut) * bnbUsd : null,
+  }));
+}
+
+export function registerDexPriceRoute(app: Express, pool: Pool) {
   async function handler(_req: any, res: any) {
     try {
       const warnings: string[] = [];
       const provider = getProvider();
 
-      const BC400 =
-        checksumOrNull(process.env.BC400_TOKEN_ADDRESS || DEFAULT_BC400) ??
-        getAddress(DEFAULT_BC400);
-
-      const WBNB =
-        checksumOrNull(process.env.WBNB_TOKEN_ADDRESS || DEFAULT_WBNB) ??
-        getAddress(DEFAULT_WBNB);
-
-      // 1) Prefer configured pair, but ignore ZERO
-      const configuredPairRaw = checksumOrNull(process.env.BC400_PAIR_ADDRESS || "");
-      const configuredPair =
-        configuredPairRaw && !isZeroAddress(configuredPairRaw) ? configuredPairRaw : null;
-
-      let pair: string | null = configuredPair;
-
-      // 2) Fallback: discover via factory
-      if (!pair) {
-        const factory = new Contract(PANCAKE_V2_FACTORY, FACTORY_ABI, provider);
-        const found: string = await factory.getPair(BC400, WBNB);
-        const foundTrim = String(found || "").trim();
-
-        if (!isHexAddress(foundTrim) || foundTrim.toLowerCase() === ZERO.toLowerCase()) {
-          return res.json({
-            ok: true,
-            dex: "PancakeSwap v2",
-            pairAddress: null,
-            token: BC400,
-            priceWbnb: null,
-            bnbUsd: null,
-            bnbUsdSource: null,
-            priceUsd: null,
-            fdvUsd: null,
-
-            // deprecated compatibility field (FDV-style)
-            marketCapUsd: null,
-            marketCapUsdNote: "Deprecated: this endpoint returns FDV-style valuation. Use fdvUsd.",
-
-            reason: "No PancakeSwap v2 pair found for BC400/WBNB",
-            warnings,
-            updatedAt: new Date().toISOString(),
-          });
-        }
-
-        pair = getAddress(foundTrim);
-      }
+      const state = await loadPair(provider);
 
-      // Load pair reserves + token0/token1
-      const pairC = new Contract(pair, PAIR_ABI, provider);
-      const [token0Raw, token1Raw, reserves] = await Promise.all([
-        pairC.token0(),
-        pairC.token1(),
-        pairC.getReserves(),
-      ]);
+      if (state.kind === "no_pair") {
+        return res.json({
+          ok: true,
+          dex: "PancakeSwap v2",
+          pairAddress: null,
+          token: state.BC400,
+          priceWbnb: null,
+          bnbUsd: null,
+          bnbUsdSource: null,
+          priceUsd: null,
+          fdvUsd: null,
 
-      const token0 = getAddress(String(token0Raw));
-      const token1 = getAddress(String(token1Raw));
+          // deprecated compatibility field (FDV-style)
+          marketCapUsd: null,
+          marketCapUsdNote: "Deprecated: this endpoint returns FDV-style valuation. Use fdvUsd.",
 
-      // Validate that pair contains BC400 + WBNB
-      const hasBC400 = token0 === BC400 || token1 === BC400;
-      const hasWBNB = token0 === WBNB || token1 === WBNB;
+          reason: "No PancakeSwap v2 pair found for BC400/WBNB",
+          warnings,
+          updatedAt: new Date().toISOString(),
+        });
+      }
 
-      if (!hasBC400 || !hasWBNB) {
-        warnings.push(`Pair tokens mismatch (token0=${token0}, token1=${token1})`);
+      if (state.kind === "mismatch") {
+        warnings.push(`Pair tokens mismatch (token0=${state.token0}, token1=${state.token1})`);
         return res.status(200).json({
           ok: true,
           dex: "PancakeSwap v2",
-          pairAddress: pair,
-          token: BC400,
+          pairAddress: state.pair,
+          token: state.BC400,
           tokenSymbol: "BC400",
           priceWbnb: null,
           bnbUsd: null,
@@ -191,19 +273,12 @@ export function registerDexPriceRoute(app: Express) {
         });
       }
 
-      const [r0, r1] = reserves as [bigint, bigint, number];
-
-      const bcIs0 = token0 === BC400;
-      const bcReserveRaw = bcIs0 ? r0 : r1;
-      const wbnbReserveRaw = bcIs0 ? r1 : r0;
+      const { BC400, pair, bcReserveRaw, wbnbReserveRaw, tokenDecimals, wbnbDecimals } = state;
 
       const bc = new Contract(BC400, ERC20_ABI, provider);
-      const wbnb = new Contract(WBNB, ERC20_ABI, provider);
 
-      const [tokenSymbol, tokenDecimals, wbnbDecimals, tokenSupply] = await Promise.all([
+      const [tokenSymbol, tokenSupply] = await Promise.all([
         bc.symbol().catch(() => "BC400"),
-        bc.decimals().catch(() => 18),
-        wbnb.decimals().catch(() => 18),
         bc.totalSupply().catch(() => 0n),
       ]);
 
@@ -220,6 +295,24 @@ export function registerDexPriceRoute(app: Express) {
       const supplyFloat = Number(formatUnits(tokenSupply as bigint, tokenDecimals));
       const fdvUsd = priceUsd !== null ? supplyFloat * priceUsd : null;
 
+      // ✅ all registered pools (v2 + v3, WBNB/USDT/BUSD/USDC): liquidity-weighted price + total liquidity
+      let aggregate: ReturnType<typeof aggregatePools> | null = null;
+      try {
+        aggregate = aggregatePools(await listDexPools(pool, BC400));
+      } catch (e) {
+        warnings.push(`Pool registry unavailable: ${e instanceof Error ? e.message : String(e)}`);
+      }
+
+      // ✅ manipulation guard: spot vs TWAP of stored Syncs, and the price snapshots would use (PRICE_METHOD)
+      const price = await resolveTokenPrice(pool, {
+        pairAddress: pair,
+        tokenAddress: BC400,
+        tokenDecimals,
+        spotWbnb: priceWbnb,
+        bnbUsd,
+      });
+      warnings.push(...price.warnings.filter((w) => !w.startsWith("Pool registry unavailable")));
+
       return res.json({
         ok: true,
         dex: "PancakeSwap v2",
@@ -252,6 +345,24 @@ export function registerDexPriceRoute(app: Express) {
           wbnb: wbnbReserve,
         },
 
+        aggregate,
+
+        // priceUsd above stays the live spot; this is the method-resolved price and its inputs
+        pricing: {
+          method: price.method,
+          requested: price.requested,
+          priceUsd: price.priceUsd,
+          twap: price.twap,
+          liquidityWeighted: price.liquidityWeighted,
+          deviation: price.deviation,
+        },
+
+        // ✅ liquidity depth: BC400 that can be sold before the price drops 5/10/25 % (see /dex/impact)
+        depth: {
+          feePct: Number(PANCAKE_V2_FEE_BPS) / 100,
+          sell: depthWithUsd(sellDepthLevels(pairReserves(state)), bnbUsd),
+        },
+
         warnings,
         updatedAt: new Date().toISOString(),
       });
@@ -265,6 +376,131 @@ export function registerDexPriceRoute(app: Express) {
     }
   }
 
+  /**
+   * Price impact of buys/sells against the live constant-product reserves (0.25 % fee).
+   * ?amount=100,1000 &unit=usd|wbnb|bc400 (default usd, or wbnb without a BNB price) &side=buy|sell|both
+   * Amounts in wbnb/usd fix WBNB paid (buy) or received (sell); bc400 fixes BC400 received (buy) or sold (sell).
+   */
+  async function impactHandler(req: any, res: any) {
+    const sideQ = String(req.query.side ?? "both").trim().toLowerCase();
+    if (sideQ !== "buy" && sideQ !== "sell" && sideQ !== "both") {
+      return res.status(400).json({ ok: false, error: "Invalid side", details: "expected buy, sell or both" });
+    }
+
+    const unitQ = String(req.query.unit ?? "").trim().toLowerCase();
+    if (unitQ && unitQ !== "usd" && unitQ !== "wbnb" && unitQ !== "bc400") {
+      return res.status(400).json({ ok: false, error: "Invalid unit", details: "expected usd, wbnb or bc400" });
+    }
+
+    const amountsQ = String(req.query.amount ?? "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+    if (amountsQ.length > 10) {
+      return res.status(400).json({ ok: false, error: "Too many amounts", details: "at most 10 per request" });
+    }
+    const badAmount = amountsQ.find((a) => !/^\d+(\.\d+)?$/.test(a) || !(Number(a) > 0));
+    if (badAmount !== undefined) {
+      return res.status(400).json({ ok: false, error: "Invalid amount", details: `not a positive number: "${badAmount}"` });
+    }
+
+    try {
+      const provider = getProvider();
+      const state = await loadPair(provider);
+
+      if (state.kind !== "ok") {
+        return res.json({
+          ok: false,
+          dex: "PancakeSwap v2",
+          pairAddress: state.kind === "mismatch" ? state.pair : null,
+          reason:
+            state.kind === "mismatch"
+              ? "Configured/discovered pair does not match BC400/WBNB"
+              : "No PancakeSwap v2 pair found for BC400/WBNB",
+          updatedAt: new Date().toISOString(),
+        });
+      }
+
+      const { bnbUsd, source: bnbUsdSource } = await getBnbUsd(provider);
+
+      const unit = (unitQ || (bnbUsd ? "usd" : "wbnb")) as "usd" | "wbnb" | "bc400";
+      if (unit === "usd" && !bnbUsd) {
+        return res.json({
+          ok: false,
+          dex: "PancakeSwap v2",
+          pairAddress: state.pair,
+          reason: `No BNB/USD price (${bnbUsdSource}); use unit=wbnb or unit=bc400`,
+          updatedAt: new Date().toISOString(),
+        });
+      }
+
+      // parseUnits throws on more fraction digits than the unit's token has
+      const inputDecimals = unit === "bc400" ? state.tokenDecimals : unit === "wbnb" ? state.wbnbDecimals : null;
+      const tooPrecise =
+        inputDecimals === null ? undefined : amountsQ.find((a) => (a.split(".")[1]?.length ?? 0) > inputDecimals);
+      if (tooPrecise !== undefined) {
+        return res.status(400).json({
+          ok: false,
+          error: "Invalid amount",
+          details: `"${tooPrecise}" has more than ${inputDecimals} decimal places (${unit})`,
+        });
+      }
+
+      const amounts = amountsQ.length > 0 ? amountsQ : DEFAULT_IMPACT_AMOUNTS[unit];
+      const r = pairReserves(state);
+      const sides: SwapSide[] = sideQ === "both" ? ["buy", "sell"] : [sideQ];
+
+      const withUsd = (q: SwapQuote | null) =>
+        q ? { ...q, wbnbUsd: bnbUsd ? Number(q.wbnb) * bnbUsd : null } : null;
+
+      const quotes = amounts.map((amount) => {
+        const amountRaw =
+          unit === "bc400"
+            ? parseUnits(amount, state.tokenDecimals)
+            : unit === "wbnb"
+              ? parseUnits(amount, state.wbnbDecimals)
+              : parseUnits((Number(amount) / bnbUsd!).toFixed(state.wbnbDecimals), state.wbnbDecimals);
+        const swapUnit: SwapUnit = unit === "bc400" ? "bc400" : "wbnb";
+
+        const out: Record<string, unknown> = { amount, unit };
+        for (const side of sides) out[side] = withUsd(quoteSwap(r, side, swapUnit, amountRaw));
+        return out;
+      });
+
+      const priceWbnb =
+        state.bcReserveRaw > 0n
+          ? Number(formatUnits(state.wbnbReserveRaw, state.wbnbDecimals)) /
+            Number(formatUnits(state.bcReserveRaw, state.tokenDecimals))
+          : null;
+
+      return res.json({
+        ok: true,
+        dex: "PancakeSwap v2",
+        pairAddress: state.pair,
+        feePct: Number(PANCAKE_V2_FEE_BPS) / 100,
+        priceWbnb,
+        bnbUsd,
+        bnbUsdSource,
+        reservesRaw: {
+          bc400: state.bcReserveRaw.toString(),
+          wbnb: state.wbnbReserveRaw.toString(),
+        },
+        quotes,
+        depth: { sell: depthWithUsd(sellDepthLevels(r), bnbUsd) },
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (err: any) {
+      console.error("Error in /dex/impact:", err);
+      return res.status(500).json({
+        ok: false,
+        error: "Failed to compute price impact",
+        details: String(err?.message || err),
+      });
+    }
+  }
+
   app.get("/dex/price", handler);
   app.get("/api/dex/price", handler);
-}
\ No newline at end of file
+  app.get("/dex/impact", impactHandler);
+  app.get("/api/dex/impact", impactHandler);
+}
@@ -1,5 +1,7 @@
 import type { Express, Request, Response } from "express";
 import type { Pool } from "pg";
+import { getPairEventsCoverage, getSwapTotals } from "../services/dexSwaps";
+import { getPoolAddresses } from "../services/dexPools";
 
 function normalizeAddress(addr: string) {
   return String(addr || "").trim().toLowerCase();
@@ -47,6 +49,16 @@ if (!/^0x[a-f0-9]{40}$/.test(pair)) {	return res.status(400).json({
 
       const pairId = pairRow.rows[0].id;
 
+      // every registered pool of the token (v2 + v3, any quote), the configured pair included
+      const tokenAddress = normalizeAddress(process.env.BC400_TOKEN_ADDRESS || process.env.TOKEN_ADDRESS || "");
+      const hasToken = /^0x[a-f0-9]{40}$/.test(tokenAddress);
+      const poolAddrs = hasToken ? await getPoolAddresses(client, tokenAddress, pair) : [pair];
+      const poolRows = await client.query<{ id: number }>(
+        `SELECT id FROM public.addresses WHERE lower(address) = ANY($1::text[]);`,
+        [poolAddrs]
+      );
+      const poolIds = poolRows.rows.map((r) => r.id);
+
       // Map exclude addresses -> exclude address_ids (if present in DB)
       let excludeIds: number[] = [];
       if (excludeAddrs.length) {
@@ -57,8 +69,37 @@ if (!/^0x[a-f0-9]{40}$/.test(pair)) {	return res.status(400).json({
         excludeIds = ex.rows.map((r) => r.id);
       }
 
-      // BUY: pair -> wallet  (from_address_id = pairId)
-      // SELL: wallet -> pair (to_address_id   = pairId)
+      // Preferred: decoded pair Swap events (router hops / tax transfers aren't trades),
+      // once they cover the pair's whole history
+      const coverage = await getPairEventsCoverage(client, pair);
+      const swaps =
+        hasToken && coverage.complete ? await getSwapTotals(client, poolAddrs, tokenAddress, poolIds, excludeIds) : null;
+
+      if (swaps) {
+        return res.json({
+          pairAddress: pair,
+          pairAddressId: pairId,
+          poolAddresses: poolAddrs,
+          source: "swaps",
+          coverage,
+          definitions: {
+            buy: "Pool Swap events where BC400 leaves a DEX pool (users buying BC400), summed over all pools",
+            sell: "Pool Swap events where BC400 enters a DEX pool (users selling BC400), summed over all pools",
+            excludedAddresses: excludeAddrs,
+            excludedAddressIds: excludeIds,
+          },
+          totalBuys: swaps.buyCount,
+          totalSells: swaps.sellCount,
+          totalBoughtRaw: swaps.boughtRaw,
+          totalSoldRaw: swaps.soldRaw,
+          byPool: swaps.byPool,
+        });
+      }
+
+      // Fallback (lp_events not indexed yet, or not back to the pair's creation): pool <-> wallet BC400 transfers
+
+      // BUY: pool -> wallet  (from_address_id in poolIds)
+      // SELL: wallet -> pool (to_address_id   in poolIds)
       //
       // Exclusion rule:
       // - exclude buys where the RECEIVER is a special wallet
@@ -72,20 +113,20 @@ if (!/^0x[a-f0-9]{40}$/.test(pair)) {	return res.status(400).json({
         `
         SELECT
           COUNT(*) FILTER (
-            WHERE t.from_address_id = $1
+            WHERE t.from_address_id = ANY($1::int[])
               AND t.to_address_id IS NOT NULL
               AND NOT (t.to_address_id = ANY($2::int[]))
           ) AS total_buys,
 
           COUNT(*) FILTER (
-            WHERE t.to_address_id = $1
+            WHERE t.to_address_id = ANY($1::int[])
               AND t.from_address_id IS NOT NULL
               AND NOT (t.from_address_id = ANY($2::int[]))
           ) AS total_sells,
 
           COALESCE(SUM(
             CASE
-              WHEN t.from_address_id = $1
+              WHEN t.from_address_id = ANY($1::int[])
                AND t.to_address_id IS NOT NULL
                AND NOT (t.to_address_id = ANY($2::int[]))
               THEN t.raw_amount::numeric
@@ -95,7 +136,7 @@ if (!/^0x[a-f0-9]{40}$/.test(pair)) {	return res.status(400).json({
 
           COALESCE(SUM(
             CASE
-              WHEN t.to_address_id = $1
+              WHEN t.to_address_id = ANY($1::int[])
                AND t.from_address_id IS NOT NULL
                AND NOT (t.from_address_id = ANY($2::int[]))
               THEN t.raw_amount::numeric
@@ -103,9 +144,9 @@ if (!/^0x[a-f0-9]{40}$/.test(pair)) {	return res.status(400).json({
             END
           ), 0)::text AS total_sold_raw
         FROM public.transfers t
-        WHERE t.from_address_id = $1 OR t.to_address_id = $1;
+        WHERE t.from_address_id = ANY($1::int[]) OR t.to_address_id = ANY($1::int[]);
         `,
-        [pairId, excludeIds] // ✅ always array, can be []
+        [poolIds, excludeIds] // ✅ always arrays, excludeIds can be []
       );
 
       const row = totals.rows[0];
@@ -113,9 +154,15 @@ if (!/^0x[a-f0-9]{40}$/.test(pair)) {	return res.status(400).json({
       return res.json({
         pairAddress: pair,
         pairAddressId: pairId,
+        poolAddresses: poolAddrs,
+        source: "transfers",
+        coverage,
+        ...(coverage.complete
+          ? {}
+          : { note: "lp_events don't reach the pair's first trade yet; run `npm run backfill:lp-transfers`." }),
         definitions: {
-          buy: "BC400 outflow from LP pair to wallets (users buying BC400)",
-          sell: "BC400 inflow from wallets to LP pair (users selling BC400)",
+          buy: "BC400 outflow from DEX pools to wallets (users buying BC400)",
+          sell: "BC400 inflow from wallets to DEX pools (users selling BC400)",
           excludedAddresses: excludeAddrs,
           excludedAddressIds: excludeIds,
         },
@@ -0,0 +1,191 @@
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+import { investorExcludedAddresses } from "../services/entityConcentration";
+
+function clampInt(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function numOrNull(v: string | null | undefined) {
+  if (v === null || v === undefined) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+// lower bounds (BC400 units) of the balance buckets; first bucket is (0, 1)
+const BUCKET_BOUNDS = [1, 10, 100, 1_000, 10_000, 100_000, 1_000_000, 10_000_000, 100_000_000, 1_000_000_000];
+
+function bucketLabel(i: number) {
+  const fmt = (n: number) => n.toLocaleString("en-US");
+  if (i === 0) return `< ${fmt(BUCKET_BOUNDS[0])}`;
+  if (i === BUCKET_BOUNDS.length) return `>= ${fmt(BUCKET_BOUNDS[i - 1])}`;
+  return `${fmt(BUCKET_BOUNDS[i - 1])} – ${fmt(BUCKET_BOUNDS[i])}`;
+}
+
+// all positive balances minus the investor-adjusted exclusions, ranked both ways
+const RANKED_SQL = `
+  h AS (
+    SELECT hb.balance_raw::numeric AS bal
+    FROM holder_balances hb
+    JOIN addresses a ON a.id = hb.address_id
+    WHERE hb.balance_raw::numeric > 0
+      AND LOWER(a.address) <> ALL($1::text[])
+  ),
+  tot AS (
+    SELECT COUNT(*)::numeric AS n, COALESCE(SUM(bal), 0) AS total FROM h
+  ),
+  ranked AS (
+    SELECT
+      bal,
+      ROW_NUMBER() OVER (ORDER BY bal ASC)  AS rn_asc,
+      ROW_NUMBER() OVER (ORDER BY bal DESC) AS rn_desc,
+      SUM(bal) OVER (ORDER BY bal ASC  ROWS UNBOUNDED PRECEDING) AS cum_asc,
+      SUM(bal) OVER (ORDER BY bal DESC ROWS UNBOUNDED PRECEDING) AS cum_desc
+    FROM h
+  )
+`;
+
+export function registerHolderDistributionRoute(app: Express, pool: Pool) {
+  async function handler(req: Request, res: Response) {
+    const points = clampInt(parseInt(String(req.query.points ?? "20"), 10) || 20, 2, 200);
+    const excluded = investorExcludedAddresses();
+
+    try {
+      // token decimals as recorded by supply snapshots (holder_balances.balance_bc400 assumes 9; don't use it)
+      const dec = await pool.query<{ decimals: number }>(
+        `
+        SELECT COALESCE(NULLIF((metadata->>'decimals')::int, 0), 18) AS decimals
+        FROM public.supply_snapshots
+        ORDER BY ts DESC
+        LIMIT 1
+        `
+      );
+      const decimals = Number(dec.rows[0]?.decimals ?? 18);
+
+      const stats = await pool.query<{
+        holders: string;
+        total_raw: string;
+        gini: string | null;
+        hhi: string | null;
+        nakamoto: string;
+        top1_pct: string | null;
+        top10_pct: string | null;
+        top100_pct: string | null;
+      }>(
+        `
+        WITH ${RANKED_SQL}
+        SELECT
+          tot.n::text AS holders,
+          tot.total::text AS total_raw,
+          -- Gini over ascending ranks: 2·Σ(i·x_i) / (n·Σx) − (n+1)/n
+          CASE WHEN tot.n = 0 OR tot.total = 0 THEN NULL
+            ELSE ((2 * SUM(r.rn_asc * r.bal)) / (tot.n * tot.total) - (tot.n + 1) / tot.n)::text
+          END AS gini,
+          CASE WHEN tot.total = 0 THEN NULL
+            ELSE SUM((r.bal / tot.total) * (r.bal / tot.total))::text
+          END AS hhi,
+          -- holders needed to pass 50 %: everyone whose predecessors hold at most half
+          COUNT(r.bal) FILTER (WHERE r.cum_desc - r.bal <= tot.total / 2)::text AS nakamoto,
+          CASE WHEN tot.total = 0 THEN NULL ELSE (MAX(r.cum_desc) FILTER (WHERE r.rn_desc <= 1)   / tot.total * 100)::text END AS top1_pct,
+          CASE WHEN tot.total = 0 THEN NULL ELSE (MAX(r.cum_desc) FILTER (WHERE r.rn_desc <= 10)  / tot.total * 100)::text END AS top10_pct,
+          CASE WHEN tot.total = 0 THEN NULL ELSE (MAX(r.cum_desc) FILTER (WHERE r.rn_desc <= 100) / tot.total * 100)::text END AS top100_pct
+        FROM tot
+        LEFT JOIN ranked r ON TRUE
+        GROUP BY tot.n, tot.total
+        `,
+        [excluded]
+      );
+
+      // Lorenz curve: cumulative share of holders (poorest first) vs cumulative share of balance
+      const lorenz = await pool.query<{ holders_share: string; balance_share: string }>(
+        `
+        WITH ${RANKED_SQL}
+        SELECT
+          (r.rn_asc / tot.n)::text AS holders_share,
+          (r.cum_asc / tot.total)::text AS balance_share
+        FROM generate_series(1, $2::int) k
+        CROSS JOIN tot
+        JOIN ranked r ON r.rn_asc = GREATEST(1, CEIL(tot.n * k / $2::int))
+        WHERE tot.total > 0
+        ORDER BY k
+        `,
+        [excluded, points]
+      );
+
+      const buckets = await pool.query<{ bucket: number; holders: string; balance_raw: string }>(
+        `
+        WITH ${RANKED_SQL}
+        SELECT
+          width_bucket(bal / (10::numeric ^ $3::int), $2::numeric[]) AS bucket,
+          COUNT(*)::text AS holders,
+          SUM(bal)::text AS balance_raw
+        FROM ranked
+        GROUP BY 1
+        ORDER BY 1
+        `,
+        [excluded, BUCKET_BOUNDS, decimals]
+      );
+
+      const s = stats.rows[0];
+      const holders = Number(s?.holders ?? 0);
+      const totalRaw = s?.total_raw ?? "0";
+      const total = Number(totalRaw);
+      const hhi = numOrNull(s?.hhi);
+
+      const byBucket = new Map(buckets.rows.map((b) => [Number(b.bucket), b]));
+      const bucketItems = [];
+      for (let i = 0; i <= BUCKET_BOUNDS.length; i++) {
+        const b = byBucket.get(i);
+        const balanceRaw = b?.balance_raw ?? "0";
+        bucketItems.push({
+          label: bucketLabel(i),
+          minBc400: i === 0 ? 0 : BUCKET_BOUNDS[i - 1],
+          maxBc400: i === BUCKET_BOUNDS.length ? null : BUCKET_BOUNDS[i],
+          holders: Number(b?.holders ?? 0),
+          balanceRaw,
+          sharePct: total > 0 ? (Number(balanceRaw) / total) * 100 : null,
+        });
+      }
+
+      return res.json({
+        holders,
+        totalRaw,
+        decimals,
+        gini: numOrNull(s?.gini),
+        nakamoto: holders > 0 ? Number(s.nakamoto) : null,
+        hhi,
+        effectiveHolders: hhi && hhi > 0 ? 1 / hhi : null,
+        topSharesPct: {
+          top1: numOrNull(s?.top1_pct),
+          top10: numOrNull(s?.top10_pct),
+          top100: numOrNull(s?.top100_pct),
+        },
+        lorenz: holders > 0
+          ? [
+              { holdersShare: 0, balanceShare: 0 },
+              ...lorenz.rows.map((p) => ({ holdersShare: Number(p.holders_share), balanceShare: Number(p.balance_share) })),
+            ]
+          : [],
+        buckets: bucketItems,
+        excluded,
+        definitions: {
+          population: "holder_balances with balance > 0, minus the investor-adjusted exclusions",
+          gini: "0 = perfectly equal, 1 = one holder has everything",
+          nakamoto: "fewest holders that together control more than 50% of the population's balance",
+          hhi: "sum of squared balance shares over all holders; effectiveHolders = 1/hhi",
+          lorenz: "cumulative share of balance held by the poorest holdersShare of holders",
+        },
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      console.error("Error in /holders/distribution:", err);
+      return res.status(500).json({
+        error: "Failed to compute holder distribution",
+        details: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  app.get("/holders/distribution", handler);
+  app.get("/api/holders/distribution", handler);
+}
@@ -0,0 +1,152 @@
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+import { getLiquidityEvents, getLpHolders } from "../services/lpHolders";
+
+const TAGS = ["burned", "locker", "team", "deployer", "unknown"] as const;
+
+function pctOf(numer: bigint, denom: bigint) {
+  return denom > 0n ? Number((numer * 1_000_000n) / denom) / 10_000 : 0;
+}
+
+function clampInt(v: unknown, def: number, min: number, max: number) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return def;
+  return Math.max(min, Math.min(max, Math.trunc(n)));
+}
+
+function handleError(res: Response, where: string, err: unknown) {
+  console.error(`Error in ${where}:`, err);
+  res.status(500).json({
+    error: `Failed to load ${where}`,
+    details: err instanceof Error ? err.message : String(err),
+  });
+}
+
+function envAddresses() {
+  const pairAddress = String(process.env.BC400_PAIR_ADDRESS || "").trim().toLowerCase();
+  const tokenAddress = String(process.env.BC400_TOKEN_ADDRESS || "").trim().toLowerCase();
+  if (!/^0x[a-f0-9]{40}$/.test(pairAddress)) throw new Error(`Missing/invalid BC400_PAIR_ADDRESS: "${pairAddress}"`);
+  if (!/^0x[a-f0-9]{40}$/.test(tokenAddress)) throw new Error(`Missing/invalid BC400_TOKEN_ADDRESS: "${tokenAddress}"`);
+  return { pairAddress, tokenAddress };
+}
+
+/**
+ * LP token holders from indexed LP Transfers (lp_events TRANSFER rows).
+ * ?limit= (default 50, max 500). Shares are of the indexed LP supply; run
+ * `npm run backfill:lp-transfers` once on databases indexed before LP Transfers / Mint / Burn were stored.
+ */
+async function lpHoldersHandler(pool: Pool, req: Request, res: Response) {
+  const limit = clampInt(req.query.limit, 50, 1, 500);
+
+  try {
+    const { pairAddress, tokenAddress } = envAddresses();
+
+    const since24h = new Date(Date.now() - 24 * 3600 * 1000);
+    const [data, removals24h] = await Promise.all([
+      getLpHolders(pool, pairAddress, limit),
+      getLiquidityEvents(pool, pairAddress, tokenAddress, { kind: "REMOVE", since: since24h, limit: 1000 }),
+    ]);
+
+    const total = BigInt(data.totalRaw);
+
+    const byTag = Object.fromEntries(
+      TAGS.map((tag) => {
+        const raw = BigInt(data.byTagRaw[tag] ?? "0");
+        return [tag, { raw: raw.toString(), pct: pctOf(raw, total) }];
+      })
+    );
+
+    // pulled liquidity is the rug signal: who removed, and how much of today's supply
+    const removedRaw = removals24h.reduce((acc, r) => acc + BigInt(r.lp_raw), 0n);
+    const removers = new Set(removals24h.map((r) => r.holder));
+
+    return res.json({
+      pairAddress,
+      totalSupplyRaw: data.totalRaw,
+      holderCount: data.holderCount,
+      deployer: data.deployer,
+      byTag,
+      removals24h: {
+        count: removals24h.length,
+        holders: removers.size,
+        lpRaw: removedRaw.toString(),
+        pctOfSupply: pctOf(removedRaw, total + removedRaw),
+      },
+      holders: data.holders.map((h, i) => ({
+        rank: i + 1,
+        address: h.address,
+        balanceRaw: h.balance_raw,
+        sharePct: pctOf(BigInt(h.balance_raw), total),
+        tag: h.tag,
+        label: h.label,
+        liquidity: {
+          adds: h.adds,
+          removes: h.removes,
+          lpAddedRaw: h.lp_added_raw,
+          lpRemovedRaw: h.lp_removed_raw,
+          lastRemoveTime: h.last_remove_time ? new Date(h.last_remove_time).toISOString() : null,
+        },
+      })),
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (err) {
+    return handleError(res, "lp/holders", err);
+  }
+}
+
+/**
+ * Liquidity add/remove history, newest first.
+ * ?holder=0x.. &kind=add|remove &limit= (default 100, max 1000)
+ */
+async function lpLiquidityHandler(pool: Pool, req: Request, res: Response) {
+  const holder = String(req.query.holder ?? "").trim().toLowerCase();
+  if (holder && !/^0x[a-f0-9]{40}$/.test(holder)) {
+    return res.status(400).json({ error: "Invalid holder", details: `not an address: "${holder}"` });
+  }
+
+  const kindRaw = String(req.query.kind ?? "").trim().toLowerCase();
+  if (kindRaw && kindRaw !== "add" && kindRaw !== "remove") {
+    return res.status(400).json({ error: "Invalid kind", details: "expected add or remove" });
+  }
+  const kind = kindRaw ? (kindRaw.toUpperCase() as "ADD" | "REMOVE") : undefined;
+
+  const limit = clampInt(req.query.limit, 100, 1, 1000);
+
+  try {
+    const { pairAddress, tokenAddress } = envAddresses();
+    const rows = await getLiquidityEvents(pool, pairAddress, tokenAddress, {
+      holder: holder || undefined,
+      kind,
+      limit,
+    });
+
+    return res.json({
+      pairAddress,
+      holder: holder || null,
+      kind: kind ?? null,
+      events: rows.map((r) => ({
+        kind: r.kind,
+        blockNumber: Number(r.block_number),
+        time: r.block_time ? new Date(r.block_time).toISOString() : null,
+        txHash: r.tx_hash,
+        holder: r.holder,
+        lpRaw: r.lp_raw,
+        bc400Raw: r.bc400_raw,
+        wbnbRaw: r.wbnb_raw,
+      })),
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (err) {
+    return handleError(res, "lp/liquidity", err);
+  }
+}
+
+export function registerLpHoldersRoute(app: Express, pool: Pool) {
+  const holders = (req: Request, res: Response) => lpHoldersHandler(pool, req, res);
+  const liquidity = (req: Request, res: Response) => lpLiquidityHandler(pool, req, res);
+
+  app.get("/lp/holders", holders);
+  app.get("/api/lp/holders", holders);
+  app.get("/lp/liquidity", liquidity);
+  app.get("/api/lp/liquidity", liquidity);
+}
@@ -1,5 +1,7 @@
 import type { Express, Request, Response } from "express";
-import { Contract, JsonRpcProvider, getAddress } from "ethers";
+import type { Pool } from "pg";
+import { Contract, getAddress } from "ethers";
+import { provider as rpcProvider } from "../clients/bscClient";
 
 const DEFAULT_BC400 = "0x61Fc93c7C070B32B1b1479B86056d8Ec1D7125BD";
 const DEFAULT_WBNB = "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c";
@@ -29,10 +31,9 @@ function safeChecksum(label: string, raw: string) {
   }
 }
 
+// ✅ shared RPC pool (failover + health scoring)
 function getProvider() {
-  // ✅ matches your .env
-  const rpc = process.env.BSC_RPC_URL || process.env.RPC_URL || "https://bsc-dataseed.binance.org/";
-  return new JsonRpcProvider(rpc);
+  return rpcProvider;
 }
 
 const FACTORY_ABI = [
@@ -51,6 +52,190 @@ const ERC20_ABI = [
   "function balanceOf(address) view returns (uint256)",
 ];
 
+function pctOf(numer: bigint, denom: bigint) {
+  return denom > 0n ? Number((numer * 1_000_000n) / denom) / 10_000 : 0;
+}
+
+type LockRow = {
+  provider: string;
+  contract_addr: string;
+  lock_key: string | null;
+  owner_address: string | null;
+  amount_raw: string | null;
+  unlock_time: string | null;
+  withdrawn: boolean;
+};
+
+/**
+ * UNCX onWithdraw names neither the lock nor the owner; the locker pays the owner in the same tx,
+ * so the owner is the recipient of that LP Transfer (lp_events TRANSFER). Withdrawn amounts are
+ * applied to the owner's locks earliest unlock first (only unlocked locks can be withdrawn).
+ */
+async function applyUncxWithdrawals(pool: Pool, pair: string, rows: LockRow[]) {
+  const w = await pool.query<{ contract_addr: string; owner: string | null; amount_raw: string }>(
+    `
+    SELECT
+      w.contract_addr,
+      COALESCE(w.owner_address, t.metadata->>'to') AS owner,
+      w.amount_raw::text AS amount_raw
+    FROM public.lock_events w
+    LEFT JOIN LATERAL (
+      SELECT e.metadata
+      FROM public.lp_events e
+      WHERE e.pair_address = $1
+        AND e.event_type = 'TRANSFER'
+        AND e.tx_hash = w.tx_hash
+        AND e.metadata->>'from' = w.contract_addr
+      ORDER BY (e.lp_delta_raw = w.amount_raw) DESC, e.log_index
+      LIMIT 1
+    ) t ON true
+    WHERE w.pair_address = $1
+      AND w.provider = 'UNCX'
+      AND w.event_type = 'WITHDRAW'
+      AND w.amount_raw IS NOT NULL
+    `,
+    [pair]
+  );
+
+  const left = new Map<string, bigint>();
+  for (const r of w.rows) {
+    if (!r.owner) continue;
+    const k = `${r.contract_addr}:${r.owner}`;
+    left.set(k, (left.get(k) ?? 0n) + BigInt(r.amount_raw));
+  }
+
+  const uncx = rows
+    .filter((r) => r.provider === "UNCX" && r.lock_key !== null && r.owner_address)
+    .sort((a, b) => new Date(a.unlock_time ?? 0).getTime() - new Date(b.unlock_time ?? 0).getTime());
+  for (const r of uncx) {
+    const k = `${r.contract_addr}:${r.owner_address}`;
+    const avail = left.get(k) ?? 0n;
+    const amount = BigInt(r.amount_raw ?? "0");
+    if (avail <= 0n) continue;
+    if (avail >= amount) {
+      r.withdrawn = true;
+      left.set(k, avail - amount);
+    } else {
+      r.amount_raw = (amount - avail).toString();
+      left.set(k, 0n);
+    }
+  }
+}
+
+/**
+ * Locker side of /lp/lock, from indexed lock_events (see indexer/lockEvents.ts).
+ * Locked amount = live LP balance of every locker that has events for this pair
+ * (a locker only holds locked tokens). Lock state per lock = its latest LOCK/EXTEND,
+ * amount lowered by later PinkLock vesting (LockVested remaining), gone once a WITHDRAW
+ * for the same lock was seen (UNCX: see applyUncxWithdrawals). Locks made before lock_events
+ * existed (e.g. at launch) need `npm run backfill:lock-events`.
+ */
+async function getLockerState(pool: Pool, lp: Contract, pair: string, totalSupply: bigint) {
+  const q = await pool.query<LockRow>(
+    `
+    WITH ev AS (
+      SELECT
+        provider, contract_addr, owner_address, amount_raw, unlock_time, event_type,
+        block_number, log_index,
+        metadata->>'lockKey' AS lock_key,
+        (metadata->>'remainingRaw')::numeric AS remaining_raw
+      FROM public.lock_events
+      WHERE pair_address = $1
+    ),
+    latest AS (
+      SELECT DISTINCT ON (contract_addr, lock_key)
+        provider, contract_addr, lock_key, owner_address, amount_raw, unlock_time, block_number, log_index
+      FROM ev
+      WHERE event_type IN ('LOCK', 'EXTEND') AND lock_key IS NOT NULL
+      ORDER BY contract_addr, lock_key, block_number DESC, log_index DESC
+    ),
+    vested AS (
+      SELECT DISTINCT ON (contract_addr, lock_key)
+        contract_addr, lock_key, remaining_raw, block_number, log_index
+      FROM ev
+      WHERE event_type = 'UNLOCK' AND lock_key IS NOT NULL AND remaining_raw IS NOT NULL
+      ORDER BY contract_addr, lock_key, block_number DESC, log_index DESC
+    )
+    SELECT
+      l.provider,
+      l.contract_addr,
+      l.lock_key,
+      l.owner_address,
+      (CASE
+        WHEN v.lock_key IS NOT NULL AND (v.block_number, v.log_index) > (l.block_number, l.log_index)
+          THEN v.remaining_raw
+        ELSE l.amount_raw
+      END)::text AS amount_raw,
+      l.unlock_time::text AS unlock_time,
+      EXISTS (
+        SELECT 1 FROM ev w
+        WHERE w.event_type = 'WITHDRAW' AND w.contract_addr = l.contract_addr AND w.lock_key = l.lock_key
+      )
+      OR (v.lock_key IS NOT NULL AND (v.block_number, v.log_index) > (l.block_number, l.log_index) AND v.remaining_raw = 0)
+        AS withdrawn
+    FROM latest l
+    LEFT JOIN vested v ON v.contract_addr = l.contract_addr AND v.lock_key = l.lock_key
+    UNION ALL
+    -- lockers we only saw token-less events from still count for the balance check
+    SELECT DISTINCT provider, contract_addr, NULL, NULL, NULL, NULL, true
+    FROM ev
+    WHERE lock_key IS NULL
+    `,
+    [pair.toLowerCase()]
+  );
+
+  await applyUncxWithdrawals(pool, pair.toLowerCase(), q.rows);
+
+  const providers = new Map<string, string>();
+  for (const r of q.rows) providers.set(r.contract_addr, r.provider);
+
+  const lockers = await Promise.all(
+    Array.from(providers.entries()).map(async ([address, provider]) => {
+      const bal = BigInt(await lp.balanceOf(address));
+      return { provider, address: getAddress(address), lockedRaw: bal, lockedPct: pctOf(bal, totalSupply) };
+    })
+  );
+  lockers.sort((a, b) => (b.lockedRaw > a.lockedRaw ? 1 : b.lockedRaw < a.lockedRaw ? -1 : 0));
+
+  const holding = new Set(lockers.filter((l) => l.lockedRaw > 0n).map((l) => l.address.toLowerCase()));
+  const now = Date.now();
+
+  const active = q.rows
+    .filter((r) => r.lock_key !== null && !r.withdrawn && holding.has(r.contract_addr))
+    .map((r) => ({
+      provider: r.provider,
+      contract: getAddress(r.contract_addr),
+      lockId: r.lock_key,
+      owner: r.owner_address,
+      amountRaw: r.amount_raw,
+      unlockTime: r.unlock_time ? new Date(r.unlock_time) : null,
+    }));
+
+  const upcoming = active
+    .filter((l) => l.unlockTime && l.unlockTime.getTime() > now)
+    .sort((a, b) => a.unlockTime!.getTime() - b.unlockTime!.getTime());
+  const next = upcoming[0] ?? null;
+
+  const lockedRaw = lockers.reduce((acc, l) => acc + l.lockedRaw, 0n);
+  const primary = lockers.find((l) => l.lockedRaw > 0n) ?? null;
+
+  return {
+    verified: primary !== null,
+    lockedRaw: lockedRaw.toString(),
+    lockedPct: pctOf(lockedRaw, totalSupply),
+    locker: primary
+      ? { provider: primary.provider, address: primary.address, lockedRaw: primary.lockedRaw.toString(), lockedPct: primary.lockedPct }
+      : null,
+    lockers: lockers.map((l) => ({ ...l, lockedRaw: l.lockedRaw.toString() })),
+    nextUnlock: next
+      ? { ...next, unlockTime: next.unlockTime!.toISOString() }
+      : null,
+    // past their unlock time but not withdrawn: the owner can pull these now
+    unlockableNow: active.filter((l) => l.unlockTime && l.unlockTime.getTime() <= now).length,
+    activeLocks: active.length,
+  };
+}
+
 function handleError(res: Response, where: string, err: unknown) {
   console.error(`Error in ${where}:`, err);
   res.status(500).json({
@@ -60,7 +245,7 @@ function handleError(res: Response, where: string, err: unknown) {
   });
 }
 
-async function lpLockHandler(_req: Request, res: Response) {
+async function lpLockHandler(pool: Pool, _req: Request, res: Response) {
   try {
     const warnings: string[] = [];
 
@@ -160,6 +345,13 @@ async function lpLockHandler(_req: Request, res: Response) {
         ? Number(((burned * 1_000_000n) / (totalSupply as bigint))) / 10_000
         : 0;
 
+    let lock: Awaited<ReturnType<typeof getLockerState>> | null = null;
+    try {
+      lock = await getLockerState(pool, lp, pair, totalSupply as bigint);
+    } catch (e) {
+      warnings.push(`Locker check failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
     return res.json({
       ok: true,
       pairFound: true,
@@ -174,6 +366,9 @@ async function lpLockHandler(_req: Request, res: Response) {
         burnedRaw: burned.toString(),
         burnedPct,
       },
+      lock,
+      // burned or sitting in a verified locker
+      securedPct: Math.min(100, burnedPct + (lock?.lockedPct ?? 0)),
       updatedAt: new Date().toISOString(),
     });
   } catch (err) {
@@ -181,7 +376,8 @@ async function lpLockHandler(_req: Request, res: Response) {
   }
 }
 
-export function registerLpLockRoute(app: Express) {
-  app.get("/lp/lock", lpLockHandler);
-  app.get("/api/lp/lock", lpLockHandler);
+export function registerLpLockRoute(app: Express, pool: Pool) {
+  const handler = (req: Request, res: Response) => lpLockHandler(pool, req, res);
+  app.get("/lp/lock", handler);
+  app.get("/api/lp/lock", handler);
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+import type { Express, Request, Response } from "express";
+import { getRpcPoolStatus } from "../clients/bscClient";
+
+export function registerRpcStatusRoute(app: Express) {
+  const handler = (_req: Request, res: Response) => {
+    const endpoints = getRpcPoolStatus();
+
+    return res.json({
+      ok: endpoints.some((e) => !e.coolingDown),
+      endpoints,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  app.get("/rpc/status", handler);
+  app.get("/api/rpc/status", handler);
+}
@@ -1,5 +1,7 @@
 import type { Express } from "express";
 import type { Pool } from "pg";
+import { PairEventsCoverage, getPairEventsCoverage, getSwapTotals } from "../services/dexSwaps";
+import { getPoolAddresses } from "../services/dexPools";
 
 function normAddr(a: string) {
   return String(a || "").trim().toLowerCase();
@@ -13,6 +15,7 @@ export function registerSummaryRoute(app: Express, pool: Pool) {
   async function handler(_req: any, res: any) {
     try {
       const pairAddress = normAddr(process.env.BC400_PAIR_ADDRESS || "");
+      const tokenAddress = normAddr(process.env.BC400_TOKEN_ADDRESS || process.env.TOKEN_ADDRESS || "");
 
       // Base summary (all-time)
       const base = await pool.query<{
@@ -35,6 +38,29 @@ export function registerSummaryRoute(app: Express, pool: Pool) {
       let totalSoldBc400Raw = "0";   // wallets -> pair (SELL)
       let totalBuyTransfers = 0;
       let totalSellTransfers = 0;
+      let flowSource: "swaps" | "transfers" | null = null;
+
+      // every registered pool of the token (v2 + v3, any quote), the configured pair included
+      const poolAddresses =
+        isEvmAddress(pairAddress) && isEvmAddress(tokenAddress)
+          ? await getPoolAddresses(pool, tokenAddress, pairAddress)
+          : [];
+
+      // Preferred: decoded pool Swap events (one row per real trade), summed over all pools,
+      // once lp_events reach back to the pair's first trade (else lifetime totals would shrink to the indexed window)
+      const coverage: PairEventsCoverage | null = isEvmAddress(pairAddress)
+        ? await getPairEventsCoverage(pool, pairAddress)
+        : null;
+      if (poolAddresses.length > 0 && coverage?.complete) {
+        const swaps = await getSwapTotals(pool, poolAddresses, tokenAddress);
+        if (swaps) {
+          flowSource = "swaps";
+          totalBoughtBc400Raw = swaps.boughtRaw;
+          totalSoldBc400Raw = swaps.soldRaw;
+          totalBuyTransfers = swaps.buyCount;
+          totalSellTransfers = swaps.sellCount;
+        }
+      }
 
       if (isEvmAddress(pairAddress)) {
         // Resolve pair id first (fast lookup)
@@ -45,6 +71,11 @@ export function registerSummaryRoute(app: Express, pool: Pool) {
 
         if (pairRow.rowCount > 0) {
           pairAddressId = pairRow.rows[0].id;
+        }
+
+        // Fallback: pair <-> wallet BC400 transfers (until lp_events are indexed)
+        if (pairAddressId !== null && flowSource === null) {
+          flowSource = "transfers";
 
           const agg = await pool.query<{
             bought_raw: string;
@@ -86,12 +117,22 @@ export function registerSummaryRoute(app: Express, pool: Pool) {
         // pair context (investor-grade)
         pairAddress: isEvmAddress(pairAddress) ? pairAddress : null,
         pairAddressId,
-
-        definitions: {
-          buy: "BC400 outflow from LP pair to wallets (users buying BC400)",
-          sell: "BC400 inflow from wallets to LP pair (users selling BC400)",
-          rawAmount: "Token raw units as stored in transfers.raw_amount (not human decimals)",
-        },
+        poolAddresses,
+
+        flowSource,
+        pairEventsCoverage: coverage,
+        definitions:
+          flowSource === "swaps"
+            ? {
+                buy: "Pool Swap events where BC400 leaves a DEX pool (users buying BC400), summed over all pools",
+                sell: "Pool Swap events where BC400 enters a DEX pool (users selling BC400), summed over all pools",
+                rawAmount: "Token raw units as swapped by the pair (lp_events deltas, not human decimals)",
+              }
+            : {
+                buy: "BC400 outflow from LP pair to wallets (users buying BC400)",
+                sell: "BC400 inflow from wallets to LP pair (users selling BC400)",
+                rawAmount: "Token raw units as stored in transfers.raw_amount (not human decimals)",
+              },
 
         // all-time DEX flow totals (raw units)
         totalBoughtBc400Raw,
@@ -0,0 +1,127 @@
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+import { ethers } from "ethers";
+import { parseSeriesWindow } from "../utils/seriesWindow";
+
+function numOrNull(v: string | null | undefined) {
+  if (v === null || v === undefined) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function unitsOrNull(raw: string | null, decimals: number) {
+  if (raw === null || !/^\d+$/.test(raw)) return null;
+  return ethers.formatUnits(BigInt(raw), decimals);
+}
+
+export function registerSupplySeriesRoute(app: Express, pool: Pool) {
+  /**
+   * supply_snapshots bucketed by ?interval (hour/day/week or 15m, 6h, ...).
+   * Every bucket in [from, to] is returned; a bucket without its own snapshot carries the
+   * last earlier one forward (filled: true) unless ?fill=false.
+   */
+  async function handler(req: Request, res: Response) {
+    const w = parseSeriesWindow(req.query);
+    if (w.ok === false) return res.status(400).json({ error: "Invalid series window", details: w.error });
+    const { from, to, interval, intervalSeconds, bucketOffsetSeconds } = w.value;
+
+    const fill = String(req.query.fill ?? "true").toLowerCase() !== "false";
+    const token = String(process.env.BC400_TOKEN_ADDRESS || "").trim().toLowerCase();
+
+    try {
+      const rows = await pool.query<{
+        bucket: string;
+        ts: string | null;
+        total_supply_raw: string | null;
+        burned_raw: string | null;
+        lp_raw: string | null;
+        locked_raw: string | null;
+        circulating_raw: string | null;
+        price_usd: string | null;
+        marketcap_usd: string | null;
+        price_method: string | null;
+        decimals: number | null;
+        reconstructed: boolean | null;
+      }>(
+        `
+        WITH buckets AS (
+          SELECT generate_series(
+            to_timestamp(floor((extract(epoch FROM $1::timestamptz) - $6::int) / $3::int) * $3::int + $6::int),
+            $2::timestamptz,
+            make_interval(secs => $3::int)
+          ) AS bucket
+        )
+        SELECT
+          b.bucket::text AS bucket,
+          s.ts::text AS ts,
+          s.total_supply_raw::text AS total_supply_raw,
+          s.burned_raw::text AS burned_raw,
+          s.lp_raw::text AS lp_raw,
+          s.locked_raw::text AS locked_raw,
+          s.circulating_raw::text AS circulating_raw,
+          s.price_usd::text AS price_usd,
+          s.marketcap_usd::text AS marketcap_usd,
+          s.price_method,
+          COALESCE(NULLIF((s.metadata->>'decimals')::int, 0), 18) AS decimals,
+          (s.metadata->>'reconstructed') = 'true' AS reconstructed
+        FROM buckets b
+        LEFT JOIN LATERAL (
+          SELECT ss.*
+          FROM public.supply_snapshots ss
+          WHERE ($4 = '' OR lower(ss.token_address) = $4)
+            AND ss.ts < b.bucket + make_interval(secs => $3::int)
+            AND ($5::boolean OR ss.ts >= b.bucket)
+          ORDER BY ss.ts DESC
+          LIMIT 1
+        ) s ON true
+        ORDER BY b.bucket
+        `,
+        [from, to, intervalSeconds, token, fill, bucketOffsetSeconds]
+      );
+
+      return res.json({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        interval,
+        fill,
+        tokenAddress: token || null,
+        points: rows.rows.map((r) => {
+          const t = new Date(r.bucket);
+          const decimals = r.decimals ?? 18;
+          return {
+            t: t.toISOString(),
+            ts: r.ts ? new Date(r.ts).toISOString() : null,
+            filled: r.ts ? new Date(r.ts).getTime() < t.getTime() : false,
+            decimals: r.ts ? decimals : null,
+            reconstructed: r.reconstructed === true, // back-filled by reconstruct:supply
+
+            totalSupplyRaw: r.total_supply_raw,
+            burnedRaw: r.burned_raw,
+            lpRaw: r.lp_raw,
+            lockedRaw: r.locked_raw,
+            circulatingRaw: r.circulating_raw,
+
+            totalSupply: unitsOrNull(r.total_supply_raw, decimals),
+            burned: unitsOrNull(r.burned_raw, decimals),
+            lp: unitsOrNull(r.lp_raw, decimals),
+            locked: unitsOrNull(r.locked_raw, decimals),
+            circulating: unitsOrNull(r.circulating_raw, decimals),
+
+            priceUsd: numOrNull(r.price_usd),
+            marketCapUsd: numOrNull(r.marketcap_usd),
+            priceMethod: r.price_method, // spot | twap | liquidity_weighted (null on rows without a price)
+          };
+        }),
+      });
+    } catch (err) {
+      console.error("Error in /supply/series:", err);
+      return res.status(500).json({
+        error: "Failed to load supply series",
+        details: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  app.get("/supply/series", handler);
+  app.get("/api/supply/series", handler);
+}
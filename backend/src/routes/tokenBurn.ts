@@ -1,5 +1,6 @@
 import type { Express, Request, Response } from "express";
-import { Contract, JsonRpcProvider, getAddress } from "ethers";
+import { Contract, getAddress } from "ethers";
+import { provider as rpcProvider } from "../clients/bscClient";
 
 const DEFAULT_BC400 = "0x61Fc93c7C070B32B1b1479B86056d8Ec1D7125BD";
 const DEAD = "0x000000000000000000000000000000000000dEaD";
@@ -9,14 +10,9 @@ function isHexAddress(s: string) {
   return /^0x[a-fA-F0-9]{40}$/.test(String(s || "").trim());
 }
 
+// ✅ shared RPC pool (failover + health scoring)
 function getProvider() {
-  const rpc =
-    process.env.BSC_RPC_URL ||
-    process.env.RPC_URL ||
-    process.env.BSC_RPC_HTTP_URL ||
-    process.env.NODEREAL_HTTP_URL ||
-    "https://bsc-dataseed.binance.org/";
-  return new JsonRpcProvider(rpc);
+  return rpcProvider;
 }
 
 const ERC20_ABI = [
@@ -8,6 +8,8 @@ type LatestTransfersRow = {
   block_time: string | null;
   from_address: string | null;
   to_address: string | null;
+  from_labels: string[];
+  to_labels: string[];
   raw_amount: string;
 };
 
@@ -52,6 +54,8 @@ export function registerLatestTransfersRoute(app: Express, pool: Pool) {
           t.block_time,
           af.address AS from_address,
           at.address AS to_address,
+          COALESCE((SELECT array_agg(wl.label ORDER BY wl.label) FROM public.wallet_labels wl WHERE wl.address_id = t.from_address_id), '{}') AS from_labels,
+          COALESCE((SELECT array_agg(wl.label ORDER BY wl.label) FROM public.wallet_labels wl WHERE wl.address_id = t.to_address_id), '{}') AS to_labels,
           t.raw_amount::text AS raw_amount
         FROM public.transfers t
         LEFT JOIN public.addresses af ON af.id = t.from_address_id
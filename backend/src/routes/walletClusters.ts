@@ -0,0 +1,149 @@
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+
+function clampInt(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function fail(res: Response, where: string, err: unknown) {
+  console.error(`Error in ${where}:`, err);
+  return res.status(500).json({
+    error: `Failed to ${where}`,
+    details: err instanceof Error ? err.message : String(err),
+  });
+}
+
+export function registerWalletClustersRoute(app: Express, pool: Pool) {
+  // clusters ordered by combined current balance
+  async function listHandler(req: Request, res: Response) {
+    try {
+      const limit = clampInt(parseInt(String(req.query.limit ?? "50"), 10) || 50, 1, 500);
+      const offset = Math.max(parseInt(String(req.query.offset ?? "0"), 10) || 0, 0);
+
+      const total = await pool.query<{ n: string }>(`SELECT COUNT(*)::text AS n FROM public.wallet_clusters`);
+
+      const rows = await pool.query<{
+        cluster_id: string;
+        member_count: number;
+        reasons: string[];
+        updated_at: string;
+        holders: string;
+        balance_raw: string;
+        balance_bc400: string;
+      }>(
+        `
+        SELECT
+          wc.cluster_id::text AS cluster_id,
+          wc.member_count,
+          wc.reasons,
+          wc.updated_at::text AS updated_at,
+          COUNT(hb.address_id)::text AS holders,
+          COALESCE(SUM(hb.balance_raw::numeric), 0)::text AS balance_raw,
+          COALESCE(SUM(hb.balance_bc400), 0)::text AS balance_bc400
+        FROM public.wallet_clusters wc
+        JOIN public.addresses a ON a.cluster_id = wc.cluster_id
+        LEFT JOIN public.holder_balances hb ON hb.address_id = a.id
+        GROUP BY wc.cluster_id
+        ORDER BY COALESCE(SUM(hb.balance_raw::numeric), 0) DESC, wc.cluster_id
+        LIMIT $1 OFFSET $2
+        `,
+        [limit, offset]
+      );
+
+      return res.json({
+        items: rows.rows.map((r) => ({
+          clusterId: Number(r.cluster_id),
+          memberCount: r.member_count,
+          holders: Number(r.holders),
+          reasons: r.reasons ?? [],
+          balanceRaw: r.balance_raw,
+          balanceBc400: r.balance_bc400,
+          updatedAt: r.updated_at,
+        })),
+        total: Number(total.rows[0]?.n ?? 0),
+        limit,
+        offset,
+      });
+    } catch (err) {
+      return fail(res, "list wallet clusters", err);
+    }
+  }
+
+  async function clusterHandler(req: Request, res: Response) {
+    const raw = String(req.params.id || "");
+    if (!/^\d+$/.test(raw)) return res.status(400).json({ error: "Invalid cluster id" });
+    const clusterId = raw;
+
+    try {
+      const cluster = await pool.query<{ member_count: number; reasons: string[]; updated_at: string }>(
+        `SELECT member_count, reasons, updated_at::text AS updated_at FROM public.wallet_clusters WHERE cluster_id = $1`,
+        [clusterId]
+      );
+      if (cluster.rowCount === 0) return res.status(404).json({ error: "Cluster not found", clusterId: Number(clusterId) });
+
+      const members = await pool.query<{
+        address: string;
+        balance_raw: string | null;
+        balance_bc400: string | null;
+        labels: string[] | null;
+      }>(
+        `
+        SELECT
+          a.address,
+          hb.balance_raw::text AS balance_raw,
+          hb.balance_bc400::text AS balance_bc400,
+          (SELECT array_agg(wl.label ORDER BY wl.label) FROM public.wallet_labels wl WHERE wl.address_id = a.id) AS labels
+        FROM public.addresses a
+        LEFT JOIN public.holder_balances hb ON hb.address_id = a.id
+        WHERE a.cluster_id = $1
+        ORDER BY COALESCE(hb.balance_raw::numeric, 0) DESC, a.address
+        `,
+        [clusterId]
+      );
+
+      const links = await pool.query<{ address_a: string; address_b: string; reason: string; evidence: any }>(
+        `
+        SELECT aa.address AS address_a, ab.address AS address_b, l.reason, l.evidence
+        FROM public.wallet_cluster_links l
+        JOIN public.addresses aa ON aa.id = l.address_id_a
+        JOIN public.addresses ab ON ab.id = l.address_id_b
+        WHERE aa.cluster_id = $1
+        ORDER BY l.reason, aa.address, ab.address
+        `,
+        [clusterId]
+      );
+
+      const balanceRaw = members.rows.reduce((acc, m) => acc + BigInt(m.balance_raw ?? "0"), 0n);
+      const balanceBc400 = members.rows.reduce((acc, m) => acc + Number(m.balance_bc400 ?? "0"), 0);
+
+      const c = cluster.rows[0];
+      return res.json({
+        clusterId: Number(clusterId),
+        memberCount: c.member_count,
+        reasons: c.reasons ?? [],
+        updatedAt: c.updated_at,
+        balanceRaw: balanceRaw.toString(),
+        balanceBc400: String(balanceBc400),
+        members: members.rows.map((m) => ({
+          address: m.address,
+          balanceRaw: m.balance_raw ?? "0",
+          balanceBc400: m.balance_bc400 ?? "0",
+          labels: m.labels ?? [],
+        })),
+        links: links.rows.map((l) => ({
+          a: l.address_a,
+          b: l.address_b,
+          reason: l.reason,
+          evidence: l.evidence,
+        })),
+      });
+    } catch (err) {
+      return fail(res, "load wallet cluster", err);
+    }
+  }
+
+  app.get("/clusters", listHandler);
+  app.get("/api/clusters", listHandler);
+  app.get("/clusters/:id", clusterHandler);
+  app.get("/api/clusters/:id", clusterHandler);
+}
@@ -0,0 +1,292 @@
+import crypto from "crypto";
+import express from "express";
+import type { Express, Request, Response } from "express";
+import type { Pool } from "pg";
+import {
+  WALLET_LABELS,
+  WALLET_LABEL_SOURCES,
+  WalletLabelRow,
+  listLabels,
+  parseCsv,
+  syncHolderTags,
+  upsertLabel,
+  validateLabelInput,
+} from "../services/walletLabels";
+
+function normalizeAddress(addr: string) {
+  return String(addr || "").trim().toLowerCase();
+}
+
+function clampInt(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function toLabel(r: WalletLabelRow) {
+  return {
+    address: r.address,
+    label: r.label,
+    source: r.source,
+    confidence: Number(r.confidence),
+    notes: r.notes,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+function fail(res: Response, where: string, err: unknown) {
+  console.error(`Error in ${where}:`, err);
+  return res.status(500).json({
+    error: `Failed to ${where}`,
+    details: err instanceof Error ? err.message : String(err),
+  });
+}
+
+// Writes require LABELS_API_KEY (Authorization: Bearer <key> or x-api-key); without it they're disabled
+function authorized(req: Request, res: Response): boolean {
+  const key = process.env.LABELS_API_KEY;
+  if (!key) {
+    res.status(503).json({ error: "Label writes disabled", details: "LABELS_API_KEY is not configured" });
+    return false;
+  }
+
+  const auth = String(req.headers.authorization || "");
+  const given = auth.startsWith("Bearer ") ? auth.slice(7) : String(req.headers["x-api-key"] || "");
+  // compare digests: timingSafeEqual needs equal lengths and must not leak the key's length
+  const digest = (v: string) => crypto.createHash("sha256").update(v).digest();
+  if (crypto.timingSafeEqual(digest(given), digest(key))) return true;
+
+  res.status(401).json({ error: "Unauthorized" });
+  return false;
+}
+
+export function registerWalletLabelsRoute(app: Express, pool: Pool) {
+  async function listHandler(req: Request, res: Response) {
+    try {
+      const limit = clampInt(parseInt(String(req.query.limit ?? "100"), 10) || 100, 1, 1000);
+      const offset = Math.max(parseInt(String(req.query.offset ?? "0"), 10) || 0, 0);
+
+      const { items, total } = await listLabels(pool, {
+        address: req.query.address ? normalizeAddress(String(req.query.address)) : undefined,
+        label: req.query.label ? String(req.query.label).toLowerCase() : undefined,
+        source: req.query.source ? String(req.query.source).toLowerCase() : undefined,
+        limit,
+        offset,
+      });
+
+      return res.json({
+        items: items.map(toLabel),
+        total,
+        limit,
+        offset,
+        allowed: { labels: WALLET_LABELS, sources: WALLET_LABEL_SOURCES },
+      });
+    } catch (err) {
+      return fail(res, "list wallet labels", err);
+    }
+  }
+
+  async function addressHandler(req: Request, res: Response) {
+    const address = normalizeAddress(req.params.address);
+    if (!/^0x[a-f0-9]{40}$/.test(address)) return res.status(400).json({ error: "Invalid address" });
+
+    try {
+      const { items } = await listLabels(pool, { address, limit: 1000, offset: 0 });
+      return res.json({ address, items: items.map(toLabel) });
+    } catch (err) {
+      return fail(res, "load wallet labels", err);
+    }
+  }
+
+  async function createHandler(req: Request, res: Response) {
+    if (!authorized(req, res)) return;
+
+    const v = validateLabelInput(req.body, { source: "manual" });
+    if (v.ok === false) return res.status(400).json({ error: "Invalid label", details: v.errors });
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const { created, addressId } = await upsertLabel(client, v.value);
+      await syncHolderTags(client, [addressId]);
+      await client.query("COMMIT");
+
+      const { items } = await listLabels(pool, { address: v.value.address, label: v.value.label, limit: 1, offset: 0 });
+      return res.status(created ? 201 : 200).json({ created, item: items[0] ? toLabel(items[0]) : null });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      return fail(res, "save wallet label", err);
+    } finally {
+      client.release();
+    }
+  }
+
+  async function updateHandler(req: Request, res: Response) {
+    if (!authorized(req, res)) return;
+
+    const address = normalizeAddress(req.params.address);
+    const label = String(req.params.label || "").toLowerCase();
+
+    let existing: Awaited<ReturnType<typeof listLabels>>;
+    try {
+      existing = await listLabels(pool, { address, label, limit: 1, offset: 0 });
+    } catch (err) {
+      return fail(res, "load wallet label", err);
+    }
+    if (existing.items.length === 0) return res.status(404).json({ error: "Label not found", address, label });
+
+    const cur = existing.items[0];
+    const v = validateLabelInput(
+      {
+        address,
+        label,
+        source: req.body?.source ?? cur.source,
+        confidence: req.body?.confidence ?? cur.confidence,
+        notes: req.body && "notes" in req.body ? req.body.notes : cur.notes,
+      },
+      { source: "manual" }
+    );
+    if (v.ok === false) return res.status(400).json({ error: "Invalid label", details: v.errors });
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await upsertLabel(client, v.value);
+      await client.query("COMMIT");
+
+      const { items } = await listLabels(pool, { address, label, limit: 1, offset: 0 });
+      return res.json({ item: items[0] ? toLabel(items[0]) : null });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      return fail(res, "update wallet label", err);
+    } finally {
+      client.release();
+    }
+  }
+
+  async function deleteHandler(req: Request, res: Response) {
+    if (!authorized(req, res)) return;
+
+    const address = normalizeAddress(req.params.address);
+    const label = String(req.params.label || "").toLowerCase();
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const del = await client.query<{ address_id: number }>(
+        `
+        DELETE FROM wallet_labels wl
+        USING addresses a
+        WHERE a.id = wl.address_id AND a.address = $1 AND wl.label = $2
+        RETURNING wl.address_id
+        `,
+        [address, label]
+      );
+      await syncHolderTags(client, del.rows.map((r) => Number(r.address_id)));
+      await client.query("COMMIT");
+
+      if (del.rowCount === 0) return res.status(404).json({ error: "Label not found", address, label });
+      return res.json({ ok: true, deleted: del.rowCount });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      return fail(res, "delete wallet label", err);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Bulk import: JSON array / { rows: [...] } or CSV (Content-Type: text/csv) with
+   * header address,label[,source,confidence,notes]. Valid rows are upserted in one
+   * transaction; invalid rows are reported by 1-based row number (CSV: source line, header = 1).
+   * Existing rows keep their source; manual labels are left alone (skippedManual). ?dryRun=1 validates only.
+   */
+  async function importHandler(req: Request, res: Response) {
+    if (!authorized(req, res)) return;
+
+    let records: any[];
+    let rowNumbers: number[] | null = null;
+    try {
+      if (typeof req.body === "string") {
+        const parsed = parseCsv(req.body);
+        records = parsed.map((r) => r.values);
+        rowNumbers = parsed.map((r) => r.line);
+      } else if (Array.isArray(req.body)) records = req.body;
+      else if (Array.isArray(req.body?.rows)) records = req.body.rows;
+      else return res.status(400).json({ error: "Expected a JSON array, { rows: [...] } or text/csv body" });
+    } catch (err) {
+      return res.status(400).json({ error: "Unparseable import body", details: String(err) });
+    }
+
+    const dryRun = String(req.query.dryRun ?? "") === "1" || String(req.query.dryRun ?? "") === "true";
+
+    const errors: { row: number; address: string | null; errors: string[] }[] = [];
+    const valid: ReturnType<typeof validateLabelInput>[] = [];
+    records.forEach((r, i) => {
+      const v = validateLabelInput(r, { source: "import" });
+      if (v.ok === false) errors.push({ row: rowNumbers ? rowNumbers[i] : i + 1, address: r?.address ?? null, errors: v.errors });
+      else valid.push(v);
+    });
+
+    if (dryRun || valid.length === 0) {
+      return res.status(errors.length && !valid.length ? 400 : 200).json({
+        dryRun,
+        total: records.length,
+        valid: valid.length,
+        created: 0,
+        updated: 0,
+        skippedManual: 0,
+        errors,
+      });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      let created = 0;
+      let skippedManual = 0;
+      const touched: number[] = [];
+      for (const v of valid) {
+        if (v.ok === false) continue;
+        const r = await upsertLabel(client, v.value, "import");
+        if (r.skipped) {
+          skippedManual++;
+          continue;
+        }
+        if (r.created) created++;
+        touched.push(r.addressId);
+      }
+      await syncHolderTags(client, touched);
+      await client.query("COMMIT");
+
+      return res.json({
+        dryRun,
+        total: records.length,
+        valid: valid.length,
+        created,
+        updated: valid.length - created - skippedManual,
+        skippedManual, // existing manual labels are never overwritten by an import
+        errors,
+      });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      return fail(res, "import wallet labels", err);
+    } finally {
+      client.release();
+    }
+  }
+
+  const csvBody = express.text({ type: ["text/csv", "text/plain"], limit: "5mb" });
+
+  app.get("/labels", listHandler);
+  app.get("/api/labels", listHandler);
+  app.post("/labels/import", csvBody, importHandler);
+  app.post("/api/labels/import", csvBody, importHandler);
+  app.get("/labels/:address", addressHandler);
+  app.get("/api/labels/:address", addressHandler);
+  app.post("/labels", createHandler);
+  app.post("/api/labels", createHandler);
+  app.put("/labels/:address/:label", updateHandler);
+  app.put("/api/labels/:address/:label", updateHandler);
+  app.delete("/labels/:address/:label", deleteHandler);
+  app.delete("/api/labels/:address/:label", deleteHandler);
+}
@@ -0,0 +1,100 @@
+import "dotenv/config";
+import { ethers } from "ethers";
+import type { Log } from "ethers";
+import { pool, getMeta } from "../db";
+import { callRpc, provider } from "../clients/bscClient";
+import { AdaptiveLogRange } from "../clients/logRange";
+import { LOCKER_EVENT_TOPICS, decodeLockEvents, insertLockEvents, knownLockers } from "../indexer/lockEvents";
+
+// Locker events (PinkLock / UNCX / Team Finance) were only fetched for blocks scanned after
+// lock_events existed, so launch-time locks are missing; this re-reads them for
+// [START_BLOCK, last_indexed_block], with the pair's LP Transfers for token-less withdrawals.
+// Safe to re-run (ON CONFLICT DO NOTHING).
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+async function main() {
+  const tokenAddress = String(process.env.BC400_TOKEN_ADDRESS || process.env.TOKEN_ADDRESS || "").trim().toLowerCase();
+  if (!/^0x[a-f0-9]{40}$/.test(tokenAddress)) throw new Error(`Missing/invalid BC400_TOKEN_ADDRESS: "${tokenAddress}"`);
+  const pairAddress = String(process.env.BC400_PAIR_ADDRESS || "").trim().toLowerCase();
+  if (!/^0x[a-f0-9]{40}$/.test(pairAddress)) throw new Error(`Missing/invalid BC400_PAIR_ADDRESS: "${pairAddress}"`);
+
+  const startEnv = process.env.BC400_START_BLOCK || process.env.START_BLOCK;
+  if (!startEnv) throw new Error("Missing start block env. Set BC400_START_BLOCK or START_BLOCK");
+
+  const from = BigInt(process.argv.find((a) => a.startsWith("--from="))?.slice(7) || startEnv);
+  const last = await getMeta("last_indexed_block");
+  const to = BigInt(process.argv.find((a) => a.startsWith("--to="))?.slice(5) || last || "0");
+  if (to < from) throw new Error(`nothing to do: from=${from} to=${to} (indexer hasn't run yet?)`);
+
+  const lockers = Array.from(knownLockers().keys());
+  console.log(`[lock-events] starting... pair=${pairAddress} ${lockers.length} locker(s), blocks ${from} → ${to}`);
+
+  const logRange = new AdaptiveLogRange("lock-events", {
+    initialSpan: 50_000n,
+    minSpan: 1n,
+    maxSpan: 500_000n,
+    targetLogs: 5000,
+  });
+  await logRange.restore();
+
+  const blockTimes = new Map<number, Date | null>();
+  const blockTimeOf = (bn: number) => blockTimes.get(bn) ?? null;
+  let inserted = 0;
+
+  for (let cursor = from; cursor <= to; ) {
+    let end = cursor + logRange.nextSpan() - 1n;
+    if (end > to) end = to;
+
+    const logs = await logRange.fetch(
+      { address: [pairAddress, ...lockers], topics: [[TRANSFER_TOPIC, ...LOCKER_EVENT_TOPICS]] },
+      cursor,
+      end
+    );
+
+    const pairLogs: Log[] = [];
+    const lockerLogs: Log[] = [];
+    for (const log of logs) {
+      if (String(log.address).toLowerCase() === pairAddress) {
+        if (log.topics?.[0] === TRANSFER_TOPIC) pairLogs.push(log);
+        continue;
+      }
+      lockerLogs.push(log);
+      const bn = Number(log.blockNumber);
+      if (!blockTimes.has(bn)) {
+        const b = await callRpc(() => provider.getBlock(bn), `getBlock(${bn})`);
+        blockTimes.set(bn, b ? new Date(Number(b.timestamp) * 1000) : null);
+      }
+    }
+
+    let rows = 0;
+    if (lockerLogs.length > 0) {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const lockRows = await decodeLockEvents(client, lockerLogs, pairLogs, tokenAddress, pairAddress, blockTimeOf);
+        await insertLockEvents(client, lockRows);
+        await client.query("COMMIT");
+        rows = lockRows.length;
+      } catch (e) {
+        await client.query("ROLLBACK");
+        throw e;
+      } finally {
+        client.release();
+      }
+      inserted += rows;
+    }
+
+    console.log(`[lock-events] ${cursor} → ${end}: ${rows} lock events`);
+    if (blockTimes.size > 20_000) blockTimes.clear();
+    cursor = end + 1n;
+  }
+
+  console.log(`[lock-events] done: ${inserted} lock events processed`);
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[lock-events] failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+import "dotenv/config";
+import { ethers } from "ethers";
+import { pool, getMeta } from "../db";
+import { callRpc, provider } from "../clients/bscClient";
+import { AdaptiveLogRange } from "../clients/logRange";
+import { LpEventRow, PAIR_EVENT_TOPICS, decodePairLog, insertLpEvents, loadPairTokens } from "../indexer/lpEvents";
+
+// The configured pair's history from before lp_events existed: LP token Transfers (holders) and
+// Swap/Sync/Mint/Burn (trades, candles, liquidity adds/removes, incl. the initial add).
+// Re-reads them for [START_BLOCK, last_indexed_block]. Safe to re-run (ON CONFLICT DO NOTHING).
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+async function main() {
+  const pairAddress = String(process.env.BC400_PAIR_ADDRESS || "").trim().toLowerCase();
+  if (!/^0x[a-f0-9]{40}$/.test(pairAddress)) throw new Error(`Missing/invalid BC400_PAIR_ADDRESS: "${pairAddress}"`);
+
+  const startEnv = process.env.BC400_START_BLOCK || process.env.START_BLOCK;
+  if (!startEnv) throw new Error("Missing start block env. Set BC400_START_BLOCK or START_BLOCK");
+
+  const from = BigInt(process.argv.find((a) => a.startsWith("--from="))?.slice(7) || startEnv);
+  const last = await getMeta("last_indexed_block");
+  const to = BigInt(process.argv.find((a) => a.startsWith("--to="))?.slice(5) || last || "0");
+  if (to < from) throw new Error(`nothing to do: from=${from} to=${to} (indexer hasn't run yet?)`);
+
+  console.log(`[lp-transfers] starting... pair=${pairAddress} blocks ${from} → ${to}`);
+
+  const tokens = await loadPairTokens(pairAddress);
+  const logRange = new AdaptiveLogRange("lp-transfers", {
+    initialSpan: 50_000n,
+    minSpan: 1n,
+    maxSpan: 500_000n,
+    targetLogs: 5000,
+  });
+  await logRange.restore();
+
+  const blockTimes = new Map<number, Date | null>();
+  let inserted = 0;
+
+  for (let cursor = from; cursor <= to; ) {
+    let end = cursor + logRange.nextSpan() - 1n;
+    if (end > to) end = to;
+
+    const logs = await logRange.fetch({ address: pairAddress, topics: [[TRANSFER_TOPIC, ...PAIR_EVENT_TOPICS]] }, cursor, end);
+
+    const rows: LpEventRow[] = [];
+    for (const log of logs) {
+      const bn = Number(log.blockNumber);
+      if (!blockTimes.has(bn)) {
+        const b = await callRpc(() => provider.getBlock(bn), `getBlock(${bn})`);
+        blockTimes.set(bn, b ? new Date(Number(b.timestamp) * 1000) : null);
+      }
+      const row = decodePairLog(log, tokens, blockTimes.get(bn) ?? null);
+      if (row) rows.push(row);
+    }
+
+    if (rows.length > 0) {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        await insertLpEvents(client, rows);
+        await client.query("COMMIT");
+      } catch (e) {
+        await client.query("ROLLBACK");
+        throw e;
+      } finally {
+        client.release();
+      }
+      inserted += rows.length;
+    }
+
+    console.log(`[lp-transfers] ${cursor} → ${end}: ${rows.length} pair events`);
+    if (blockTimes.size > 20_000) blockTimes.clear();
+    cursor = end + 1n;
+  }
+
+  console.log(`[lp-transfers] done: ${inserted} pair logs processed`);
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[lp-transfers] failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+import "dotenv/config";
+import { pool, getMeta } from "../db";
+import { callRpc, provider } from "../clients/bscClient";
+import { AdaptiveLogRange } from "../clients/logRange";
+import {
+  PAIR_EVENT_TOPICS,
+  V3_POOL_EVENT_TOPICS,
+  LpEventRow,
+  PairTokens,
+  decodePairLog,
+  insertLpEvents,
+  loadPairTokens,
+} from "../indexer/lpEvents";
+import { getPoolAddresses } from "../services/dexPools";
+
+// The indexer only picks up newly discovered dex_pools from its resume point on;
+// this re-reads their pool events for [START_BLOCK, last_indexed_block] (--pool=0x.. for one pool).
+// Safe to re-run (ON CONFLICT DO NOTHING).
+async function main() {
+  const tokenAddress = String(process.env.BC400_TOKEN_ADDRESS || process.env.TOKEN_ADDRESS || "").trim().toLowerCase();
+  if (!/^0x[a-f0-9]{40}$/.test(tokenAddress)) throw new Error(`Missing/invalid BC400_TOKEN_ADDRESS: "${tokenAddress}"`);
+  const pairAddress = String(process.env.BC400_PAIR_ADDRESS || "").trim().toLowerCase();
+
+  const startEnv = process.env.BC400_START_BLOCK || process.env.START_BLOCK;
+  if (!startEnv) throw new Error("Missing start block env. Set BC400_START_BLOCK or START_BLOCK");
+
+  const from = BigInt(process.argv.find((a) => a.startsWith("--from="))?.slice(7) || startEnv);
+  const last = await getMeta("last_indexed_block");
+  const to = BigInt(process.argv.find((a) => a.startsWith("--to="))?.slice(5) || last || "0");
+  if (to < from) throw new Error(`nothing to do: from=${from} to=${to} (indexer hasn't run yet?)`);
+
+  const only = process.argv.find((a) => a.startsWith("--pool="))?.slice(7).toLowerCase();
+  const pools = (await getPoolAddresses(pool, tokenAddress)).filter((a) => a !== pairAddress && (!only || a === only));
+  if (pools.length === 0) {
+    console.log("[pool-events] no extra pools registered (run discover:pools first)");
+    await pool.end();
+    process.exit(0);
+  }
+
+  console.log(`[pool-events] starting... ${pools.length} pool(s), blocks ${from} → ${to}`);
+
+  const tokens = new Map<string, PairTokens>();
+  for (const a of pools) tokens.set(a, await loadPairTokens(a));
+
+  const logRange = new AdaptiveLogRange("pool-events", {
+    initialSpan: 50_000n,
+    minSpan: 1n,
+    maxSpan: 500_000n,
+    targetLogs: 5000,
+  });
+  await logRange.restore();
+
+  const blockTimes = new Map<number, Date | null>();
+  let inserted = 0;
+
+  for (let cursor = from; cursor <= to; ) {
+    let end = cursor + logRange.nextSpan() - 1n;
+    if (end > to) end = to;
+
+    const logs = await logRange.fetch(
+      { address: pools, topics: [[...PAIR_EVENT_TOPICS, ...V3_POOL_EVENT_TOPICS]] },
+      cursor,
+      end
+    );
+
+    const rows: LpEventRow[] = [];
+    for (const log of logs) {
+      const bn = Number(log.blockNumber);
+      if (!blockTimes.has(bn)) {
+        const b = await callRpc(() => provider.getBlock(bn), `getBlock(${bn})`);
+        blockTimes.set(bn, b ? new Date(Number(b.timestamp) * 1000) : null);
+      }
+      const row = decodePairLog(log, tokens.get(String(log.address).toLowerCase())!, blockTimes.get(bn) ?? null);
+      if (row) rows.push(row);
+    }
+
+    if (rows.length > 0) {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        await insertLpEvents(client, rows);
+        await client.query("COMMIT");
+      } catch (e) {
+        await client.query("ROLLBACK");
+        throw e;
+      } finally {
+        client.release();
+      }
+      inserted += rows.length;
+    }
+
+    console.log(`[pool-events] ${cursor} → ${end}: ${rows.length} events`);
+    if (blockTimes.size > 20_000) blockTimes.clear();
+    cursor = end + 1n;
+  }
+
+  console.log(`[pool-events] done: ${inserted} pool logs processed`);
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[pool-events] failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,19 @@
+import "dotenv/config";
+import { pool } from "../db";
+import { buildDexCandles } from "../services/dexCandles";
+
+async function main() {
+  const full = process.argv.includes("--full");
+
+  console.log(`[dex-candles] starting...${full ? " (full rebuild)" : ""}`);
+  const res = await buildDexCandles(pool, { full });
+  console.log("[dex-candles] done:", res);
+
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[dex-candles] failed:", e);
+  process.exit(1);
+});
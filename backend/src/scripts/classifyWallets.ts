@@ -0,0 +1,16 @@
+import "dotenv/config";
+import { pool } from "../db";
+import { runWalletClassifier } from "../services/walletClassifier";
+
+async function main() {
+  console.log("[wallet-classifier] starting...");
+  const res = await runWalletClassifier(pool);
+  console.log("[wallet-classifier] done:", res);
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[wallet-classifier] failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,16 @@
+import "dotenv/config";
+import { pool } from "../db";
+import { runWalletClustering } from "../services/walletClustering";
+
+async function main() {
+  console.log("[wallet-clusters] starting...");
+  const res = await runWalletClustering(pool);
+  console.log("[wallet-clusters] done:", res);
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[wallet-clusters] failed:", e);
+  process.exit(1);
+});
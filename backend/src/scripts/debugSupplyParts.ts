@@ -1,5 +1,6 @@
 import "dotenv/config";
 import { ethers } from "ethers";
+import { provider } from "../clients/bscClient";
 
 const ERC20_ABI = [
   "function decimals() view returns (uint8)",
@@ -14,9 +15,6 @@ function mustAddr(label: string, v?: string) {
 }
 
 async function main() {
-  const rpcUrl = (process.env.BSC_RPC_URL || "").trim();
-  if (!rpcUrl) throw new Error("Missing BSC_RPC_URL");
-
   const tokenAddress = mustAddr("BC400_TOKEN_ADDRESS", process.env.BC400_TOKEN_ADDRESS);
   const pairAddress = mustAddr("BC400_PAIR_ADDRESS", process.env.BC400_PAIR_ADDRESS);
 
@@ -26,7 +24,6 @@ async function main() {
   const burnDead = "0x000000000000000000000000000000000000dEaD";
   const zeroAddr = "0x0000000000000000000000000000000000000000";
 
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
   const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
 
   const decimals: number = Number(await token.decimals());
@@ -0,0 +1,22 @@
+import "dotenv/config";
+import { pool } from "../db";
+import { refreshDexPools } from "../services/dexPools";
+
+async function main() {
+  console.log("[dex-pools] starting...");
+  const res = await refreshDexPools(pool);
+  for (const p of res.pools) {
+    const fee = p.fee === null ? "" : ` fee=${p.fee}`;
+    const usd = p.liquidityUsd === null ? "n/a" : `$${p.liquidityUsd.toFixed(2)}`;
+    console.log(`[dex-pools] ${p.dex} ${p.quote}${fee} ${p.pool} liquidity=${usd}`);
+  }
+  console.log(`[dex-pools] done: ${res.pools.length} pool(s) at block ${res.blockNumber}`);
+
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[dex-pools] failed:", e);
+  process.exit(1);
+});
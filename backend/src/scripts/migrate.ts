@@ -0,0 +1,65 @@
+import "dotenv/config";
+import { pool } from "../db";
+import { getMigrationStatus, runMigrations } from "../migrations/runner";
+import { checkSchemaDrift } from "../migrations/expectedSchema";
+
+// usage: migrate [up|status|check]
+//   up     apply pending sql/migrations/*.sql in order (default)
+//   status list applied / pending migrations
+//   check  pending migrations + live columns vs. what the code expects (exit 1 on drift)
+const MODE = (process.argv[2] || "up").toLowerCase();
+
+async function printStatus() {
+  const status = await getMigrationStatus(pool);
+  console.table(
+    status.map((s) => ({
+      version: s.version,
+      state: s.missingFile ? "applied (file missing)" : s.applied ? "applied" : "pending",
+      appliedAt: s.appliedAt,
+      checksumChanged: s.checksumChanged || undefined,
+    }))
+  );
+  return status;
+}
+
+async function main() {
+  if (MODE === "up") {
+    const applied = await runMigrations(pool);
+    console.log(applied.length ? `[migrate] applied ${applied.length} migration(s)` : "[migrate] up to date");
+    return;
+  }
+
+  if (MODE === "status") {
+    await printStatus();
+    return;
+  }
+
+  if (MODE === "check") {
+    const status = await printStatus();
+    const pending = status.filter((s) => !s.applied);
+    const changed = status.filter((s) => s.checksumChanged);
+    const drift = await checkSchemaDrift(pool);
+
+    if (pending.length) console.warn(`⚠️ ${pending.length} pending migration(s):`, pending.map((s) => s.version));
+    if (changed.length) console.warn(`⚠️ applied migration(s) edited since:`, changed.map((s) => s.version));
+    if (drift.missingTables.length) console.warn("❌ missing tables:", drift.missingTables);
+    if (drift.missingColumns.length) {
+      console.warn("❌ missing columns:");
+      console.table(drift.missingColumns);
+    }
+
+    const bad = pending.length > 0 || drift.missingTables.length > 0 || drift.missingColumns.length > 0;
+    if (!bad) console.log("✅ schema matches what the code expects");
+    process.exitCode = bad ? 1 : 0;
+    return;
+  }
+
+  throw new Error(`Unknown mode "${MODE}" (expected up | status | check)`);
+}
+
+main()
+  .catch((e) => {
+    console.error("[migrate] failed:", e);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
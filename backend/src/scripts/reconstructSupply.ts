@@ -0,0 +1,50 @@
+import "dotenv/config";
+import { pool } from "../db";
+import { getReconstructionBounds, reconstructSupplySnapshots } from "../services/supplyReconstruction";
+import { parseInterval } from "../utils/seriesWindow";
+
+// --from=<ISO> --to=<ISO> --step=1d --mode=auto|archive|replay --overwrite
+function arg(name: string) {
+  const hit = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return hit ? hit.slice(name.length + 3) : "";
+}
+
+async function main() {
+  const step = arg("step") || "1d";
+  const stepSeconds = parseInterval(step);
+  if (!stepSeconds) throw new Error(`invalid --step (e.g. 1h, 6h, 1d): ${step}`);
+
+  const mode = (arg("mode") || "auto") as "auto" | "archive" | "replay";
+  if (!["auto", "archive", "replay"].includes(mode)) throw new Error(`invalid --mode: ${mode}`);
+
+  // defaults: from the first indexed transfer up to the first live snapshot
+  const bounds = await getReconstructionBounds(pool);
+  const from = arg("from") ? new Date(arg("from")) : bounds.firstLedger;
+  const to = arg("to") ? new Date(arg("to")) : (bounds.firstLive ?? new Date());
+  if (!from || Number.isNaN(from.getTime())) throw new Error("no --from and nothing indexed yet");
+  if (Number.isNaN(to.getTime())) throw new Error(`invalid --to: ${arg("to")}`);
+
+  // align to the step so reconstructed points land on bucket boundaries
+  const alignedFrom = new Date(Math.ceil(from.getTime() / (stepSeconds * 1000)) * stepSeconds * 1000);
+
+  console.log(
+    `[supply-reconstruct] starting... from=${alignedFrom.toISOString()} to=${to.toISOString()} step=${step} mode=${mode}`
+  );
+
+  const res = await reconstructSupplySnapshots(pool, {
+    from: alignedFrom,
+    to,
+    stepSeconds,
+    mode,
+    overwrite: process.argv.includes("--overwrite"),
+  });
+  console.log("[supply-reconstruct] done:", res);
+
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[supply-reconstruct] failed:", e);
+  process.exit(1);
+});
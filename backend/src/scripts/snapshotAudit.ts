@@ -0,0 +1,21 @@
+import "dotenv/config";
+import { pool } from "../db";
+import { writeAuditSnapshot } from "../services/auditSnapshots";
+
+async function main() {
+  const force = process.argv.includes("--force");
+
+  console.log(`[audit-snapshot] starting...${force ? " (force)" : ""}`);
+  const res = await writeAuditSnapshot(pool, { force });
+
+  if (!res.inserted) console.log(`[audit-snapshot] skipped date=${res.date}:`, res.reason);
+  else console.log("[audit-snapshot] stored:", res);
+
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[audit-snapshot] failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,19 @@
+import "dotenv/config";
+import { pool } from "../db";
+import { insertConcentrationSnapshot } from "../services/concentrationSnapshots";
+
+async function main() {
+  console.log("[concentration-snapshot] starting...");
+  const res = await insertConcentrationSnapshot(pool);
+
+  if (!res.inserted) console.log(`[concentration-snapshot] skipped ts=${res.ts.toISOString()}:`, res.reason);
+  else console.log("[concentration-snapshot] stored:", res);
+
+  await pool.end();
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[concentration-snapshot] failed:", e);
+  process.exit(1);
+});
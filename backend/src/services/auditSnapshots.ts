@@ -0,0 +1,362 @@
+import type { Pool, PoolClient } from "pg";
+import { buildDailyAudit } from "./dailyAudit";
+
+type Db = Pool | PoolClient;
+
+function addrOrEmpty(v?: string) {
+  const val = (v ?? "").trim().toLowerCase();
+  return /^0x[a-f0-9]{40}$/.test(val) ? val : "";
+}
+
+function rawOrNull(v: any): string | null {
+  if (v === null || v === undefined) return null;
+  const s = String(v).trim();
+  return /^-?\d+$/.test(s) ? s : null;
+}
+
+function numOrNull(v: any): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** UTC calendar day (YYYY-MM-DD) of a Date */
+export function utcDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+export type AuditSnapshotResult = {
+  inserted: boolean;
+  date: string;
+  reason?: string;
+  riskScore?: number | null;
+};
+
+export type AuditSnapshotRow = {
+  id: string;
+  snapshot_date: string;
+  snapshot_time: string;
+  token_address: string;
+  last_indexed_block: string | null;
+  last_indexed_time: string | null;
+  total_supply_raw: string | null;
+  burned_raw: string | null;
+  locked_raw: string | null;
+  lp_raw: string | null;
+  treasury_raw: string | null;
+  circulating_raw: string | null;
+  top10_raw: string | null;
+  top20_raw: string | null;
+  effective_top10_pct: string | null;
+  raw_top10_of_top20_pct: string | null;
+  transfers_24h: string | null;
+  active_wallets_24h: string | null;
+  pair_address: string | null;
+  price_usd: string | null;
+  marketcap_usd: string | null;
+  risk_score: number | null;
+  risk_label: string | null;
+  risk_notes: string[];
+  report: any | null;
+};
+
+const SNAPSHOT_COLUMNS = `
+  id::text AS id,
+  snapshot_date::text AS snapshot_date,
+  snapshot_time::text AS snapshot_time,
+  token_address,
+  last_indexed_block::text AS last_indexed_block,
+  last_indexed_time::text AS last_indexed_time,
+  total_supply_raw::text AS total_supply_raw,
+  burned_raw::text AS burned_raw,
+  locked_raw::text AS locked_raw,
+  lp_raw::text AS lp_raw,
+  treasury_raw::text AS treasury_raw,
+  circulating_raw::text AS circulating_raw,
+  top10_raw::text AS top10_raw,
+  top20_raw::text AS top20_raw,
+  effective_top10_pct::text AS effective_top10_pct,
+  raw_top10_of_top20_pct::text AS raw_top10_of_top20_pct,
+  transfers_24h::text AS transfers_24h,
+  active_wallets_24h::text AS active_wallets_24h,
+  pair_address,
+  price_usd::text AS price_usd,
+  marketcap_usd::text AS marketcap_usd,
+  risk_score,
+  risk_label,
+  risk_notes
+`;
+
+/**
+ * Compute today's /daily-audit bundle and store it as the day's audit_snapshots row.
+ * One row per token per UTC day: an existing row is kept unless `force` is set.
+ */
+export async function writeAuditSnapshot(pool: Pool, opts: { force?: boolean } = {}): Promise<AuditSnapshotResult> {
+  const token = addrOrEmpty(process.env.BC400_TOKEN_ADDRESS);
+  if (!token) throw new Error(`Missing/invalid BC400_TOKEN_ADDRESS: "${process.env.BC400_TOKEN_ADDRESS ?? ""}"`);
+
+  const now = new Date();
+  const date = utcDate(now);
+
+  if (!opts.force) {
+    const existing = await pool.query(
+      `SELECT 1 FROM public.audit_snapshots WHERE token_address = $1 AND snapshot_date = $2::date`,
+      [token, date]
+    );
+    if ((existing.rowCount ?? 0) > 0) return { inserted: false, date, reason: "already_exists" };
+  }
+
+  const daily = await buildDailyAudit(pool);
+
+  const pair = addrOrEmpty(process.env.BC400_PAIR_ADDRESS);
+  const treasury = addrOrEmpty(process.env.BC400_TREASURY_WALLET);
+
+  let treasuryRaw: string | null = null;
+  if (treasury) {
+    const t = await pool.query<{ balance_raw: string }>(
+      `
+      SELECT hb.balance_raw::text AS balance_raw
+      FROM public.holder_balances hb
+      JOIN public.addresses a ON a.id = hb.address_id
+      WHERE a.address = $1
+      `,
+      [treasury]
+    );
+    treasuryRaw = t.rows[0]?.balance_raw ?? "0";
+  }
+
+  const top10Raw = rawOrNull(daily?.holders?.top10?.sumRaw);
+  const top20Raw = rawOrNull(daily?.holders?.top20?.sumRaw);
+  const top10OfTop20Pct =
+    top10Raw && top20Raw && BigInt(top20Raw) > 0n
+      ? Number((BigInt(top10Raw) * 1000000n) / BigInt(top20Raw)) / 10000
+      : null;
+
+  const risk = daily?.risk?.latest ?? null;
+
+  const res = await pool.query(
+    `
+    INSERT INTO public.audit_snapshots (
+      snapshot_date, snapshot_time, chain, token_address,
+      last_indexed_block, last_indexed_time,
+      total_supply_raw, burned_raw, locked_raw, lp_raw, treasury_raw, circulating_raw,
+      top10_raw, top20_raw, effective_top10_pct, raw_top10_of_top20_pct,
+      transfers_24h, active_wallets_24h,
+      dex, pair_address, price_usd, marketcap_usd,
+      risk_score, risk_label, risk_notes, report
+    )
+    VALUES (
+      $1::date, $2, 'bsc', $3,
+      $4, $5,
+      $6, $7, $8, $9, $10, $11,
+      $12, $13, $14, $15,
+      $16, $17,
+      $18, $19, $20, $21,
+      $22, $23, $24::jsonb, $25::jsonb
+    )
+    ON CONFLICT (token_address, snapshot_date) DO ${
+      opts.force
+        ? `UPDATE SET
+      snapshot_time          = EXCLUDED.snapshot_time,
+      last_indexed_block     = EXCLUDED.last_indexed_block,
+      last_indexed_time      = EXCLUDED.last_indexed_time,
+      total_supply_raw       = EXCLUDED.total_supply_raw,
+      burned_raw             = EXCLUDED.burned_raw,
+      locked_raw             = EXCLUDED.locked_raw,
+      lp_raw                 = EXCLUDED.lp_raw,
+      treasury_raw           = EXCLUDED.treasury_raw,
+      circulating_raw        = EXCLUDED.circulating_raw,
+      top10_raw              = EXCLUDED.top10_raw,
+      top20_raw              = EXCLUDED.top20_raw,
+      effective_top10_pct    = EXCLUDED.effective_top10_pct,
+      raw_top10_of_top20_pct = EXCLUDED.raw_top10_of_top20_pct,
+      transfers_24h          = EXCLUDED.transfers_24h,
+      active_wallets_24h     = EXCLUDED.active_wallets_24h,
+      dex                    = EXCLUDED.dex,
+      pair_address           = EXCLUDED.pair_address,
+      price_usd              = EXCLUDED.price_usd,
+      marketcap_usd          = EXCLUDED.marketcap_usd,
+      risk_score             = EXCLUDED.risk_score,
+      risk_label             = EXCLUDED.risk_label,
+      risk_notes             = EXCLUDED.risk_notes,
+      report                 = EXCLUDED.report`
+        : "NOTHING"
+    }
+    `,
+    [
+      date,
+      now,
+      token,
+      numOrNull(daily?.chain?.lastIndexedBlock),
+      daily?.chain?.lastIndexedTime ?? null,
+      rawOrNull(daily?.supply?.totalSupplyRaw),
+      rawOrNull(daily?.supply?.burnedRaw),
+      rawOrNull(daily?.supply?.lockedRaw),
+      rawOrNull(daily?.supply?.lpRaw),
+      treasuryRaw,
+      rawOrNull(daily?.supply?.circulatingRaw),
+      top10Raw,
+      top20Raw,
+      numOrNull(daily?.concentrationAdjusted?.top10PctOfTrueCirculating),
+      top10OfTop20Pct,
+      numOrNull(daily?.transfers?.txs24h),
+      numOrNull(daily?.transfers?.activeWallets24h),
+      pair ? "pancakeswap_v2" : null,
+      pair || null,
+      numOrNull(daily?.supply?.priceUsd),
+      numOrNull(daily?.supply?.marketCapUsd),
+      numOrNull(risk?.score),
+      risk?.band ?? null,
+      JSON.stringify(risk?.reasons ?? []),
+      JSON.stringify(daily),
+    ]
+  );
+
+  if ((res.rowCount ?? 0) === 0) return { inserted: false, date, reason: "already_exists" };
+  return { inserted: true, date, riskScore: numOrNull(risk?.score) };
+}
+
+export async function listAuditSnapshots(
+  db: Db,
+  filter: { from?: string; to?: string; limit: number }
+): Promise<AuditSnapshotRow[]> {
+  const token = addrOrEmpty(process.env.BC400_TOKEN_ADDRESS);
+
+  const res = await db.query<AuditSnapshotRow>(
+    `
+    SELECT ${SNAPSHOT_COLUMNS}, NULL::jsonb AS report
+    FROM public.audit_snapshots
+    WHERE snapshot_date IS NOT NULL
+      AND ($1 = '' OR token_address = $1)
+      AND ($2::date IS NULL OR snapshot_date >= $2::date)
+      AND ($3::date IS NULL OR snapshot_date <= $3::date)
+    ORDER BY snapshot_date DESC
+    LIMIT $4
+    `,
+    [token, filter.from ?? null, filter.to ?? null, filter.limit]
+  );
+  return res.rows;
+}
+
+export async function getAuditSnapshot(db: Db, date: string): Promise<AuditSnapshotRow | null> {
+  const token = addrOrEmpty(process.env.BC400_TOKEN_ADDRESS);
+
+  const res = await db.query<AuditSnapshotRow>(
+    `
+    SELECT ${SNAPSHOT_COLUMNS}, report
+    FROM public.audit_snapshots
+    WHERE snapshot_date = $2::date
+      AND ($1 = '' OR token_address = $1)
+    ORDER BY snapshot_time DESC
+    LIMIT 1
+    `,
+    [token, date]
+  );
+  return res.rows[0] ?? null;
+}
+
+/** Latest snapshot date, or the latest one strictly before `before`. */
+export async function getLatestSnapshotDate(db: Db, before?: string): Promise<string | null> {
+  const token = addrOrEmpty(process.env.BC400_TOKEN_ADDRESS);
+
+  const res = await db.query<{ snapshot_date: string }>(
+    `
+    SELECT snapshot_date::text AS snapshot_date
+    FROM public.audit_snapshots
+    WHERE snapshot_date IS NOT NULL
+      AND ($1 = '' OR token_address = $1)
+      AND ($2::date IS NULL OR snapshot_date < $2::date)
+    ORDER BY snapshot_date DESC
+    LIMIT 1
+    `,
+    [token, before ?? null]
+  );
+  return res.rows[0]?.snapshot_date ?? null;
+}
+
+type Top20Entry = { rank: number; address: string; balanceRaw: string };
+
+function rawDelta(a: string | null, b: string | null) {
+  return {
+    from: a,
+    to: b,
+    delta: a !== null && b !== null ? (BigInt(b) - BigInt(a)).toString() : null,
+  };
+}
+
+function numDelta(a: number | null, b: number | null) {
+  return {
+    from: a,
+    to: b,
+    delta: a !== null && b !== null ? b - a : null,
+  };
+}
+
+// risk reasons embed the current figures ("High top-10 concentration (61.20%)"); compare them without numbers
+function reasonKey(r: string) {
+  return r.replace(/[\d][\d.,]*/g, "#");
+}
+
+function top20Of(row: AuditSnapshotRow): Top20Entry[] | null {
+  const list = row.report?.holders?.top20?.holders;
+  if (!Array.isArray(list)) return null;
+  return list.map((h: any) => ({
+    rank: Number(h.rank),
+    address: String(h.address).toLowerCase(),
+    balanceRaw: String(h.balanceRaw ?? "0"),
+  }));
+}
+
+/** Day-over-day changes between two stored audits (`a` older, `b` newer). */
+export function diffAuditSnapshots(a: AuditSnapshotRow, b: AuditSnapshotRow) {
+  const reasonsA: string[] = a.risk_notes ?? [];
+  const reasonsB: string[] = b.risk_notes ?? [];
+  const keysA = new Set(reasonsA.map(reasonKey));
+  const keysB = new Set(reasonsB.map(reasonKey));
+
+  const topA = top20Of(a);
+  const topB = top20Of(b);
+  const setA = new Set((topA ?? []).map((h) => h.address));
+  const setB = new Set((topB ?? []).map((h) => h.address));
+
+  return {
+    from: { date: a.snapshot_date, snapshotTime: a.snapshot_time },
+    to: { date: b.snapshot_date, snapshotTime: b.snapshot_time },
+
+    supply: {
+      totalSupplyRaw: rawDelta(a.total_supply_raw, b.total_supply_raw),
+      burnedRaw: rawDelta(a.burned_raw, b.burned_raw),
+      lpRaw: rawDelta(a.lp_raw, b.lp_raw),
+      lockedRaw: rawDelta(a.locked_raw, b.locked_raw),
+      circulatingRaw: rawDelta(a.circulating_raw, b.circulating_raw),
+    },
+
+    concentration: {
+      top10PctOfTrueCirculating: numDelta(numOrNull(a.effective_top10_pct), numOrNull(b.effective_top10_pct)),
+      effectiveHolders: numDelta(
+        numOrNull(a.report?.concentrationAdjusted?.effectiveHolders),
+        numOrNull(b.report?.concentrationAdjusted?.effectiveHolders)
+      ),
+    },
+
+    activity: {
+      transfers24h: numDelta(numOrNull(a.transfers_24h), numOrNull(b.transfers_24h)),
+      activeWallets24h: numDelta(numOrNull(a.active_wallets_24h), numOrNull(b.active_wallets_24h)),
+    },
+
+    risk: {
+      score: numDelta(a.risk_score, b.risk_score),
+      label: { from: a.risk_label, to: b.risk_label, changed: a.risk_label !== b.risk_label },
+      reasonsAdded: reasonsB.filter((r) => !keysA.has(reasonKey(r))),
+      reasonsRemoved: reasonsA.filter((r) => !keysB.has(reasonKey(r))),
+      reasonsUnchanged: reasonsB.filter((r) => keysA.has(reasonKey(r))),
+    },
+
+    // null lists = one of the reports predates holder lists in snapshots
+    top20: {
+      available: topA !== null && topB !== null,
+      entered: topA && topB ? topB.filter((h) => !setA.has(h.address)) : null,
+      left: topA && topB ? topA.filter((h) => !setB.has(h.address)) : null,
+    },
+  };
+}
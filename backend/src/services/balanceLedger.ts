@@ -0,0 +1,235 @@
+import type { Pool, PoolClient } from "pg";
+import type { InsertedTransfer } from "./holderBalances";
+
+type Db = Pool | PoolClient;
+
+/**
+ * Append balance_changes rows (one per address leg) for newly inserted transfers.
+ * Call in the same transaction as the transfers INSERT, like applyTransferDeltas.
+ */
+export async function appendBalanceChanges(client: PoolClient, inserted: InsertedTransfer[]): Promise<void> {
+  if (inserted.length === 0) return;
+
+  const addressId: number[] = [];
+  const blockNumber: string[] = [];
+  const blockTime: (Date | string | null)[] = [];
+  const txHash: string[] = [];
+  const logIndex: number[] = [];
+  const delta: string[] = [];
+
+  const push = (id: number, t: InsertedTransfer, d: bigint) => {
+    addressId.push(id);
+    blockNumber.push(String(t.block_number));
+    blockTime.push(t.block_time);
+    txHash.push(t.tx_hash);
+    logIndex.push(Number(t.log_index));
+    delta.push(d.toString());
+  };
+
+  for (const t of inserted) {
+    const amount = BigInt(t.raw_amount);
+    if (t.from_address_id === t.to_address_id) {
+      push(t.to_address_id, t, 0n);
+    } else {
+      push(t.to_address_id, t, amount);
+      push(t.from_address_id, t, -amount);
+    }
+  }
+
+  await client.query(
+    `
+    INSERT INTO balance_changes (address_id, block_number, block_time, tx_hash, log_index, delta_raw)
+    SELECT * FROM UNNEST(
+      $1::bigint[],
+      $2::bigint[],
+      $3::timestamptz[],
+      $4::text[],
+      $5::int[],
+      $6::numeric[]
+    )
+    ON CONFLICT DO NOTHING
+    `,
+    [addressId, blockNumber, blockTime, txHash, logIndex, delta]
+  );
+}
+
+export type AsOf = {
+  blockNumber: number;
+  blockTime: string | null;
+  requestedBlock: number | null;
+  requestedTimestamp: string | null;
+};
+
+/**
+ * Resolve ?block= / ?timestamp= to the ledger block to read up to.
+ * A timestamp maps to the last indexed block at or before it.
+ * Returns null if nothing is indexed at/before the requested point.
+ */
+export async function resolveAsOf(
+  db: Db,
+  opts: { block?: bigint | null; timestamp?: Date | null }
+): Promise<AsOf | null> {
+  if (opts.block !== null && opts.block !== undefined) {
+    const r = await db.query<{ block_time: string | null }>(
+      `
+      SELECT block_time::text AS block_time
+      FROM balance_changes
+      WHERE block_number <= $1
+      ORDER BY block_number DESC
+      LIMIT 1
+      `,
+      [opts.block.toString()]
+    );
+    return {
+      blockNumber: Number(opts.block),
+      blockTime: r.rows[0]?.block_time ?? null,
+      requestedBlock: Number(opts.block),
+      requestedTimestamp: null,
+    };
+  }
+
+  if (opts.timestamp) {
+    const r = await db.query<{ block_number: string; block_time: string | null }>(
+      `
+      SELECT block_number::text AS block_number, block_time::text AS block_time
+      FROM balance_changes
+      WHERE block_time <= $1
+      ORDER BY block_time DESC, block_number DESC
+      LIMIT 1
+      `,
+      [opts.timestamp]
+    );
+    const row = r.rows[0];
+    if (!row) return null;
+    return {
+      blockNumber: Number(row.block_number),
+      blockTime: row.block_time,
+      requestedBlock: null,
+      requestedTimestamp: opts.timestamp.toISOString(),
+    };
+  }
+
+  return null;
+}
+
+export type HolderAsOfRow = {
+  rank: string | null;
+  address_id: number;
+  address: string;
+  balance_raw: string;
+  balance_bc400: string;
+  tx_count: number;
+  tags: string | null;
+  first_seen: string | null;
+  last_seen: string | null;
+  last_block_number: string | null;
+  last_block_time: string | null;
+  last_tx_hash: string | null;
+};
+
+/**
+ * Top holders by balance at `block` (inclusive), summed from balance_changes.
+ * Tags are the address's wallet_labels (identity, not point-in-time), never today's holder_balances row.
+ */
+export async function getTopHoldersAsOf(db: Db, block: number, limit: number): Promise<HolderAsOfRow[]> {
+  const res = await db.query<HolderAsOfRow>(
+    `
+    WITH agg AS (
+      SELECT
+        address_id,
+        SUM(delta_raw)  AS balance_raw,
+        COUNT(*)::int   AS tx_count,
+        MIN(block_time) AS first_seen,
+        MAX(block_time) AS last_seen
+      FROM balance_changes
+      WHERE block_number <= $1
+      GROUP BY address_id
+      HAVING SUM(delta_raw) > 0
+    ),
+    ranked AS (
+      SELECT agg.*, ROW_NUMBER() OVER (ORDER BY balance_raw DESC, address_id) AS rank
+      FROM agg
+    )
+    SELECT
+      r.rank::text AS rank,
+      r.address_id,
+      a.address,
+      r.balance_raw::text AS balance_raw,
+      (r.balance_raw / 1e9::numeric)::text AS balance_bc400,
+      r.tx_count,
+      (SELECT string_agg(wl.label, ',' ORDER BY wl.label) FROM wallet_labels wl WHERE wl.address_id = a.id) AS tags,
+      r.first_seen::text AS first_seen,
+      r.last_seen::text AS last_seen,
+      l.block_number::text AS last_block_number,
+      l.block_time::text AS last_block_time,
+      l.tx_hash AS last_tx_hash
+    FROM ranked r
+    JOIN addresses a ON a.id = r.address_id
+    LEFT JOIN LATERAL (
+      SELECT c.tx_hash, c.block_number, c.block_time
+      FROM balance_changes c
+      WHERE c.address_id = r.address_id AND c.block_number <= $1
+      ORDER BY c.block_number DESC, c.log_index DESC
+      LIMIT 1
+    ) l ON TRUE
+    WHERE r.rank <= $2
+    ORDER BY r.rank
+    `,
+    [block, limit]
+  );
+  return res.rows;
+}
+
+/**
+ * One address's balance at `block` (inclusive). Rank is among holders with a
+ * positive balance at that block (null when the address held nothing).
+ */
+export async function getHolderAsOf(db: Db, addressId: number, block: number): Promise<HolderAsOfRow | null> {
+  const res = await db.query<HolderAsOfRow>(
+    `
+    WITH own AS (
+      SELECT
+        COALESCE(SUM(delta_raw), 0) AS balance_raw,
+        COUNT(*)::int               AS tx_count,
+        MIN(block_time)             AS first_seen,
+        MAX(block_time)             AS last_seen
+      FROM balance_changes
+      WHERE address_id = $1 AND block_number <= $2
+    )
+    SELECT
+      CASE WHEN o.balance_raw > 0 THEN (
+        SELECT (COUNT(*) + 1)::text
+        FROM (
+          SELECT address_id
+          FROM balance_changes
+          WHERE block_number <= $2
+          GROUP BY address_id
+          HAVING SUM(delta_raw) > o.balance_raw
+        ) richer
+      ) END AS rank,
+      a.id AS address_id,
+      a.address,
+      o.balance_raw::text AS balance_raw,
+      (o.balance_raw / 1e9::numeric)::text AS balance_bc400,
+      o.tx_count,
+      (SELECT string_agg(wl.label, ',' ORDER BY wl.label) FROM wallet_labels wl WHERE wl.address_id = a.id) AS tags,
+      o.first_seen::text AS first_seen,
+      o.last_seen::text AS last_seen,
+      l.block_number::text AS last_block_number,
+      l.block_time::text AS last_block_time,
+      l.tx_hash AS last_tx_hash
+    FROM addresses a
+    CROSS JOIN own o
+    LEFT JOIN LATERAL (
+      SELECT c.tx_hash, c.block_number, c.block_time
+      FROM balance_changes c
+      WHERE c.address_id = a.id AND c.block_number <= $2
+      ORDER BY c.block_number DESC, c.log_index DESC
+      LIMIT 1
+    ) l ON TRUE
+    WHERE a.id = $1
+    `,
+    [addressId, block]
+  );
+  return res.rows[0] ?? null;
+}
@@ -0,0 +1,158 @@
+import type { Pool } from "pg";
+import { computeRisk } from "../analytics/risk";
+import {
+  concentrationMetrics,
+  getTopBalances,
+  getTopEntities,
+  investorExcludedAddresses,
+} from "./entityConcentration";
+
+function toBigIntSafe(input: any): bigint {
+  const s = String(input ?? "").trim().replace(/,/g, "");
+  if (!/^-?\d+$/.test(s)) return 0n;
+  try {
+    return BigInt(s);
+  } catch {
+    return 0n;
+  }
+}
+
+function pctOf(numer: bigint, denom: bigint): number | null {
+  return denom > 0n ? Number((numer * 1000000n) / denom) / 10000 : null;
+}
+
+// table CHECKs: 0..100
+function clampPct(n: number | null) {
+  return n === null || !Number.isFinite(n) ? 0 : Math.max(0, Math.min(100, n));
+}
+
+// concentration_snapshots.risk_level only knows LOW / MEDIUM / HIGH / UNKNOWN
+function riskLevel(band: string | undefined) {
+  if (band === "LOW") return "LOW";
+  if (band === "MODERATE") return "MEDIUM";
+  if (band === "HIGH" || band === "CRITICAL") return "HIGH";
+  return "UNKNOWN";
+}
+
+export type ConcentrationSnapshotResult = {
+  inserted: boolean;
+  ts: Date;
+  reason?: string;
+  top10PctCirculating?: number | null;
+  riskScore?: number;
+};
+
+/**
+ * Compute the investor-adjusted concentration figures (same exclusions and math as
+ * /investor/adjusted) and insert one concentration_snapshots row.
+ */
+export async function insertConcentrationSnapshot(pool: Pool): Promise<ConcentrationSnapshotResult> {
+  const token = String(process.env.BC400_TOKEN_ADDRESS || "").trim();
+  const ts = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+  const snapQ = await pool.query<{
+    ts: string;
+    total_supply_raw: string;
+    circulating_raw: string;
+    burned_raw: string;
+    lp_raw: string;
+    locked_raw: string;
+  }>(
+    `
+    SELECT ts::text AS ts, total_supply_raw::text AS total_supply_raw, circulating_raw::text AS circulating_raw,
+           burned_raw::text AS burned_raw, lp_raw::text AS lp_raw, locked_raw::text AS locked_raw
+    FROM public.supply_snapshots
+    WHERE token_address = $1
+    ORDER BY ts DESC
+    LIMIT 1
+    `,
+    [token]
+  );
+  if (snapQ.rowCount === 0) return { inserted: false, ts, reason: "no_supply_snapshot" };
+
+  const snap = snapQ.rows[0];
+  const totalSupplyRaw = toBigIntSafe(snap.total_supply_raw);
+  const trueCirculatingRaw = toBigIntSafe(snap.circulating_raw);
+  if (trueCirculatingRaw <= 0n) return { inserted: false, ts, reason: "circulating_raw <= 0" };
+
+  const excluded = investorExcludedAddresses();
+
+  // raw: plain top 10 of holder_balances vs total supply
+  const top10All = await getTopBalances(pool, [], 10);
+  const top10TotalRaw = top10All.reduce((acc, x) => acc + x, 0n);
+
+  // adjusted: exclusions + true circulating, per address and merged by cluster / label group
+  const top20 = await getTopBalances(pool, excluded, 20);
+  const top10CircRaw = top20.slice(0, 10).reduce((acc, x) => acc + x, 0n);
+  const perAddress = concentrationMetrics(top20, trueCirculatingRaw);
+
+  const entities = await getTopEntities(pool, excluded, 20);
+  const merged = concentrationMetrics(
+    entities.map((e) => e.balanceRaw),
+    trueCirculatingRaw
+  );
+
+  const activity = await pool.query<{ txs_24h: string; active_wallets_24h: string }>(
+    `
+    SELECT
+      COUNT(*)::text AS txs_24h,
+      (SELECT COUNT(DISTINCT x.id)::text FROM (
+        SELECT from_address_id AS id FROM public.transfers WHERE block_time >= NOW() - INTERVAL '24 hours'
+        UNION
+        SELECT to_address_id FROM public.transfers WHERE block_time >= NOW() - INTERVAL '24 hours'
+      ) x) AS active_wallets_24h
+    FROM public.transfers
+    WHERE block_time >= NOW() - INTERVAL '24 hours'
+    `
+  );
+
+  const risk = computeRisk({
+    top10PctTrue: perAddress.top10PctOfTrueCirculating,
+    effectiveConcentrationPct: perAddress.effectiveConcentrationPct,
+    effectiveHolders: perAddress.effectiveHolders,
+    transfers24h: Number(activity.rows[0]?.txs_24h ?? 0),
+    activeWallets24h: Number(activity.rows[0]?.active_wallets_24h ?? 0),
+  });
+
+  const components = {
+    supplySnapshotTs: snap.ts,
+    trueCirculatingRaw: trueCirculatingRaw.toString(),
+    burnedPct: pctOf(toBigIntSafe(snap.burned_raw), totalSupplyRaw),
+    lpPct: pctOf(toBigIntSafe(snap.lp_raw), totalSupplyRaw),
+    lockedPct: pctOf(toBigIntSafe(snap.locked_raw), totalSupplyRaw),
+    effectiveHolders: perAddress.effectiveHolders,
+    merged,
+    riskBand: risk.band,
+    excluded,
+  };
+
+  const ins = await pool.query(
+    `
+    INSERT INTO public.concentration_snapshots (
+      ts,
+      top10_pct_total, top10_value_total_raw,
+      top10_pct_circulating, top10_value_circulating_raw,
+      effective_concentration_pct,
+      risk_score, risk_level,
+      explanation, components
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10::jsonb)
+    ON CONFLICT (ts) DO NOTHING
+    `,
+    [
+      ts,
+      clampPct(pctOf(top10TotalRaw, totalSupplyRaw)),
+      top10TotalRaw.toString(),
+      clampPct(perAddress.top10PctOfTrueCirculating),
+      top10CircRaw.toString(),
+      clampPct(perAddress.effectiveConcentrationPct),
+      risk.score,
+      riskLevel(risk.band),
+      risk.reasons.join(" "),
+      JSON.stringify(components),
+    ]
+  );
+
+  if ((ins.rowCount ?? 0) === 0) return { inserted: false, ts, reason: "duplicate_ts" };
+  return { inserted: true, ts, top10PctCirculating: perAddress.top10PctOfTrueCirculating, riskScore: risk.score };
+}
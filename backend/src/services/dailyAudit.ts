@@ -0,0 +1,474 @@
+import type { Pool } from "pg";
+import { computeRiskFromDailyAudit } from "../analytics/risk";
+import { ENTITY_LABEL_GROUPS } from "./entityConcentration";
+
+const DAILY_AUDIT_SQL = `
+WITH
+one_row AS (SELECT 1 AS one),
+
+latest_supply AS (
+  SELECT
+    ts,
+    total_supply_raw,
+    burned_raw,
+    lp_raw,
+    locked_raw,
+    circulating_raw,
+    price_usd,
+    marketcap_usd AS fdv_usd,
+    metadata,
+
+    COALESCE(NULLIF((metadata->>'decimals')::int, 0), 18) AS decimals,
+
+    -- ✅ normalize circulating into raw units if it looks human-sized
+    CASE
+      WHEN circulating_raw IS NULL THEN NULL
+      WHEN circulating_raw < 1000000000000000000 THEN
+        (circulating_raw::numeric * (10::numeric ^ COALESCE(NULLIF((metadata->>'decimals')::int, 0), 18)))
+      ELSE
+        circulating_raw::numeric
+    END AS circulating_raw_norm,
+
+    CASE
+      WHEN circulating_raw IS NULL THEN NULL
+      ELSE (circulating_raw::numeric / (10::numeric ^ COALESCE(NULLIF((metadata->>'decimals')::int, 0), 18)))
+    END AS circulating_supply,
+
+    CASE
+      WHEN total_supply_raw IS NULL THEN NULL
+      ELSE (total_supply_raw::numeric / (10::numeric ^ COALESCE(NULLIF((metadata->>'decimals')::int, 0), 18)))
+    END AS total_supply,
+
+    CASE
+      WHEN price_usd IS NULL OR price_usd <= 0 THEN NULL
+      WHEN circulating_raw IS NULL OR circulating_raw <= 0 THEN NULL
+      ELSE price_usd * (circulating_raw::numeric / (10::numeric ^ COALESCE(NULLIF((metadata->>'decimals')::int, 0), 18)))
+    END AS marketcap_circulating_usd
+
+  FROM public.supply_snapshots
+  ORDER BY ts DESC
+  LIMIT 1
+),
+
+last_chain AS (
+  SELECT
+    MAX(block_number) AS last_indexed_block,
+    MAX(block_time)   AS last_indexed_time
+  FROM public.transfers
+),
+
+transfer_window AS (
+  SELECT
+    NOW() AS now_ts,
+    NOW() - INTERVAL '24 hours' AS window_start,
+
+    COUNT(*) FILTER (WHERE t.block_time >= NOW() - INTERVAL '24 hours') AS txs_24h,
+    COUNT(*) FILTER (WHERE t.block_time >= NOW() - INTERVAL '6 hours')  AS txs_6h,
+    COUNT(*) FILTER (WHERE t.block_time >= NOW() - INTERVAL '1 hour')   AS txs_1h,
+
+    (
+      SELECT COUNT(DISTINCT x.addr_id)
+      FROM (
+        SELECT from_address_id AS addr_id
+        FROM public.transfers
+        WHERE block_time >= NOW() - INTERVAL '24 hours'
+        UNION
+        SELECT to_address_id AS addr_id
+        FROM public.transfers
+        WHERE block_time >= NOW() - INTERVAL '24 hours'
+      ) x
+      WHERE x.addr_id IS NOT NULL
+    ) AS active_wallets_24h
+  FROM public.transfers t
+),
+
+top10 AS (
+  SELECT
+    COALESCE(SUM(balance_raw), 0)   AS top10_raw,
+    COALESCE(SUM(balance_bc400), 0) AS top10_bc400
+  FROM (
+    SELECT balance_raw, balance_bc400
+    FROM public.holder_balances
+    ORDER BY balance_raw DESC NULLS LAST
+    LIMIT 10
+  ) h
+),
+
+top20_holders AS (
+  SELECT
+    a.address,
+    hb.balance_raw,
+    hb.balance_bc400,
+    ROW_NUMBER() OVER (ORDER BY hb.balance_raw DESC NULLS LAST, a.address) AS rank
+  FROM public.holder_balances hb
+  JOIN public.addresses a ON a.id = hb.address_id
+  ORDER BY hb.balance_raw DESC NULLS LAST, a.address
+  LIMIT 20
+),
+
+top20 AS (
+  SELECT
+    COALESCE(SUM(balance_raw), 0)   AS top20_raw,
+    COALESCE(SUM(balance_bc400), 0) AS top20_bc400
+  FROM top20_holders
+),
+
+supply_flags AS (
+  SELECT
+    CASE WHEN ls.ts IS NULL THEN TRUE ELSE FALSE END AS supply_missing,
+    CASE
+      WHEN ls.ts IS NULL THEN FALSE
+      WHEN COALESCE(ls.total_supply_raw,0)=0
+       AND COALESCE(ls.burned_raw,0)=0
+       AND COALESCE(ls.lp_raw,0)=0
+       AND COALESCE(ls.locked_raw,0)=0
+       AND COALESCE(ls.circulating_raw,0)=0
+      THEN TRUE
+      ELSE FALSE
+    END AS supply_all_zero,
+    CASE
+      WHEN ls.ts IS NULL THEN FALSE
+      WHEN COALESCE(ls.total_supply_raw,0) > 0
+       AND COALESCE(ls.circulating_raw,0) = 0
+      THEN TRUE
+      ELSE FALSE
+    END AS supply_inconsistent
+  FROM one_row r
+  LEFT JOIN latest_supply ls ON TRUE
+),
+
+excluded_addrs AS (
+  SELECT LOWER(x.addr) AS addr
+  FROM (VALUES
+    ('0x0000000000000000000000000000000000000000'),
+    ('0x000000000000000000000000000000000000dead'),
+    (LOWER(COALESCE(current_setting('app.bc400_pair', true), ''))),
+    (LOWER(COALESCE(current_setting('app.bc400_treasury', true), ''))),
+    (LOWER(COALESCE(current_setting('app.bc400_devburn', true), '')))
+  ) x(addr)
+  WHERE x.addr ~ '^0x[0-9a-f]{40}$'
+),
+
+excluded_ids AS (
+  SELECT a.id, a.address
+  FROM public.addresses a
+  JOIN excluded_addrs e ON LOWER(a.address) = e.addr
+),
+
+excluded_balance AS (
+  SELECT COALESCE(SUM(hb.balance_raw::numeric), 0) AS excluded_raw
+  FROM public.holder_balances hb
+  JOIN excluded_ids e ON e.id = hb.address_id
+),
+
+true_circulating AS (
+  SELECT
+    GREATEST(
+      COALESCE(ls.circulating_raw_norm, 0) - (SELECT excluded_raw FROM excluded_balance),
+      0
+    ) AS true_circulating_raw
+  FROM latest_supply ls
+),
+
+top10_true AS (
+  SELECT COALESCE(SUM(hb.balance_raw::numeric), 0) AS top10_true_raw
+  FROM (
+    SELECT hb.balance_raw
+    FROM public.holder_balances hb
+    JOIN public.addresses a ON a.id = hb.address_id
+    LEFT JOIN excluded_addrs e ON LOWER(a.address) = e.addr
+    WHERE e.addr IS NULL
+    ORDER BY hb.balance_raw DESC NULLS LAST
+    LIMIT 10
+  ) hb
+),
+
+top20_true AS (
+  SELECT hb.balance_raw::numeric AS balance_raw
+  FROM public.holder_balances hb
+  JOIN public.addresses a ON a.id = hb.address_id
+  LEFT JOIN excluded_addrs e ON LOWER(a.address) = e.addr
+  WHERE e.addr IS NULL
+  ORDER BY hb.balance_raw DESC NULLS LAST
+  LIMIT 20
+),
+
+adjusted_metrics AS (
+  SELECT
+    (SELECT true_circulating_raw FROM true_circulating) AS true_circulating_raw,
+
+    CASE
+      WHEN (SELECT true_circulating_raw FROM true_circulating) = 0 THEN NULL
+      ELSE ((SELECT top10_true_raw FROM top10_true) / (SELECT true_circulating_raw FROM true_circulating)) * 100
+    END AS top10_pct_true_circulating,
+
+    CASE
+      WHEN (SELECT true_circulating_raw FROM true_circulating) = 0 THEN NULL
+      ELSE (
+        SELECT SUM(POWER((t.balance_raw / (SELECT true_circulating_raw FROM true_circulating)), 2))
+        FROM top20_true t
+      )
+    END AS hhi_true
+),
+
+adjusted_effective AS (
+  SELECT
+    true_circulating_raw,
+    top10_pct_true_circulating,
+    hhi_true,
+    CASE WHEN hhi_true IS NULL OR hhi_true = 0 THEN NULL ELSE (1 / hhi_true) END AS effective_holders_true,
+    CASE WHEN hhi_true IS NULL THEN NULL ELSE (hhi_true * 100) END AS effective_concentration_pct_true
+  FROM adjusted_metrics
+),
+
+-- same metrics after merging wallets by label group ($1) or cluster_id
+-- (see services/entityConcentration.ts)
+entity_group_label AS (
+  SELECT address_id, MIN(label) AS label
+  FROM public.wallet_labels
+  WHERE label = ANY($1::text[])
+  GROUP BY address_id
+),
+
+entity_cluster_label AS (
+  SELECT a.cluster_id, MIN(gl.label) AS label
+  FROM public.addresses a
+  JOIN entity_group_label gl ON gl.address_id = a.id
+  WHERE a.cluster_id IS NOT NULL
+  GROUP BY a.cluster_id
+),
+
+entities AS (
+  SELECT
+    CASE
+      WHEN COALESCE(gl.label, cl.label) IS NOT NULL THEN 'label:' || COALESCE(gl.label, cl.label)
+      WHEN a.cluster_id IS NOT NULL THEN 'cluster:' || a.cluster_id
+      ELSE 'address:' || LOWER(a.address)
+    END AS entity,
+    COUNT(*) AS members,
+    SUM(hb.balance_raw::numeric) AS balance_raw
+  FROM public.holder_balances hb
+  JOIN public.addresses a ON a.id = hb.address_id
+  LEFT JOIN excluded_addrs e ON LOWER(a.address) = e.addr
+  LEFT JOIN entity_group_label gl ON gl.address_id = hb.address_id
+  LEFT JOIN entity_cluster_label cl ON cl.cluster_id = a.cluster_id
+  WHERE e.addr IS NULL
+  GROUP BY 1
+),
+
+top20_entities AS (
+  SELECT entity, members, balance_raw
+  FROM entities
+  ORDER BY balance_raw DESC NULLS LAST
+  LIMIT 20
+),
+
+adjusted_metrics_merged AS (
+  SELECT
+    CASE
+      WHEN (SELECT true_circulating_raw FROM true_circulating) = 0 THEN NULL
+      ELSE (
+        (SELECT COALESCE(SUM(x.balance_raw), 0) FROM (
+          SELECT balance_raw FROM top20_entities ORDER BY balance_raw DESC NULLS LAST LIMIT 10
+        ) x) / (SELECT true_circulating_raw FROM true_circulating)
+      ) * 100
+    END AS top10_pct_merged,
+
+    CASE
+      WHEN (SELECT true_circulating_raw FROM true_circulating) = 0 THEN NULL
+      ELSE (
+        SELECT SUM(POWER((t.balance_raw / (SELECT true_circulating_raw FROM true_circulating)), 2))
+        FROM top20_entities t
+      )
+    END AS hhi_merged
+),
+
+adjusted_effective_merged AS (
+  SELECT
+    top10_pct_merged,
+    hhi_merged,
+    CASE WHEN hhi_merged IS NULL OR hhi_merged = 0 THEN NULL ELSE (1 / hhi_merged) END AS effective_holders_merged,
+    CASE WHEN hhi_merged IS NULL THEN NULL ELSE (hhi_merged * 100) END AS effective_concentration_pct_merged
+  FROM adjusted_metrics_merged
+),
+
+recent_transfers AS (
+  SELECT
+    t.block_number,
+    t.block_time,
+    t.tx_hash,
+    t.log_index,
+    fa.address AS from_address,
+    ta.address AS to_address,
+    t.raw_amount
+  FROM public.transfers t
+  LEFT JOIN public.addresses fa ON fa.id = t.from_address_id
+  LEFT JOIN public.addresses ta ON ta.id = t.to_address_id
+  ORDER BY t.block_number DESC, t.log_index DESC
+  LIMIT 25
+)
+
+SELECT jsonb_build_object(
+  'generatedAt', NOW(),
+
+  'window', jsonb_build_object(
+    'label', 'last 24h',
+    'start', (SELECT window_start FROM transfer_window),
+    'end',   (SELECT now_ts FROM transfer_window)
+  ),
+
+  'chain', jsonb_build_object(
+    'lastIndexedBlock', (SELECT last_indexed_block FROM last_chain),
+    'lastIndexedTime',  (SELECT last_indexed_time  FROM last_chain)
+  ),
+
+  'transfers', jsonb_build_object(
+    'txs24h', (SELECT txs_24h FROM transfer_window),
+    'txs6h',  (SELECT txs_6h  FROM transfer_window),
+    'txs1h',  (SELECT txs_1h  FROM transfer_window),
+    'activeWallets24h', (SELECT active_wallets_24h FROM transfer_window),
+    'recent', (
+      SELECT COALESCE(
+        jsonb_agg(
+          jsonb_build_object(
+            'blockNumber', block_number,
+            'blockTime',   block_time,
+            'txHash',      tx_hash,
+            'logIndex',    log_index,
+            'from',        from_address,
+            'to',          to_address,
+            'rawAmount',   raw_amount
+          )
+        ),
+        '[]'::jsonb
+      )
+      FROM recent_transfers
+    )
+  ),
+
+  'supply', jsonb_build_object(
+    'snapshotTime',     (SELECT ts FROM latest_supply),
+    'totalSupplyRaw',   (SELECT total_supply_raw::text FROM latest_supply),
+    'burnedRaw',        (SELECT burned_raw::text      FROM latest_supply),
+    'lpRaw',            (SELECT lp_raw::text          FROM latest_supply),
+    'lockedRaw',        (SELECT locked_raw::text      FROM latest_supply),
+    'circulatingRaw',   (SELECT circulating_raw::text FROM latest_supply),
+    'decimals',         (SELECT decimals FROM latest_supply),
+    'totalSupply',      (SELECT total_supply FROM latest_supply),
+    'circulatingSupply',(SELECT circulating_supply FROM latest_supply),
+    'priceUsd',         (SELECT price_usd FROM latest_supply),
+    'marketCapUsd',     (SELECT marketcap_circulating_usd FROM latest_supply),
+    'fdvUsd',           (SELECT fdv_usd FROM latest_supply),
+    'marketcapUsdLegacy',(SELECT fdv_usd FROM latest_supply),
+    'metadata',         (SELECT metadata FROM latest_supply),
+    'flags', jsonb_build_object(
+      'missing',      (SELECT supply_missing      FROM supply_flags),
+      'allZero',      (SELECT supply_all_zero     FROM supply_flags),
+      'inconsistent', (SELECT supply_inconsistent FROM supply_flags)
+    )
+  ),
+
+  'holders', jsonb_build_object(
+    'top10', jsonb_build_object(
+      'sumRaw',   (SELECT top10_raw::text FROM top10),
+      'sumBc400', (SELECT top10_bc400 FROM top10)
+    ),
+    'top20', jsonb_build_object(
+      'sumRaw',   (SELECT top20_raw::text FROM top20),
+      'sumBc400', (SELECT top20_bc400 FROM top20),
+      'holders', (
+        SELECT COALESCE(
+          jsonb_agg(
+            jsonb_build_object('rank', rank, 'address', address, 'balanceRaw', balance_raw::text)
+            ORDER BY rank
+          ),
+          '[]'::jsonb
+        )
+        FROM top20_holders
+      )
+    )
+  ),
+
+  'concentrationAdjusted', jsonb_build_object(
+    'ok', (
+      (SELECT NOT supply_missing FROM supply_flags)
+      AND (SELECT NOT supply_inconsistent FROM supply_flags)
+      AND (SELECT true_circulating_raw FROM adjusted_effective) > 0
+    ),
+    'circulatingRawNorm', (SELECT COALESCE(circulating_raw_norm, 0)::text FROM latest_supply),
+    'excluded', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('address', address)), '[]'::jsonb)
+      FROM excluded_ids
+    ),
+    'excludedBalanceRaw', (SELECT excluded_raw::text FROM excluded_balance),
+    'trueCirculatingRaw', (SELECT true_circulating_raw::text FROM adjusted_effective),
+    'top10PctOfTrueCirculating', (SELECT top10_pct_true_circulating FROM adjusted_effective),
+    'effectiveConcentrationPct', (SELECT effective_concentration_pct_true FROM adjusted_effective),
+    'effectiveHolders', (SELECT effective_holders_true FROM adjusted_effective),
+
+    -- side by side with the per-address figures above
+    'merged', jsonb_build_object(
+      'labelGroups', to_jsonb($1::text[]),
+      'top10PctOfTrueCirculating', (SELECT top10_pct_merged FROM adjusted_effective_merged),
+      'effectiveConcentrationPct', (SELECT effective_concentration_pct_merged FROM adjusted_effective_merged),
+      'effectiveHolders', (SELECT effective_holders_merged FROM adjusted_effective_merged),
+      'topEntities', (
+        SELECT COALESCE(
+          jsonb_agg(
+            jsonb_build_object('entity', x.entity, 'members', x.members, 'balanceRaw', x.balance_raw::text)
+            ORDER BY x.balance_raw DESC
+          ),
+          '[]'::jsonb
+        )
+        FROM (SELECT * FROM top20_entities ORDER BY balance_raw DESC NULLS LAST LIMIT 10) x
+      )
+    )
+  )
+
+  -- ✅ NOTE: We REMOVED the SQL-built risk object on purpose.
+  -- Risk is now computed in Node from the returned bundle.
+) AS daily_audit_json;
+`;
+
+/**
+ * Compute the /daily-audit bundle (one SQL pass + risk computed in Node).
+ * Shared by the live route and the daily audit_snapshots writer.
+ */
+export async function buildDailyAudit(pool: Pool): Promise<any> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // ✅ IMPORTANT: set_config must run on the same connection as the SQL
+    await client.query(`SELECT set_config('app.bc400_pair', $1, true)`, [
+      process.env.BC400_PAIR_ADDRESS || "",
+    ]);
+    await client.query(`SELECT set_config('app.bc400_treasury', $1, true)`, [
+      process.env.BC400_TREASURY_WALLET || "",
+    ]);
+    await client.query(`SELECT set_config('app.bc400_devburn', $1, true)`, [
+      process.env.BC400_DEV_BURN_WALLET || "",
+    ]);
+
+    const { rows } = await client.query(DAILY_AUDIT_SQL, [ENTITY_LABEL_GROUPS]);
+
+    await client.query("COMMIT");
+
+    const daily = rows?.[0]?.daily_audit_json ?? {};
+
+    // ✅ compute risk LIVE from the bundle you just produced
+    const risk = computeRiskFromDailyAudit(daily);
+
+    // ✅ inject into bundle (same shape your frontend expects)
+    daily.risk = { latest: risk };
+
+    return daily;
+  } catch (err) {
+    try {
+      await client.query("ROLLBACK");
+    } catch {}
+    throw err;
+  } finally {
+    client.release();
+  }
+}
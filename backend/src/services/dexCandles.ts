@@ -0,0 +1,173 @@
+import type { Pool } from "pg";
+
+export const CANDLE_RESOLUTIONS = {
+  "1m": 60,
+  "5m": 300,
+  "1h": 3600,
+  "1d": 86400,
+} as const;
+
+export type CandleResolution = keyof typeof CANDLE_RESOLUTIONS;
+
+export function isCandleResolution(v: string): v is CandleResolution {
+  return Object.prototype.hasOwnProperty.call(CANDLE_RESOLUTIONS, v);
+}
+
+export type BuildCandlesResult = {
+  pairAddress: string;
+  decimals: number;
+  byResolution: Record<string, { since: string | null; upserted: number }>;
+};
+
+// token decimals as recorded by the supply snapshots (falls back to env, then 18)
+async function getTokenDecimals(pool: Pool): Promise<number> {
+  const r = await pool.query<{ decimals: number | null }>(
+    `
+    SELECT NULLIF((metadata->>'decimals')::int, 0) AS decimals
+    FROM public.supply_snapshots
+    WHERE metadata ? 'decimals'
+    ORDER BY ts DESC
+    LIMIT 1
+    `
+  );
+  const d = r.rows[0]?.decimals ?? Number(process.env.BC400_DECIMALS || "18");
+  return Number.isFinite(d) && d >= 0 ? d : 18;
+}
+
+/**
+ * (Re)build OHLCV candles for the token/WBNB pair from lp_events.
+ * Price = WBNB reserve / token reserve after every Sync; volume = pair-side Swap amounts.
+ * USD uses the last BNB/USD reading stored with the supply snapshots at or before the
+ * bucket end, so candles older than the first snapshot have no USD values.
+ *
+ * Incremental by default: each resolution restarts from its newest stored bucket.
+ */
+export async function buildDexCandles(pool: Pool, opts: { full?: boolean } = {}): Promise<BuildCandlesResult> {
+  const pairAddress = String(process.env.BC400_PAIR_ADDRESS || "").trim().toLowerCase();
+  const tokenAddress = String(process.env.BC400_TOKEN_ADDRESS || "").trim().toLowerCase();
+  if (!/^0x[a-f0-9]{40}$/.test(pairAddress)) throw new Error(`Missing/invalid BC400_PAIR_ADDRESS: "${pairAddress}"`);
+  if (!/^0x[a-f0-9]{40}$/.test(tokenAddress)) throw new Error(`Missing/invalid BC400_TOKEN_ADDRESS: "${tokenAddress}"`);
+
+  const decimals = await getTokenDecimals(pool);
+  const result: BuildCandlesResult = { pairAddress, decimals, byResolution: {} };
+
+  if (opts.full) {
+    await pool.query(`DELETE FROM public.dex_candles WHERE pair_address = $1`, [pairAddress]);
+  }
+
+  for (const [resolution, seconds] of Object.entries(CANDLE_RESOLUTIONS)) {
+    const last = await pool.query<{ since: string | null }>(
+      `SELECT MAX(bucket_start)::text AS since FROM public.dex_candles WHERE pair_address = $1 AND resolution = $2`,
+      [pairAddress, resolution]
+    );
+    const since = last.rows[0]?.since ?? null;
+
+    const up = await pool.query(
+      `
+      WITH ev AS (
+        SELECT
+          e.block_number,
+          e.log_index,
+          e.event_type,
+          e.metadata,
+          (e.metadata->>'token0') = $2 AS token_is_0,
+          e.token0_delta_raw,
+          e.token1_delta_raw,
+          to_timestamp(floor(extract(epoch FROM e.block_time) / $3::int) * $3::int) AS bucket
+        FROM public.lp_events e
+        WHERE e.pair_address = $1
+          AND e.event_type IN ('SYNC', 'SWAP')
+          AND e.block_time IS NOT NULL
+          AND ($4::timestamptz IS NULL OR e.block_time >= $4::timestamptz)
+      ),
+      px AS (
+        SELECT
+          bucket,
+          block_number,
+          log_index,
+          CASE
+            WHEN token_is_0 THEN
+              ((metadata->>'reserve1')::numeric / 1e18)
+              / NULLIF((metadata->>'reserve0')::numeric / (10::numeric ^ $5::int), 0)
+            ELSE
+              ((metadata->>'reserve0')::numeric / 1e18)
+              / NULLIF((metadata->>'reserve1')::numeric / (10::numeric ^ $5::int), 0)
+          END AS price
+        FROM ev
+        WHERE event_type = 'SYNC'
+      ),
+      ohlc AS (
+        SELECT
+          bucket,
+          (array_agg(price ORDER BY block_number, log_index))[1]           AS open,
+          MAX(price)                                                        AS high,
+          MIN(price)                                                        AS low,
+          (array_agg(price ORDER BY block_number DESC, log_index DESC))[1] AS close,
+          MIN(block_number)                                                 AS first_block,
+          MAX(block_number)                                                 AS last_block
+        FROM px
+        WHERE price IS NOT NULL
+        GROUP BY bucket
+      ),
+      vol AS (
+        SELECT
+          bucket,
+          SUM(ABS(CASE WHEN token_is_0 THEN token0_delta_raw ELSE token1_delta_raw END)) AS volume_token_raw,
+          SUM(ABS(CASE WHEN token_is_0 THEN token1_delta_raw ELSE token0_delta_raw END)) AS volume_wbnb_raw,
+          COUNT(*)::int                                                                   AS trades
+        FROM ev
+        WHERE event_type = 'SWAP'
+        GROUP BY bucket
+      )
+      INSERT INTO public.dex_candles (
+        pair_address, resolution, bucket_start,
+        open_wbnb, high_wbnb, low_wbnb, close_wbnb,
+        bnb_usd, open_usd, high_usd, low_usd, close_usd,
+        volume_token_raw, volume_wbnb_raw, volume_usd, trades,
+        first_block, last_block, updated_at
+      )
+      SELECT
+        $1, $6, o.bucket,
+        o.open, o.high, o.low, o.close,
+        u.bnb_usd, o.open * u.bnb_usd, o.high * u.bnb_usd, o.low * u.bnb_usd, o.close * u.bnb_usd,
+        COALESCE(v.volume_token_raw, 0),
+        COALESCE(v.volume_wbnb_raw, 0),
+        (COALESCE(v.volume_wbnb_raw, 0) / 1e18) * u.bnb_usd,
+        COALESCE(v.trades, 0),
+        o.first_block, o.last_block, now()
+      FROM ohlc o
+      LEFT JOIN vol v ON v.bucket = o.bucket
+      LEFT JOIN LATERAL (
+        SELECT (s.metadata->'computed'->>'bnbUsd')::numeric AS bnb_usd
+        FROM public.supply_snapshots s
+        WHERE s.ts < o.bucket + make_interval(secs => $3::int)
+          AND s.metadata->'computed'->>'bnbUsd' IS NOT NULL
+        ORDER BY s.ts DESC
+        LIMIT 1
+      ) u ON true
+      ON CONFLICT (pair_address, resolution, bucket_start) DO UPDATE SET
+        open_wbnb        = EXCLUDED.open_wbnb,
+        high_wbnb        = EXCLUDED.high_wbnb,
+        low_wbnb         = EXCLUDED.low_wbnb,
+        close_wbnb       = EXCLUDED.close_wbnb,
+        bnb_usd          = EXCLUDED.bnb_usd,
+        open_usd         = EXCLUDED.open_usd,
+        high_usd         = EXCLUDED.high_usd,
+        low_usd          = EXCLUDED.low_usd,
+        close_usd        = EXCLUDED.close_usd,
+        volume_token_raw = EXCLUDED.volume_token_raw,
+        volume_wbnb_raw  = EXCLUDED.volume_wbnb_raw,
+        volume_usd       = EXCLUDED.volume_usd,
+        trades           = EXCLUDED.trades,
+        first_block      = EXCLUDED.first_block,
+        last_block       = EXCLUDED.last_block,
+        updated_at       = now()
+      `,
+      [pairAddress, tokenAddress, seconds, since, decimals, resolution]
+    );
+
+    result.byResolution[resolution] = { since, upserted: up.rowCount ?? 0 };
+  }
+
+  return result;
+}
@@ -0,0 +1,356 @@
+import type { Pool, PoolClient } from "pg";
+import { ethers } from "ethers";
+import { callRpc, provider } from "../clients/bscClient";
+
+type Db = Pool | PoolClient;
+
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+const DEFAULT_V2_FACTORY = "0xca143ce32fe78f1f7019d7d551a6402fc5350c73";
+const DEFAULT_V3_FACTORY = "0x0bfbcf9fa4f9c56b0f40a671ad40e0805a091865";
+const DEFAULT_BNB_USD_FEED = "0x0567F2323251f0Aab15c8dFb1967E4e8A7D42aeE";
+
+// PancakeSwap v3 fee tiers (hundredths of a bip)
+const V3_FEE_TIERS = [100, 500, 2500, 10000];
+
+// common BSC quote tokens; stables are priced at $1, WBNB via Chainlink BNB/USD
+const QUOTE_TOKENS: { symbol: string; address: string; stable: boolean }[] = [
+  { symbol: "WBNB", address: "0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c", stable: false },
+  { symbol: "USDT", address: "0x55d398326f99059ff775485246999027b3197955", stable: true },
+  { symbol: "BUSD", address: "0xe9e7cea3dedca5984780bafc599bd69add087d56", stable: true },
+  { symbol: "USDC", address: "0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d", stable: true },
+];
+
+const V2_FACTORY_ABI = ["function getPair(address tokenA, address tokenB) view returns (address)"];
+const V3_FACTORY_ABI = ["function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)"];
+
+const V2_PAIR_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+];
+
+const V3_POOL_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function liquidity() view returns (uint128)",
+  "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint32 feeProtocol, bool unlocked)",
+];
+
+const ERC20_ABI = [
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address) view returns (uint256)",
+];
+
+const CHAINLINK_AGG_ABI = [
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+  "function decimals() view returns (uint8)",
+];
+
+function mustAddr(label: string, v?: string) {
+  const val = (v ?? "").trim().toLowerCase();
+  if (!/^0x[a-f0-9]{40}$/.test(val)) throw new Error(`Missing/invalid ${label}: "${val}"`);
+  return val;
+}
+
+function addrOr(v: string | undefined, fallback: string) {
+  const val = (v ?? "").trim().toLowerCase();
+  return /^0x[a-f0-9]{40}$/.test(val) ? val : fallback;
+}
+
+async function getBnbUsd(): Promise<number | null> {
+  const envPrice = Number(process.env.WBNB_USD);
+  if (Number.isFinite(envPrice) && envPrice > 0) return envPrice;
+
+  const feed = new ethers.Contract(addrOr(process.env.BNB_USD_FEED, DEFAULT_BNB_USD_FEED), CHAINLINK_AGG_ABI, provider);
+  const [round, dec] = await Promise.all([
+    callRpc(() => feed.latestRoundData(), "bnbUsd.latestRoundData"),
+    callRpc(() => feed.decimals(), "bnbUsd.decimals"),
+  ]);
+  const ans = BigInt(round[1].toString());
+  return ans > 0n ? Number(ans) / Math.pow(10, Number(dec)) : null;
+}
+
+export type DexPoolRow = {
+  pool_address: string;
+  dex: "pancake_v2" | "pancake_v3";
+  factory_address: string;
+  fee_tier: number | null;
+  token_address: string;
+  quote_address: string;
+  quote_symbol: string;
+  token0: string;
+  token1: string;
+  reserve_token_raw: string;
+  reserve_quote_raw: string;
+  liquidity_raw: string | null;
+  price_quote: number | null;
+  price_usd: number | null;
+  liquidity_usd: number | null;
+  liquidity_share_pct: number | null;
+  block_number: string | null;
+  discovered_at: string;
+  updated_at: string;
+};
+
+type Candidate = {
+  dex: DexPoolRow["dex"];
+  factory: string;
+  fee: number | null;
+  pool: string;
+  quote: (typeof QUOTE_TOKENS)[number];
+};
+
+export type RefreshDexPoolsResult = {
+  tokenAddress: string;
+  blockNumber: number;
+  bnbUsd: number | null;
+  pools: { pool: string; dex: string; quote: string; fee: number | null; liquidityUsd: number | null }[];
+};
+
+/**
+ * Find every PancakeSwap v2 / v3 pool of the token against WBNB / USDT / BUSD / USDC,
+ * read its reserves (v2 getReserves, v3 pool token balances + slot0 price) and upsert
+ * dex_pools with USD liquidity and each pool's share of the total.
+ */
+export async function refreshDexPools(pool: Pool): Promise<RefreshDexPoolsResult> {
+  const tokenAddress = mustAddr("BC400_TOKEN_ADDRESS", process.env.BC400_TOKEN_ADDRESS || process.env.TOKEN_ADDRESS);
+  const v2Factory = addrOr(process.env.PANCAKESWAP_V2_FACTORY, DEFAULT_V2_FACTORY);
+  const v3Factory = addrOr(process.env.PANCAKESWAP_V3_FACTORY, DEFAULT_V3_FACTORY);
+  const quotes = QUOTE_TOKENS.map((q) =>
+    q.symbol === "WBNB" ? { ...q, address: addrOr(process.env.WBNB_TOKEN_ADDRESS, q.address) } : q
+  ).filter((q) => q.address !== tokenAddress);
+
+  const [blockNumber, bnbUsd, tokenDecimalsRaw] = await Promise.all([
+    callRpc(() => provider.getBlockNumber(), "getBlockNumber"),
+    getBnbUsd().catch(() => null),
+    callRpc(() => new ethers.Contract(tokenAddress, ERC20_ABI, provider).decimals(), "token.decimals"),
+  ]);
+  const tokenDecimals = Number(tokenDecimalsRaw);
+
+  // 1) discovery
+  const v2 = new ethers.Contract(v2Factory, V2_FACTORY_ABI, provider);
+  const v3 = new ethers.Contract(v3Factory, V3_FACTORY_ABI, provider);
+  const candidates: Candidate[] = [];
+
+  for (const quote of quotes) {
+    const pair = String(await callRpc(() => v2.getPair(tokenAddress, quote.address), `v2.getPair(${quote.symbol})`));
+    if (pair.toLowerCase() !== ZERO) {
+      candidates.push({ dex: "pancake_v2", factory: v2Factory, fee: null, pool: pair.toLowerCase(), quote });
+    }
+
+    for (const fee of V3_FEE_TIERS) {
+      const p = String(
+        await callRpc(() => v3.getPool(tokenAddress, quote.address, fee), `v3.getPool(${quote.symbol},${fee})`)
+      );
+      if (p.toLowerCase() !== ZERO) {
+        candidates.push({ dex: "pancake_v3", factory: v3Factory, fee, pool: p.toLowerCase(), quote });
+      }
+    }
+  }
+
+  // 2) state per pool
+  type PoolState = Candidate & {
+    token0: string;
+    token1: string;
+    reserveToken: bigint;
+    reserveQuote: bigint;
+    liquidity: bigint | null;
+    priceQuote: number | null;
+    priceUsd: number | null;
+    liquidityUsd: number | null;
+  };
+  const states: PoolState[] = [];
+
+  for (const c of candidates) {
+    const quoteDecimals = Number(
+      await callRpc(() => new ethers.Contract(c.quote.address, ERC20_ABI, provider).decimals(), `${c.quote.symbol}.decimals`)
+    );
+    const scale = Math.pow(10, tokenDecimals - quoteDecimals);
+
+    let token0: string;
+    let token1: string;
+    let reserveToken: bigint;
+    let reserveQuote: bigint;
+    let liquidity: bigint | null = null;
+    let priceQuote: number | null = null;
+
+    if (c.dex === "pancake_v2") {
+      const pc = new ethers.Contract(c.pool, V2_PAIR_ABI, provider);
+      const [t0, t1, reserves] = await Promise.all([
+        callRpc(() => pc.token0(), `token0(${c.pool})`),
+        callRpc(() => pc.token1(), `token1(${c.pool})`),
+        callRpc(() => pc.getReserves(), `getReserves(${c.pool})`),
+      ]);
+      token0 = String(t0).toLowerCase();
+      token1 = String(t1).toLowerCase();
+      const tokenIs0 = token0 === tokenAddress;
+      reserveToken = BigInt(reserves[tokenIs0 ? 0 : 1].toString());
+      reserveQuote = BigInt(reserves[tokenIs0 ? 1 : 0].toString());
+      if (reserveToken > 0n) {
+        priceQuote =
+          Number(ethers.formatUnits(reserveQuote, quoteDecimals)) / Number(ethers.formatUnits(reserveToken, tokenDecimals));
+      }
+    } else {
+      const pc = new ethers.Contract(c.pool, V3_POOL_ABI, provider);
+      const [t0, t1, liq, slot0, balToken, balQuote] = await Promise.all([
+        callRpc(() => pc.token0(), `token0(${c.pool})`),
+        callRpc(() => pc.token1(), `token1(${c.pool})`),
+        callRpc(() => pc.liquidity(), `liquidity(${c.pool})`),
+        callRpc(() => pc.slot0(), `slot0(${c.pool})`),
+        callRpc(() => new ethers.Contract(tokenAddress, ERC20_ABI, provider).balanceOf(c.pool), `balanceOf(${c.pool})`),
+        callRpc(() => new ethers.Contract(c.quote.address, ERC20_ABI, provider).balanceOf(c.pool), `balanceOf(${c.pool})`),
+      ]);
+      token0 = String(t0).toLowerCase();
+      token1 = String(t1).toLowerCase();
+      reserveToken = BigInt(balToken.toString());
+      reserveQuote = BigInt(balQuote.toString());
+      liquidity = BigInt(liq.toString());
+
+      // sqrtPriceX96^2 / 2^192 = raw token1 per raw token0
+      const sqrt = Number(BigInt(slot0[0].toString())) / 2 ** 96;
+      const p01 = sqrt * sqrt;
+      if (p01 > 0) priceQuote = (token0 === tokenAddress ? p01 : 1 / p01) * scale;
+    }
+
+    const quoteUsd = c.quote.stable ? 1 : bnbUsd;
+    const priceUsd = priceQuote !== null && quoteUsd !== null ? priceQuote * quoteUsd : null;
+    const liquidityUsd =
+      priceUsd !== null && quoteUsd !== null
+        ? Number(ethers.formatUnits(reserveToken, tokenDecimals)) * priceUsd +
+          Number(ethers.formatUnits(reserveQuote, quoteDecimals)) * quoteUsd
+        : null;
+
+    states.push({ ...c, token0, token1, reserveToken, reserveQuote, liquidity, priceQuote, priceUsd, liquidityUsd });
+  }
+
+  const totalUsd = states.reduce((acc, s) => acc + (s.liquidityUsd ?? 0), 0);
+
+  // 3) upsert (pools never disappear from a factory; empty ones keep a 0 share)
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    for (const s of states) {
+      await client.query(
+        `
+        INSERT INTO public.dex_pools (
+          pool_address, dex, factory_address, fee_tier, token_address, quote_address, quote_symbol,
+          token0, token1, reserve_token_raw, reserve_quote_raw, liquidity_raw,
+          price_quote, price_usd, liquidity_usd, liquidity_share_pct, block_number, updated_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, now())
+        ON CONFLICT (pool_address) DO UPDATE SET
+          reserve_token_raw   = EXCLUDED.reserve_token_raw,
+          reserve_quote_raw   = EXCLUDED.reserve_quote_raw,
+          liquidity_raw       = EXCLUDED.liquidity_raw,
+          price_quote         = EXCLUDED.price_quote,
+          price_usd           = EXCLUDED.price_usd,
+          liquidity_usd       = EXCLUDED.liquidity_usd,
+          liquidity_share_pct = EXCLUDED.liquidity_share_pct,
+          block_number        = EXCLUDED.block_number,
+          updated_at          = now()
+        `,
+        [
+          s.pool,
+          s.dex,
+          s.factory,
+          s.fee,
+          tokenAddress,
+          s.quote.address,
+          s.quote.symbol,
+          s.token0,
+          s.token1,
+          s.reserveToken.toString(),
+          s.reserveQuote.toString(),
+          s.liquidity?.toString() ?? null,
+          s.priceQuote,
+          s.priceUsd,
+          s.liquidityUsd,
+          s.liquidityUsd !== null && totalUsd > 0 ? (s.liquidityUsd / totalUsd) * 100 : null,
+          blockNumber,
+        ]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  return {
+    tokenAddress,
+    blockNumber,
+    bnbUsd,
+    pools: states.map((s) => ({
+      pool: s.pool,
+      dex: s.dex,
+      quote: s.quote.symbol,
+      fee: s.fee,
+      liquidityUsd: s.liquidityUsd,
+    })),
+  };
+}
+
+export async function listDexPools(db: Db, tokenAddress: string): Promise<DexPoolRow[]> {
+  const res = await db.query<DexPoolRow>(
+    `
+    SELECT
+      pool_address, dex, factory_address, fee_tier, token_address, quote_address, quote_symbol,
+      token0, token1,
+      reserve_token_raw::text, reserve_quote_raw::text, liquidity_raw::text,
+      price_quote::float8 AS price_quote,
+      price_usd::float8 AS price_usd,
+      liquidity_usd::float8 AS liquidity_usd,
+      liquidity_share_pct::float8 AS liquidity_share_pct,
+      block_number::text,
+      discovered_at::text, updated_at::text
+    FROM public.dex_pools
+    WHERE token_address = $1
+    ORDER BY liquidity_usd DESC NULLS LAST, pool_address
+    `,
+    [tokenAddress.toLowerCase()]
+  );
+  return res.rows;
+}
+
+/**
+ * Pools whose events/flows count for the token: the registry plus the configured pair
+ * (so everything keeps working before the first discovery run).
+ */
+export async function getPoolAddresses(db: Db, tokenAddress: string, pairAddress?: string): Promise<string[]> {
+  const res = await db.query<{ pool_address: string }>(
+    `SELECT pool_address FROM public.dex_pools WHERE token_address = $1`,
+    [tokenAddress.toLowerCase()]
+  );
+  const set = new Set(res.rows.map((r) => r.pool_address));
+  const pair = (pairAddress ?? "").trim().toLowerCase();
+  if (/^0x[a-f0-9]{40}$/.test(pair)) set.add(pair);
+  return Array.from(set);
+}
+
+export type PoolAggregate = {
+  pools: number;
+  pricedPools: number;
+  liquidityUsd: number | null;
+  // liquidity-weighted across pools with a USD price
+  priceUsd: number | null;
+  minPriceUsd: number | null;
+  maxPriceUsd: number | null;
+};
+
+export function aggregatePools(rows: DexPoolRow[]): PoolAggregate {
+  const priced = rows.filter((r) => r.price_usd !== null && r.liquidity_usd !== null && r.liquidity_usd > 0);
+  const liquidityUsd = priced.reduce((acc, r) => acc + r.liquidity_usd!, 0);
+  const prices = priced.map((r) => r.price_usd!);
+
+  return {
+    pools: rows.length,
+    pricedPools: priced.length,
+    liquidityUsd: priced.length ? liquidityUsd : null,
+    priceUsd: liquidityUsd > 0 ? priced.reduce((acc, r) => acc + r.price_usd! * r.liquidity_usd!, 0) / liquidityUsd : null,
+    minPriceUsd: prices.length ? Math.min(...prices) : null,
+    maxPriceUsd: prices.length ? Math.max(...prices) : null,
+  };
+}
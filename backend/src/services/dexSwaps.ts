@@ -0,0 +1,144 @@
+import type { Pool, PoolClient } from "pg";
+
+export type SwapTotals = {
+  buyCount: number;
+  sellCount: number;
+  boughtRaw: string;
+  soldRaw: string;
+  // same figures per pool (only pools with indexed swaps)
+  byPool: { pairAddress: string; buyCount: number; sellCount: number; boughtRaw: string; soldRaw: string }[];
+};
+
+export type PairEventsCoverage = {
+  complete: boolean;
+  firstEventBlock: number | null; // earliest Swap/Sync/Mint/Burn stored for the pair
+  firstPairTransferBlock: number | null; // earliest BC400 transfer in/out of the pair (its creation, in practice)
+};
+
+/**
+ * Whether lp_events reach back to the pair's first trade. Deployments that added lp_events later
+ * only have pair events from then on until `npm run backfill:lp-transfers` runs; lifetime
+ * figures must stay on transfers until then or they'd cover only the recent window.
+ */
+export async function getPairEventsCoverage(db: Pool | PoolClient, pairAddress: string): Promise<PairEventsCoverage> {
+  const res = await db.query<{ first_event_block: string | null; first_transfer_block: string | null }>(
+    `
+    WITH pair AS (
+      SELECT id FROM public.addresses WHERE lower(address) = $1 LIMIT 1
+    )
+    SELECT
+      (
+        SELECT MIN(block_number)
+        FROM public.lp_events
+        WHERE pair_address = $1 AND event_type IN ('SWAP', 'SYNC', 'MINT', 'BURN')
+      )::text AS first_event_block,
+      LEAST(
+        (SELECT MIN(t.block_number) FROM public.transfers t, pair WHERE t.from_address_id = pair.id),
+        (SELECT MIN(t.block_number) FROM public.transfers t, pair WHERE t.to_address_id = pair.id)
+      )::text AS first_transfer_block
+    `,
+    [pairAddress.toLowerCase()]
+  );
+
+  const firstEventBlock = res.rows[0]?.first_event_block != null ? Number(res.rows[0].first_event_block) : null;
+  const firstPairTransferBlock =
+    res.rows[0]?.first_transfer_block != null ? Number(res.rows[0].first_transfer_block) : null;
+
+  return {
+    // the initial liquidity add is the pair's first token transfer and its first Mint/Sync, same tx
+    complete:
+      firstPairTransferBlock === null || (firstEventBlock !== null && firstEventBlock <= firstPairTransferBlock),
+    firstEventBlock,
+    firstPairTransferBlock,
+  };
+}
+
+/**
+ * Buy/sell totals from decoded pair Swap events (lp_events), summed over `pairAddresses`
+ * (the configured pair + every registered dex_pools entry; v2 and v3 swaps alike).
+ * BUY  = BC400 leaves the pair in a swap (pair-side delta < 0)
+ * SELL = BC400 enters the pair in a swap (pair-side delta > 0)
+ * Amounts are what the pair actually sent/received, so router hops and token
+ * tax transfers never count as trades.
+ *
+ * `excludeAddressIds`: drop swaps whose tx moved BC400 between one of the pools
+ * (`pairAddressIds`) and one of these addresses (same exclusion semantics as the
+ * transfer-based totals).
+ *
+ * Returns null when no swaps are indexed for any of the pools yet (callers fall back).
+ */
+export async function getSwapTotals(
+  db: Pool | PoolClient,
+  pairAddresses: string[],
+  tokenAddress: string,
+  pairAddressIds: number[] = [],
+  excludeAddressIds: number[] = []
+): Promise<SwapTotals | null> {
+  const res = await db.query<{
+    pair_address: string;
+    swaps: string;
+    buy_count: string;
+    sell_count: string;
+    bought_raw: string;
+    sold_raw: string;
+  }>(
+    `
+    WITH swaps AS (
+      SELECT
+        e.pair_address,
+        e.tx_hash,
+        CASE WHEN e.metadata->>'token0' = $2 THEN e.token0_delta_raw ELSE e.token1_delta_raw END AS bc_delta
+      FROM public.lp_events e
+      WHERE e.pair_address = ANY($1::text[])
+        AND e.event_type = 'SWAP'
+    ),
+    flagged AS (
+      SELECT
+        s.*,
+        (
+          cardinality($4::int[]) = 0
+          OR NOT EXISTS (
+            SELECT 1
+            FROM public.transfers t
+            WHERE t.tx_hash = s.tx_hash
+              AND (
+                (t.from_address_id = ANY($3::int[]) AND t.to_address_id   = ANY($4::int[]))
+                OR
+                (t.to_address_id   = ANY($3::int[]) AND t.from_address_id = ANY($4::int[]))
+              )
+          )
+        ) AS kept
+      FROM swaps s
+    )
+    SELECT
+      pair_address,
+      COUNT(*)::text AS swaps,
+      COUNT(*) FILTER (WHERE kept AND bc_delta < 0)::text AS buy_count,
+      COUNT(*) FILTER (WHERE kept AND bc_delta > 0)::text AS sell_count,
+      COALESCE(SUM(-bc_delta) FILTER (WHERE kept AND bc_delta < 0), 0)::text AS bought_raw,
+      COALESCE(SUM(bc_delta)  FILTER (WHERE kept AND bc_delta > 0), 0)::text AS sold_raw
+    FROM flagged
+    GROUP BY pair_address
+    ORDER BY pair_address
+    `,
+    [pairAddresses.map((a) => a.toLowerCase()), tokenAddress.toLowerCase(), pairAddressIds, excludeAddressIds]
+  );
+
+  if (res.rows.length === 0) return null;
+
+  const byPool = res.rows.map((r) => ({
+    pairAddress: r.pair_address,
+    buyCount: Number(r.buy_count),
+    sellCount: Number(r.sell_count),
+    boughtRaw: r.bought_raw,
+    soldRaw: r.sold_raw,
+  }));
+
+  return {
+    buyCount: byPool.reduce((acc, p) => acc + p.buyCount, 0),
+    sellCount: byPool.reduce((acc, p) => acc + p.sellCount, 0),
+    boughtRaw: byPool.reduce((acc, p) => acc + BigInt(p.boughtRaw), 0n).toString(),
+    soldRaw: byPool.reduce((acc, p) => acc + BigInt(p.soldRaw), 0n).toString(),
+    byPool,
+  };
+}
@@ -0,0 +1,155 @@
+import type { Pool, PoolClient } from "pg";
+
+type Db = Pool | PoolClient;
+
+// wallets carrying one of these labels are treated as one owner, whatever cluster they're in
+export const ENTITY_LABEL_GROUPS = ["team", "treasury", "marketing", "vesting_contract"];
+
+function addrOrEmpty(v?: string) {
+  const val = (v ?? "").trim();
+  return /^0x[a-fA-F0-9]{40}$/.test(val) ? val : "";
+}
+
+/**
+ * Addresses left out of "true circulating" concentration figures (lowercase):
+ * burn sinks, the LP pair, treasury, dev burn wallet and the locked address.
+ */
+export function investorExcludedAddresses(): string[] {
+  return [
+    "0x000000000000000000000000000000000000dEaD",
+    "0x0000000000000000000000000000000000000000",
+    addrOrEmpty(process.env.BC400_PAIR_ADDRESS),
+    addrOrEmpty(process.env.BC400_TREASURY_WALLET),
+    addrOrEmpty(process.env.BC400_DEV_BURN_WALLET),
+    addrOrEmpty(process.env.BC400_LOCKED_ADDRESS),
+  ]
+    .map((x) => (x ? x.toLowerCase() : ""))
+    .filter(Boolean);
+}
+
+// stable ratio without bigint->Number overflow
+function scaledRatio(numer: bigint, denom: bigint): number | null {
+  if (denom <= 0n) return null;
+  const a = numer.toString();
+  const b = denom.toString();
+  const keep = 15;
+  const an = a.length > keep ? Number(a.slice(0, keep)) : Number(a);
+  const bn = b.length > keep ? Number(b.slice(0, keep)) : Number(b);
+  if (!Number.isFinite(an) || !Number.isFinite(bn) || bn <= 0) return null;
+  const exp = (a.length - Math.min(a.length, keep)) - (b.length - Math.min(b.length, keep));
+  return (an / bn) * Math.pow(10, exp);
+}
+
+// top-10 % of true circulating + HHI over the top 20 (balances sorted desc)
+export function concentrationMetrics(balances: bigint[], trueCirculatingRaw: bigint) {
+  const top10Sum = balances.slice(0, 10).reduce((acc, x) => acc + x, 0n);
+
+  const top10Pct =
+    trueCirculatingRaw > 0n
+      ? Number((top10Sum * 1000000n) / trueCirculatingRaw) / 10000 // 2dp
+      : null;
+
+  let hhi = 0;
+  for (const bal of balances.slice(0, 20)) {
+    const share = scaledRatio(bal, trueCirculatingRaw);
+    if (share === null || !Number.isFinite(share) || share <= 0) continue;
+    hhi += share * share;
+  }
+
+  return {
+    top10PctOfTrueCirculating: top10Pct,
+    effectiveConcentrationPct: hhi > 0 ? hhi * 100 : null,
+    effectiveHolders: hhi > 0 ? 1 / hhi : null,
+  };
+}
+
+/** Top `limit` positive balances (raw, desc) excluding `excluded` (lowercase addresses). */
+export async function getTopBalances(db: Db, excluded: string[], limit: number): Promise<bigint[]> {
+  // NOTE: hb.balance_raw is stored as text; cast to numeric for sorting
+  const res = await db.query<{ balance_raw: string }>(
+    `
+    SELECT hb.balance_raw::text AS balance_raw
+    FROM holder_balances hb
+    JOIN addresses a ON a.id = hb.address_id
+    WHERE hb.balance_raw::numeric > 0
+      AND LOWER(a.address) <> ALL($1::text[])
+    ORDER BY hb.balance_raw::numeric DESC
+    LIMIT $2
+    `,
+    [excluded, limit]
+  );
+  return res.rows.map((r) => BigInt(r.balance_raw.split(".")[0] || "0"));
+}
+
+export type EntityRow = {
+  entity: string; // "label:team" | "cluster:<id>" | "address:<0x…>"
+  kind: "label" | "cluster" | "address";
+  members: number;
+  balanceRaw: bigint;
+  topAddresses: string[];
+};
+
+/**
+ * Positive balances merged by owner:
+ * 1) label group (an address, or any member of its cluster, has a group label)
+ * 2) addresses.cluster_id
+ * 3) otherwise the address itself
+ * `excluded` (lowercase addresses) are dropped before merging, same as the per-address figures.
+ */
+export async function getTopEntities(db: Db, excluded: string[], limit: number): Promise<EntityRow[]> {
+  const res = await db.query<{ entity: string; members: number; balance_raw: string; top_addresses: string[] }>(
+    `
+    WITH holders AS (
+      SELECT hb.address_id, a.address, a.cluster_id, hb.balance_raw::numeric AS bal
+      FROM holder_balances hb
+      JOIN addresses a ON a.id = hb.address_id
+      WHERE hb.balance_raw::numeric > 0
+        AND LOWER(a.address) <> ALL($1::text[])
+    ),
+    group_label AS (
+      SELECT address_id, MIN(label) AS label
+      FROM wallet_labels
+      WHERE label = ANY($2::text[])
+      GROUP BY address_id
+    ),
+    cluster_label AS (
+      SELECT a.cluster_id, MIN(gl.label) AS label
+      FROM addresses a
+      JOIN group_label gl ON gl.address_id = a.id
+      WHERE a.cluster_id IS NOT NULL
+      GROUP BY a.cluster_id
+    ),
+    keyed AS (
+      SELECT
+        h.address,
+        h.bal,
+        CASE
+          WHEN COALESCE(gl.label, cl.label) IS NOT NULL THEN 'label:' || COALESCE(gl.label, cl.label)
+          WHEN h.cluster_id IS NOT NULL THEN 'cluster:' || h.cluster_id
+          ELSE 'address:' || LOWER(h.address)
+        END AS entity
+      FROM holders h
+      LEFT JOIN group_label gl ON gl.address_id = h.address_id
+      LEFT JOIN cluster_label cl ON cl.cluster_id = h.cluster_id
+    )
+    SELECT
+      entity,
+      COUNT(*)::int AS members,
+      SUM(bal)::text AS balance_raw,
+      (array_agg(address ORDER BY bal DESC))[1:5] AS top_addresses
+    FROM keyed
+    GROUP BY entity
+    ORDER BY SUM(bal) DESC
+    LIMIT $3
+    `,
+    [excluded, ENTITY_LABEL_GROUPS, limit]
+  );
+
+  return res.rows.map((r) => ({
+    entity: r.entity,
+    kind: r.entity.slice(0, r.entity.indexOf(":")) as EntityRow["kind"],
+    members: Number(r.members),
+    balanceRaw: BigInt(r.balance_raw.split(".")[0] || "0"),
+    topAddresses: r.top_addresses ?? [],
+  }));
+}
@@ -0,0 +1,346 @@
+import type { PoolClient } from "pg";
+
+/**
+ * Recompute holder_balances rows for a set of addresses from `transfers`.
+ * Same math as sql/rebuild_holder_balances.sql, but scoped to the given ids
+ * so callers (e.g. reorg rollback) don't need a full TRUNCATE + rebuild.
+ * Existing `tags` are preserved; new rows take theirs from wallet_labels.
+ */
+export async function refreshHolderBalances(client: PoolClient, addressIds: number[]): Promise<void> {
+  const ids = Array.from(new Set(addressIds)).filter((x) => Number.isFinite(x));
+  if (ids.length === 0) return;
+
+  await client.query(
+    `
+    WITH ids AS (
+      SELECT UNNEST($1::int[]) AS address_id
+    ),
+    recomputed AS (
+      SELECT
+        ids.address_id,
+        SUM(CASE WHEN t.to_address_id   = ids.address_id THEN t.raw_amount::numeric ELSE 0::numeric END)
+        -
+        SUM(CASE WHEN t.from_address_id = ids.address_id THEN t.raw_amount::numeric ELSE 0::numeric END) AS balance_raw,
+        COUNT(*) AS tx_count,
+        MIN(t.block_time) AS first_seen,
+        MAX(t.block_time) AS last_seen
+      FROM ids
+      JOIN transfers t
+        ON t.to_address_id = ids.address_id OR t.from_address_id = ids.address_id
+      GROUP BY ids.address_id
+    ),
+    last_tx AS (
+      SELECT DISTINCT ON (ids.address_id)
+        ids.address_id,
+        t.tx_hash,
+        t.block_number,
+        t.block_time
+      FROM ids
+      JOIN transfers t
+        ON t.to_address_id = ids.address_id OR t.from_address_id = ids.address_id
+      ORDER BY ids.address_id, t.block_number DESC, t.log_index DESC
+    ),
+    removed AS (
+      DELETE FROM holder_balances hb
+      WHERE hb.address_id IN (SELECT address_id FROM ids)
+        AND NOT EXISTS (
+          SELECT 1 FROM recomputed r
+          WHERE r.address_id = hb.address_id AND r.balance_raw > 0
+        )
+    )
+    INSERT INTO holder_balances (
+      address_id,
+      balance_raw,
+      balance_bc400,
+      tx_count,
+      tags,
+      first_seen,
+      last_seen,
+      last_tx_hash,
+      last_block_number,
+      last_block_time
+    )
+    SELECT
+      r.address_id,
+      r.balance_raw,
+      r.balance_raw / 1e9::numeric, -- BC400 units (assuming 9 decimals, same as the rebuild)
+      r.tx_count,
+      COALESCE(
+        (SELECT string_agg(wl.label, ',' ORDER BY wl.label) FROM wallet_labels wl WHERE wl.address_id = r.address_id),
+        'none'
+      ),
+      r.first_seen,
+      r.last_seen,
+      l.tx_hash,
+      l.block_number,
+      l.block_time
+    FROM recomputed r
+    JOIN last_tx l ON l.address_id = r.address_id
+    WHERE r.balance_raw > 0
+    ON CONFLICT (address_id) DO UPDATE SET
+      balance_raw       = EXCLUDED.balance_raw,
+      balance_bc400     = EXCLUDED.balance_bc400,
+      tx_count          = EXCLUDED.tx_count,
+      first_seen        = EXCLUDED.first_seen,
+      last_seen         = EXCLUDED.last_seen,
+      last_tx_hash      = EXCLUDED.last_tx_hash,
+      last_block_number = EXCLUDED.last_block_number,
+      last_block_time   = EXCLUDED.last_block_time
+    `,
+    [ids]
+  );
+}
+
+export type InsertedTransfer = {
+  tx_hash: string;
+  log_index: number;
+  block_number: string;
+  block_time: Date | string | null;
+  from_address_id: number;
+  to_address_id: number;
+  raw_amount: string;
+};
+
+type HolderDelta = {
+  delta: bigint;
+  txCount: number;
+  firstSeen: Date | null;
+  lastSeen: Date | null;
+  lastTxHash: string;
+  lastBlockNumber: bigint;
+  lastLogIndex: number;
+  lastBlockTime: Date | null;
+};
+
+function toDate(v: Date | string | null): Date | null {
+  if (v === null || v === undefined) return null;
+  return v instanceof Date ? v : new Date(v);
+}
+
+/**
+ * Row-lock the given addresses (ascending id order, so concurrent writers never deadlock).
+ * Every holder_balances writer takes these locks first, which serializes
+ * maintenance per address across the indexer, parallel backfill workers and repairs.
+ */
+export async function lockAddresses(client: PoolClient, addressIds: number[]): Promise<void> {
+  const ids = Array.from(new Set(addressIds)).filter((x) => Number.isFinite(x));
+  if (ids.length === 0) return;
+
+  await client.query(
+    `SELECT id FROM addresses WHERE id = ANY($1::int[]) ORDER BY id FOR NO KEY UPDATE`,
+    [ids]
+  );
+}
+
+/**
+ * Apply newly inserted transfers to holder_balances (call in the same transaction
+ * as the INSERT, with only the rows it actually inserted, i.e. ON CONFLICT ... RETURNING).
+ *
+ * - existing rows: balance / tx_count / first+last_seen / last_* are moved by the delta
+ * - addresses without a row (new, or previously at zero balance): recomputed from transfers
+ * - rows that end at balance <= 0 are dropped (holder_balances only holds positive balances)
+ */
+export async function applyTransferDeltas(client: PoolClient, inserted: InsertedTransfer[]): Promise<void> {
+  if (inserted.length === 0) return;
+
+  const deltas = new Map<number, HolderDelta>();
+
+  for (const t of inserted) {
+    const amount = BigInt(t.raw_amount);
+    const bn = BigInt(t.block_number);
+    const li = Number(t.log_index);
+    const bt = toDate(t.block_time);
+
+    const ids = t.from_address_id === t.to_address_id ? [t.to_address_id] : [t.from_address_id, t.to_address_id];
+    for (const id of ids) {
+      let d = deltas.get(id);
+      if (!d) {
+        d = {
+          delta: 0n,
+          txCount: 0,
+          firstSeen: null,
+          lastSeen: null,
+          lastTxHash: t.tx_hash,
+          lastBlockNumber: bn,
+          lastLogIndex: li,
+          lastBlockTime: bt,
+        };
+        deltas.set(id, d);
+      }
+
+      if (t.to_address_id !== t.from_address_id) d.delta += id === t.to_address_id ? amount : -amount;
+      d.txCount += 1;
+      if (bt && (!d.firstSeen || bt < d.firstSeen)) d.firstSeen = bt;
+      if (bt && (!d.lastSeen || bt > d.lastSeen)) d.lastSeen = bt;
+      if (bn > d.lastBlockNumber || (bn === d.lastBlockNumber && li > d.lastLogIndex)) {
+        d.lastTxHash = t.tx_hash;
+        d.lastBlockNumber = bn;
+        d.lastLogIndex = li;
+        d.lastBlockTime = bt;
+      }
+    }
+  }
+
+  const ids = Array.from(deltas.keys()).sort((a, b) => a - b);
+  await lockAddresses(client, ids);
+
+  const updated = await client.query<{ address_id: number }>(
+    `
+    WITH d AS (
+      SELECT *
+      FROM UNNEST(
+        $1::int[],
+        $2::numeric[],
+        $3::int[],
+        $4::timestamptz[],
+        $5::timestamptz[],
+        $6::text[],
+        $7::bigint[],
+        $8::int[],
+        $9::timestamptz[]
+      ) AS x(address_id, delta, tx_count, first_seen, last_seen, last_tx_hash, last_block_number, last_log_index, last_block_time)
+    ),
+    newer AS (
+      SELECT
+        d.*,
+        (
+          hb.last_block_number IS NULL
+          OR d.last_block_number > hb.last_block_number
+          OR (
+            d.last_block_number = hb.last_block_number
+            AND d.last_log_index > COALESCE((
+              SELECT MAX(t.log_index)
+              FROM transfers t
+              WHERE t.tx_hash = hb.last_tx_hash
+                AND t.block_number = hb.last_block_number
+                AND (t.from_address_id = hb.address_id OR t.to_address_id = hb.address_id)
+            ), -1)
+          )
+        ) AS is_newer
+      FROM d
+      JOIN holder_balances hb ON hb.address_id = d.address_id
+    )
+    UPDATE holder_balances hb
+    SET
+      balance_raw       = hb.balance_raw::numeric + n.delta,
+      balance_bc400     = (hb.balance_raw::numeric + n.delta) / 1e9::numeric,
+      tx_count          = hb.tx_count + n.tx_count,
+      first_seen        = LEAST(hb.first_seen, n.first_seen),
+      last_seen         = GREATEST(hb.last_seen, n.last_seen),
+      last_tx_hash      = CASE WHEN n.is_newer THEN n.last_tx_hash      ELSE hb.last_tx_hash      END,
+      last_block_number = CASE WHEN n.is_newer THEN n.last_block_number ELSE hb.last_block_number END,
+      last_block_time   = CASE WHEN n.is_newer THEN n.last_block_time   ELSE hb.last_block_time   END
+    FROM newer n
+    WHERE hb.address_id = n.address_id
+    RETURNING hb.address_id
+    `,
+    [
+      ids,
+      ids.map((id) => deltas.get(id)!.delta.toString()),
+      ids.map((id) => deltas.get(id)!.txCount),
+      ids.map((id) => deltas.get(id)!.firstSeen),
+      ids.map((id) => deltas.get(id)!.lastSeen),
+      ids.map((id) => deltas.get(id)!.lastTxHash),
+      ids.map((id) => deltas.get(id)!.lastBlockNumber.toString()),
+      ids.map((id) => deltas.get(id)!.lastLogIndex),
+      ids.map((id) => deltas.get(id)!.lastBlockTime),
+    ]
+  );
+
+  const seen = new Set(updated.rows.map((r) => Number(r.address_id)));
+  const missing = ids.filter((id) => !seen.has(id));
+
+  // no row to move: rebuild just these addresses (sees this transaction's inserts too)
+  await refreshHolderBalances(client, missing);
+
+  await client.query(
+    `DELETE FROM holder_balances WHERE address_id = ANY($1::int[]) AND balance_raw::numeric <= 0`,
+    [Array.from(seen)]
+  );
+}
+
+export type HolderBalanceDrift = {
+  address_id: number;
+  address: string | null;
+  kind: "missing" | "extra" | "mismatch";
+  expected_balance_raw: string | null;
+  actual_balance_raw: string | null;
+  expected_tx_count: number | null;
+  actual_tx_count: number | null;
+  expected_last_block_number: string | null;
+  actual_last_block_number: string | null;
+};
+
+/**
+ * Full recompute of holder_balances from `transfers` (same rules as
+ * sql/rebuild_holder_balances.sql) compared against the live table.
+ * Nothing is written; run inside a REPEATABLE READ transaction for a consistent view.
+ */
+export async function findHolderBalanceDrift(client: PoolClient): Promise<HolderBalanceDrift[]> {
+  const res = await client.query<HolderBalanceDrift>(
+    `
+    WITH legs AS (
+      SELECT
+        t.to_address_id AS address_id,
+        CASE WHEN t.from_address_id = t.to_address_id THEN 0::numeric ELSE t.raw_amount::numeric END AS delta,
+        t.tx_hash, t.log_index, t.block_number, t.block_time
+      FROM transfers t
+      UNION ALL
+      SELECT
+        t.from_address_id,
+        -t.raw_amount::numeric,
+        t.tx_hash, t.log_index, t.block_number, t.block_time
+      FROM transfers t
+      WHERE t.from_address_id <> t.to_address_id
+    ),
+    agg AS (
+      SELECT
+        address_id,
+        SUM(delta)      AS balance_raw,
+        COUNT(*)        AS tx_count,
+        MIN(block_time) AS first_seen,
+        MAX(block_time) AS last_seen
+      FROM legs
+      GROUP BY address_id
+    ),
+    last_tx AS (
+      SELECT DISTINCT ON (address_id) address_id, tx_hash, block_number
+      FROM legs
+      ORDER BY address_id, block_number DESC, log_index DESC
+    ),
+    expected AS (
+      SELECT agg.*, l.tx_hash AS last_tx_hash, l.block_number AS last_block_number
+      FROM agg
+      JOIN last_tx l ON l.address_id = agg.address_id
+      WHERE agg.balance_raw > 0
+    )
+    SELECT
+      COALESCE(e.address_id, hb.address_id)::int AS address_id,
+      a.address,
+      CASE
+        WHEN hb.address_id IS NULL THEN 'missing'
+        WHEN e.address_id IS NULL THEN 'extra'
+        ELSE 'mismatch'
+      END AS kind,
+      e.balance_raw::text              AS expected_balance_raw,
+      hb.balance_raw::text             AS actual_balance_raw,
+      e.tx_count::int                  AS expected_tx_count,
+      hb.tx_count::int                 AS actual_tx_count,
+      e.last_block_number::text        AS expected_last_block_number,
+      hb.last_block_number::text       AS actual_last_block_number
+    FROM expected e
+    FULL OUTER JOIN holder_balances hb ON hb.address_id = e.address_id
+    LEFT JOIN addresses a ON a.id = COALESCE(e.address_id, hb.address_id)
+    WHERE hb.address_id IS NULL
+       OR e.address_id IS NULL
+       OR hb.balance_raw::numeric <> e.balance_raw
+       OR hb.tx_count <> e.tx_count
+       OR hb.first_seen IS DISTINCT FROM e.first_seen
+       OR hb.last_seen IS DISTINCT FROM e.last_seen
+       OR hb.last_tx_hash IS DISTINCT FROM e.last_tx_hash
+       OR hb.last_block_number IS DISTINCT FROM e.last_block_number
+    ORDER BY COALESCE(e.balance_raw, hb.balance_raw::numeric) DESC NULLS LAST
+    `
+  );
+  return res.rows;
+}
@@ -0,0 +1,270 @@
+import type { Pool, PoolClient } from "pg";
+import { knownLockers } from "../indexer/lockEvents";
+import { ENTITY_LABEL_GROUPS } from "./entityConcentration";
+
+type Db = Pool | PoolClient;
+
+const DEAD = "0x000000000000000000000000000000000000dead";
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+export type LpHolderTag = "burned" | "locker" | "team" | "deployer" | "unknown";
+
+export type LpHolderRow = {
+  address: string;
+  balance_raw: string;
+  tag: LpHolderTag;
+  label: string | null;
+  adds: number;
+  removes: number;
+  lp_added_raw: string;
+  lp_removed_raw: string;
+  last_remove_time: string | null;
+};
+
+function addrOrEmpty(v?: string) {
+  const val = (v ?? "").trim().toLowerCase();
+  return /^0x[a-f0-9]{40}$/.test(val) ? val : "";
+}
+
+/**
+ * LP Transfer legs from lp_events TRANSFER rows, so that SUM = LP totalSupply:
+ * mints come from nowhere (no ZERO debit) and the pair's own burns (pair -> ZERO)
+ * land nowhere. ZERO keeps what it really holds (MINIMUM_LIQUIDITY, plain sends).
+ */
+const LEGS_SQL = `
+  tr AS (
+    SELECT
+      block_number, block_time, tx_hash, log_index,
+      metadata->>'from' AS f,
+      metadata->>'to'   AS t,
+      lp_delta_raw      AS v
+    FROM public.lp_events
+    WHERE pair_address = $1 AND event_type = 'TRANSFER'
+  ),
+  legs AS (
+    SELECT t AS address, v AS delta FROM tr WHERE NOT (t = '${ZERO}' AND f = $1)
+    UNION ALL
+    SELECT f AS address, -v AS delta FROM tr WHERE f <> '${ZERO}'
+  )
+`;
+
+/**
+ * Liquidity adds / removes with the LP holder behind them.
+ * ADD    = Mint, holder = recipient of the LP minted just before it in the same tx
+ * REMOVE = Burn, holder = whoever sent the LP to the pair just before it in the same tx
+ */
+const LIQUIDITY_SQL = `
+  liq AS (
+    SELECT
+      'ADD' AS kind,
+      m.block_number, m.block_time, m.tx_hash, m.log_index,
+      x.t AS holder,
+      x.v AS lp_raw,
+      m.token0_delta_raw AS amount0_raw,
+      m.token1_delta_raw AS amount1_raw,
+      m.metadata->>'token0' AS token0
+    FROM public.lp_events m
+    JOIN LATERAL (
+      SELECT tr.t, tr.v
+      FROM tr
+      WHERE tr.tx_hash = m.tx_hash AND tr.log_index < m.log_index
+        AND tr.f = '${ZERO}' AND tr.t <> '${ZERO}'
+      ORDER BY tr.log_index DESC
+      LIMIT 1
+    ) x ON true
+    WHERE m.pair_address = $1 AND m.event_type = 'MINT'
+
+    UNION ALL
+
+    SELECT
+      'REMOVE' AS kind,
+      b.block_number, b.block_time, b.tx_hash, b.log_index,
+      x.f AS holder,
+      x.v AS lp_raw,
+      -b.token0_delta_raw AS amount0_raw,
+      -b.token1_delta_raw AS amount1_raw,
+      b.metadata->>'token0' AS token0
+    FROM public.lp_events b
+    JOIN LATERAL (
+      SELECT tr.f, tr.v
+      FROM tr
+      WHERE tr.tx_hash = b.tx_hash AND tr.log_index < b.log_index
+        AND tr.t = $1 AND tr.f <> '${ZERO}'
+      ORDER BY tr.log_index DESC
+      LIMIT 1
+    ) x ON true
+    WHERE b.pair_address = $1 AND b.event_type = 'BURN'
+  )
+`;
+
+// BC400 deployer: env override, else whoever received the first BC400 mint
+async function getDeployer(db: Db): Promise<string> {
+  const env = addrOrEmpty(process.env.BC400_DEPLOYER_ADDRESS);
+  if (env) return env;
+
+  const r = await db.query<{ address: string }>(
+    `
+    SELECT lower(ta.address) AS address
+    FROM transfers t
+    JOIN addresses fa ON fa.id = t.from_address_id
+    JOIN addresses ta ON ta.id = t.to_address_id
+    WHERE lower(fa.address) = $1
+    ORDER BY t.block_number, t.log_index
+    LIMIT 1
+    `,
+    [ZERO]
+  );
+  return r.rows[0]?.address ?? "";
+}
+
+/** Current LP holders of `pairAddress` (largest first), tagged, with their add/remove totals. */
+export async function getLpHolders(
+  db: Db,
+  pairAddress: string,
+  limit: number
+): Promise<{
+  holders: LpHolderRow[];
+  totalRaw: string;
+  holderCount: number;
+  byTagRaw: Record<string, string>;
+  deployer: string | null;
+}> {
+  const pair = pairAddress.toLowerCase();
+  const deployer = await getDeployer(db);
+  const lockers = Array.from(knownLockers().keys());
+  const lockedEnv = addrOrEmpty(process.env.BC400_LOCKED_ADDRESS);
+  const team = [addrOrEmpty(process.env.BC400_TREASURY_WALLET), addrOrEmpty(process.env.BC400_DEV_BURN_WALLET)].filter(Boolean);
+
+  const res = await db.query<LpHolderRow & { total_raw: string; holder_count: string; by_tag: Record<string, string> }>(
+    `
+    WITH ${LEGS_SQL},
+    ${LIQUIDITY_SQL},
+    bal AS (
+      SELECT address, SUM(delta) AS balance_raw
+      FROM legs
+      GROUP BY address
+      HAVING SUM(delta) > 0
+    ),
+    lbl AS (
+      SELECT lower(a.address) AS address, array_agg(wl.label ORDER BY wl.confidence DESC) AS labels
+      FROM wallet_labels wl
+      JOIN addresses a ON a.id = wl.address_id
+      GROUP BY lower(a.address)
+    ),
+    tagged AS (
+      SELECT
+        b.address,
+        b.balance_raw,
+        CASE
+          WHEN b.address IN ('${DEAD}', '${ZERO}') OR 'burn' = ANY(COALESCE(l.labels, '{}')) THEN 'burned'
+          WHEN b.address = ANY($2::text[]) OR b.address = $3 OR 'lock_contract' = ANY(COALESCE(l.labels, '{}')) THEN 'locker'
+          WHEN b.address = $4 THEN 'deployer'
+          WHEN b.address = ANY($5::text[]) OR COALESCE(l.labels, '{}') && $6::text[] THEN 'team'
+          ELSE 'unknown'
+        END AS tag,
+        l.labels[1] AS label
+      FROM bal b
+      LEFT JOIN lbl l ON l.address = b.address
+    ),
+    totals AS (
+      SELECT
+        COALESCE(SUM(balance_raw), 0) AS total_raw,
+        COUNT(*)                      AS holder_count,
+        COALESCE(
+          (SELECT jsonb_object_agg(tag, raw::text) FROM (SELECT tag, SUM(balance_raw) AS raw FROM tagged GROUP BY tag) x),
+          '{}'::jsonb
+        ) AS by_tag
+      FROM tagged
+    ),
+    per_holder AS (
+      SELECT
+        holder,
+        COUNT(*) FILTER (WHERE kind = 'ADD')                    AS adds,
+        COUNT(*) FILTER (WHERE kind = 'REMOVE')                 AS removes,
+        COALESCE(SUM(lp_raw) FILTER (WHERE kind = 'ADD'), 0)    AS lp_added_raw,
+        COALESCE(SUM(lp_raw) FILTER (WHERE kind = 'REMOVE'), 0) AS lp_removed_raw,
+        MAX(block_time) FILTER (WHERE kind = 'REMOVE')          AS last_remove_time
+      FROM liq
+      GROUP BY holder
+    )
+    SELECT
+      g.address,
+      g.balance_raw::text AS balance_raw,
+      g.tag,
+      g.label,
+      COALESCE(p.adds, 0)::int AS adds,
+      COALESCE(p.removes, 0)::int AS removes,
+      COALESCE(p.lp_added_raw, 0)::text AS lp_added_raw,
+      COALESCE(p.lp_removed_raw, 0)::text AS lp_removed_raw,
+      p.last_remove_time::text AS last_remove_time,
+      t.total_raw::text AS total_raw,
+      t.holder_count::text AS holder_count,
+      t.by_tag
+    FROM tagged g
+    CROSS JOIN totals t
+    LEFT JOIN per_holder p ON p.holder = g.address
+    ORDER BY g.balance_raw DESC, g.address
+    LIMIT $7
+    `,
+    [pair, lockers, lockedEnv, deployer, team, ENTITY_LABEL_GROUPS, limit]
+  );
+
+  const first = res.rows[0];
+  return {
+    holders: res.rows.map(({ total_raw: _t, holder_count: _c, by_tag: _b, ...h }) => h),
+    totalRaw: first?.total_raw ?? "0",
+    holderCount: first ? Number(first.holder_count) : 0,
+    byTagRaw: first?.by_tag ?? {},
+    deployer: deployer || null,
+  };
+}
+
+export type LiquidityEventRow = {
+  kind: "ADD" | "REMOVE";
+  block_number: string;
+  block_time: string | null;
+  tx_hash: string;
+  holder: string;
+  lp_raw: string;
+  bc400_raw: string | null;
+  wbnb_raw: string | null;
+};
+
+/** Liquidity add/remove history, newest first (optionally one holder / one kind / since). */
+export async function getLiquidityEvents(
+  db: Db,
+  pairAddress: string,
+  tokenAddress: string,
+  opts: { holder?: string; kind?: "ADD" | "REMOVE"; since?: Date; limit: number }
+): Promise<LiquidityEventRow[]> {
+  const res = await db.query<LiquidityEventRow>(
+    `
+    WITH ${LEGS_SQL},
+    ${LIQUIDITY_SQL}
+    SELECT
+      kind,
+      block_number::text AS block_number,
+      block_time::text AS block_time,
+      tx_hash,
+      holder,
+      lp_raw::text AS lp_raw,
+      (CASE WHEN token0 = $2 THEN amount0_raw ELSE amount1_raw END)::text AS bc400_raw,
+      (CASE WHEN token0 = $2 THEN amount1_raw ELSE amount0_raw END)::text AS wbnb_raw
+    FROM liq
+    WHERE ($3::text IS NULL OR holder = $3)
+      AND ($4::text IS NULL OR kind = $4)
+      AND ($5::timestamptz IS NULL OR block_time >= $5)
+    ORDER BY block_number DESC, log_index DESC
+    LIMIT $6
+    `,
+    [
+      pairAddress.toLowerCase(),
+      tokenAddress.toLowerCase(),
+      opts.holder ? opts.holder.toLowerCase() : null,
+      opts.kind ?? null,
+      opts.since ?? null,
+      opts.limit,
+    ]
+  );
+  return res.rows;
+}
@@ -0,0 +1,137 @@
+import { formatUnits } from "ethers";
+
+// PancakeSwap v2: 0.25 % of the input stays in the pool (9975 / 10000)
+export const PANCAKE_V2_FEE_BPS = 25n;
+
+// "how much BC400 can be sold before the price drops X %"
+export const DEPTH_DROP_PCTS = [5, 10, 25] as const;
+
+export type PairReserves = {
+  tokenRaw: bigint;
+  wbnbRaw: bigint;
+  tokenDecimals: number;
+  wbnbDecimals: number;
+};
+
+export type SwapSide = "buy" | "sell";
+export type SwapUnit = "bc400" | "wbnb";
+
+export type SwapQuote = {
+  side: SwapSide;
+  tokenRaw: string; // BC400 received (buy) / spent (sell)
+  wbnbRaw: string; // WBNB spent (buy) / received (sell)
+  token: string;
+  wbnb: string;
+  avgPriceWbnb: number | null; // WBNB per BC400 actually paid / received
+  priceImpactPct: number; // execution vs mid price, fee included
+  priceMovePct: number; // pool price after vs before (signed)
+  reserveTokenPct: number; // share of the BC400 reserve this trade moves
+};
+
+export type DepthLevel = {
+  dropPct: number;
+  tokenRaw: string; // BC400 sold
+  token: string;
+  wbnbOutRaw: string; // WBNB the seller receives
+  wbnbOut: string;
+  reserveTokenPct: number;
+};
+
+const BPS = 10_000n;
+
+function ratioPct(numer: bigint, denom: bigint) {
+  return denom > 0n ? Number((numer * 1_000_000n) / denom) / 10_000 : 0;
+}
+
+/** UniswapV2Library.getAmountOut with the PancakeSwap v2 fee. */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps = PANCAKE_V2_FEE_BPS) {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+  const amountInWithFee = amountIn * (BPS - feeBps);
+  return (amountInWithFee * reserveOut) / (reserveIn * BPS + amountInWithFee);
+}
+
+/** UniswapV2Library.getAmountIn; null when the pool can't pay `amountOut`. */
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, feeBps = PANCAKE_V2_FEE_BPS) {
+  if (amountOut <= 0n || reserveIn <= 0n || reserveOut <= 0n || amountOut >= reserveOut) return null;
+  return (reserveIn * amountOut * BPS) / ((reserveOut - amountOut) * (BPS - feeBps)) + 1n;
+}
+
+/**
+ * Quote a buy (WBNB -> BC400) or sell (BC400 -> WBNB) against the current reserves.
+ * `unit` says which side `amountRaw` fixes: exact-in for the token paid, exact-out for the one received.
+ * Returns null when the pool can't fill the trade.
+ */
+export function quoteSwap(r: PairReserves, side: SwapSide, unit: SwapUnit, amountRaw: bigint): SwapQuote | null {
+  if (amountRaw <= 0n || r.tokenRaw <= 0n || r.wbnbRaw <= 0n) return null;
+
+  const [reserveIn, reserveOut] = side === "buy" ? [r.wbnbRaw, r.tokenRaw] : [r.tokenRaw, r.wbnbRaw];
+  const exactIn = (side === "buy" && unit === "wbnb") || (side === "sell" && unit === "bc400");
+
+  const amountIn = exactIn ? amountRaw : getAmountIn(amountRaw, reserveIn, reserveOut);
+  const amountOut = exactIn ? getAmountOut(amountRaw, reserveIn, reserveOut) : amountRaw;
+  if (amountIn === null || amountOut <= 0n) return null;
+
+  const tokenRaw = side === "buy" ? amountOut : amountIn;
+  const wbnbRaw = side === "buy" ? amountIn : amountOut;
+
+  // token price in WBNB before/after: (wbnb / token); compare cross-multiplied
+  const tokenAfter = side === "buy" ? r.tokenRaw - amountOut : r.tokenRaw + amountIn;
+  const wbnbAfter = side === "buy" ? r.wbnbRaw + amountIn : r.wbnbRaw - amountOut;
+  const before = r.wbnbRaw * tokenAfter;
+  const after = wbnbAfter * r.tokenRaw;
+
+  const token = Number(formatUnits(tokenRaw, r.tokenDecimals));
+  const wbnb = Number(formatUnits(wbnbRaw, r.wbnbDecimals));
+
+  return {
+    side,
+    tokenRaw: tokenRaw.toString(),
+    wbnbRaw: wbnbRaw.toString(),
+    token: formatUnits(tokenRaw, r.tokenDecimals),
+    wbnb: formatUnits(wbnbRaw, r.wbnbDecimals),
+    avgPriceWbnb: token > 0 ? wbnb / token : null,
+    // out at mid price = in * reserveOut / reserveIn
+    priceImpactPct: ratioPct(amountIn * reserveOut - amountOut * reserveIn, amountIn * reserveOut),
+    priceMovePct: ratioPct(after - before, before),
+    reserveTokenPct: ratioPct(tokenRaw, r.tokenRaw),
+  };
+}
+
+// price after selling `sold` is still >= (1 - drop) of the current price
+function holdsAbove(r: PairReserves, sold: bigint, dropBps: bigint) {
+  const out = getAmountOut(sold, r.tokenRaw, r.wbnbRaw);
+  return (r.wbnbRaw - out) * r.tokenRaw * BPS >= r.wbnbRaw * (r.tokenRaw + sold) * (BPS - dropBps);
+}
+
+/** Largest BC400 sell (raw) that keeps the pool price within `dropPct` of where it is now. */
+export function sellDepth(r: PairReserves, dropPct: number): DepthLevel | null {
+  if (r.tokenRaw <= 0n || r.wbnbRaw <= 0n || !(dropPct > 0 && dropPct < 100)) return null;
+  const dropBps = BigInt(Math.round(dropPct * 100));
+
+  // bracket, then binary search (price after a sell is monotonic in the amount sold)
+  let lo = 0n;
+  let hi = r.tokenRaw;
+  while (holdsAbove(r, hi, dropBps)) {
+    lo = hi;
+    hi *= 2n;
+  }
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (holdsAbove(r, mid, dropBps)) lo = mid;
+    else hi = mid;
+  }
+
+  const wbnbOut = getAmountOut(lo, r.tokenRaw, r.wbnbRaw);
+  return {
+    dropPct,
+    tokenRaw: lo.toString(),
+    token: formatUnits(lo, r.tokenDecimals),
+    wbnbOutRaw: wbnbOut.toString(),
+    wbnbOut: formatUnits(wbnbOut, r.wbnbDecimals),
+    reserveTokenPct: ratioPct(lo, r.tokenRaw),
+  };
+}
+
+export function sellDepthLevels(r: PairReserves): DepthLevel[] {
+  return DEPTH_DROP_PCTS.map((p) => sellDepth(r, p)).filter((x): x is DepthLevel => x !== null);
+}
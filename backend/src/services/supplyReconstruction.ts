@@ -0,0 +1,390 @@
+import type { Pool } from "pg";
+import { ethers } from "ethers";
+import { provider } from "../clients/bscClient";
+import { resolveAsOf } from "./balanceLedger";
+
+const ERC20_ABI = [
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address) view returns (uint256)",
+];
+
+const PAIR_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+];
+
+const CHAINLINK_AGG_ABI = [
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+  "function decimals() view returns (uint8)",
+];
+
+const DEAD = "0x000000000000000000000000000000000000dEaD";
+const ZERO = "0x0000000000000000000000000000000000000000";
+const DEFAULT_WBNB = "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c";
+
+function mustAddr(label: string, v?: string) {
+  const val = (v ?? "").trim();
+  if (!/^0x[a-fA-F0-9]{40}$/.test(val)) {
+    throw new Error(`Missing/invalid ${label}: "${val}"`);
+  }
+  return val;
+}
+
+function addrOrEmpty(v?: string) {
+  const val = (v ?? "").trim();
+  return /^0x[a-fA-F0-9]{40}$/.test(val) ? val : "";
+}
+
+function sameAddr(a?: string, b?: string) {
+  return (a ?? "").toLowerCase() === (b ?? "").toLowerCase();
+}
+
+export type ReconstructMode = "archive" | "replay";
+
+type SupplyParts = {
+  totalSupplyRaw: bigint;
+  burnedRaw: bigint;
+  lpRaw: bigint;
+  lockedRaw: bigint;
+  decimals: number;
+  priceInWbnb: number | null;
+  bnbUsd: number | null;
+  notes: string[];
+};
+
+type Config = {
+  tokenAddress: string;
+  pairAddress: string;
+  treasury: string;
+  devburn: string; // "" when unset or same as DEAD/ZERO
+  lockedAddr: string;
+  wbnb: string;
+  bnbUsdFeed: string;
+  decimals: number;
+};
+
+function loadConfig(): Omit<Config, "decimals"> {
+  const devburn = addrOrEmpty(process.env.BC400_DEV_BURN_WALLET);
+  return {
+    tokenAddress: mustAddr("BC400_TOKEN_ADDRESS", process.env.BC400_TOKEN_ADDRESS),
+    pairAddress: mustAddr("BC400_PAIR_ADDRESS", process.env.BC400_PAIR_ADDRESS),
+    treasury: addrOrEmpty(process.env.BC400_TREASURY_WALLET),
+    devburn: devburn && !sameAddr(devburn, DEAD) && !sameAddr(devburn, ZERO) ? devburn : "",
+    lockedAddr: addrOrEmpty(process.env.BC400_LOCKED_ADDRESS),
+    wbnb: (process.env.WBNB_ADDRESS || DEFAULT_WBNB).toLowerCase(),
+    bnbUsdFeed: (process.env.BNB_USD_FEED || "").trim(),
+  };
+}
+
+// same orientation rules as buildSupplySnapshot (token/WBNB pair only)
+function priceFromReserves(
+  token0: string,
+  token1: string,
+  reserve0: bigint,
+  reserve1: bigint,
+  cfg: Config
+): number | null {
+  if (reserve0 <= 0n || reserve1 <= 0n) return null;
+  const token = cfg.tokenAddress.toLowerCase();
+
+  let rToken: number;
+  let rWbnb: number;
+  if (token0 === token && token1 === cfg.wbnb) {
+    rToken = parseFloat(ethers.formatUnits(reserve0, cfg.decimals));
+    rWbnb = parseFloat(ethers.formatUnits(reserve1, 18));
+  } else if (token1 === token && token0 === cfg.wbnb) {
+    rToken = parseFloat(ethers.formatUnits(reserve1, cfg.decimals));
+    rWbnb = parseFloat(ethers.formatUnits(reserve0, 18));
+  } else {
+    return null;
+  }
+  return rToken > 0 ? rWbnb / rToken : null;
+}
+
+// Chainlink at a past block needs archive state too; no price is better than today's price
+async function bnbUsdAt(cfg: Config, blockTag: number): Promise<number | null> {
+  if (!cfg.bnbUsdFeed) return null;
+  try {
+    const feed = new ethers.Contract(cfg.bnbUsdFeed, CHAINLINK_AGG_ABI, provider);
+    const [round, feedDecimals] = await Promise.all([
+      feed.latestRoundData({ blockTag }),
+      feed.decimals({ blockTag }),
+    ]);
+    const ans = BigInt(round[1].toString());
+    return ans > 0n ? Number(ans) / Math.pow(10, Number(feedDecimals)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Token state via eth_call at `blockTag`. Throws when the RPC can't serve historical
+ * state (missing trie node / pruned), which is how the caller detects "no archive".
+ */
+async function readArchive(cfg: Config, blockTag: number): Promise<SupplyParts> {
+  const token = new ethers.Contract(cfg.tokenAddress, ERC20_ABI, provider);
+  const pair = new ethers.Contract(cfg.pairAddress, PAIR_ABI, provider);
+
+  const [totalSupply, deadBal, zeroBal, lpBal, devburnBal, lockedBal] = await Promise.all([
+    token.totalSupply({ blockTag }),
+    token.balanceOf(DEAD, { blockTag }),
+    token.balanceOf(ZERO, { blockTag }),
+    token.balanceOf(cfg.pairAddress, { blockTag }),
+    cfg.devburn ? token.balanceOf(cfg.devburn, { blockTag }) : Promise.resolve(0n),
+    cfg.lockedAddr ? token.balanceOf(cfg.lockedAddr, { blockTag }) : Promise.resolve(0n),
+  ]);
+
+  const notes: string[] = [];
+  let priceInWbnb: number | null = null;
+  try {
+    const [t0, t1, reserves] = await Promise.all([
+      pair.token0(),
+      pair.token1(),
+      pair.getReserves({ blockTag }),
+    ]);
+    priceInWbnb = priceFromReserves(
+      String(t0).toLowerCase(),
+      String(t1).toLowerCase(),
+      BigInt(reserves[0].toString()),
+      BigInt(reserves[1].toString()),
+      cfg
+    );
+  } catch {
+    notes.push("pair reserves unavailable at block (pair not created yet?)");
+  }
+
+  return {
+    totalSupplyRaw: BigInt(totalSupply),
+    burnedRaw: BigInt(deadBal) + BigInt(zeroBal) + BigInt(devburnBal),
+    lpRaw: BigInt(lpBal),
+    lockedRaw: BigInt(lockedBal),
+    decimals: cfg.decimals,
+    priceInWbnb,
+    bnbUsd: await bnbUsdAt(cfg, blockTag),
+    notes,
+  };
+}
+
+/**
+ * Token state from the indexed ledger (balance_changes) at `block`, price from the last
+ * indexed Sync of the pair. Total supply is what the ledger has minted minus what was sent
+ * to the zero address, so ZERO's own balance is not counted as burned here.
+ */
+async function readReplay(pool: Pool, cfg: Config, block: number): Promise<SupplyParts> {
+  const balances = await pool.query<{ address: string; balance_raw: string }>(
+    `
+    SELECT lower(a.address) AS address, COALESCE(SUM(c.delta_raw), 0)::text AS balance_raw
+    FROM addresses a
+    JOIN balance_changes c ON c.address_id = a.id AND c.block_number <= $2
+    WHERE lower(a.address) = ANY($1::text[])
+    GROUP BY lower(a.address)
+    `,
+    [[DEAD, cfg.pairAddress, cfg.devburn, cfg.lockedAddr].filter(Boolean).map((a) => a.toLowerCase()), block]
+  );
+  const bal = (addr: string) => {
+    if (!addr) return 0n;
+    const row = balances.rows.find((r) => r.address === addr.toLowerCase());
+    const v = row ? BigInt(row.balance_raw) : 0n;
+    return v > 0n ? v : 0n;
+  };
+
+  const supply = await pool.query<{ total_raw: string }>(
+    `
+    SELECT COALESCE(SUM(c.delta_raw), 0)::text AS total_raw
+    FROM balance_changes c
+    JOIN addresses a ON a.id = c.address_id
+    WHERE c.block_number <= $1
+      AND lower(a.address) <> $2
+    `,
+    [block, ZERO]
+  );
+
+  const sync = await pool.query<{ reserve0: string | null; reserve1: string | null; token0: string | null; token1: string | null }>(
+    `
+    SELECT
+      metadata->>'reserve0' AS reserve0,
+      metadata->>'reserve1' AS reserve1,
+      metadata->>'token0'   AS token0,
+      metadata->>'token1'   AS token1
+    FROM public.lp_events
+    WHERE lower(pair_address) = $1
+      AND event_type = 'SYNC'
+      AND block_number <= $2
+    ORDER BY block_number DESC, log_index DESC
+    LIMIT 1
+    `,
+    [cfg.pairAddress.toLowerCase(), block]
+  );
+
+  const notes = ["total supply = ledger mints minus transfers to the zero address"];
+  let priceInWbnb: number | null = null;
+  const s = sync.rows[0];
+  if (s?.reserve0 && s?.reserve1 && s?.token0 && s?.token1) {
+    priceInWbnb = priceFromReserves(s.token0, s.token1, BigInt(s.reserve0), BigInt(s.reserve1), cfg);
+  } else {
+    notes.push("no indexed Sync at or before block");
+  }
+
+  const total = BigInt(supply.rows[0]?.total_raw ?? "0");
+  return {
+    totalSupplyRaw: total > 0n ? total : 0n,
+    burnedRaw: bal(DEAD) + bal(cfg.devburn),
+    lpRaw: bal(cfg.pairAddress),
+    lockedRaw: bal(cfg.lockedAddr),
+    decimals: cfg.decimals,
+    priceInWbnb,
+    bnbUsd: await bnbUsdAt(cfg, block),
+    notes,
+  };
+}
+
+export type ReconstructOptions = {
+  from: Date;
+  to: Date;
+  stepSeconds: number;
+  mode?: ReconstructMode | "auto";
+  overwrite?: boolean; // replace earlier reconstructed rows (never live ones)
+};
+
+export type ReconstructResult = {
+  mode: ReconstructMode;
+  points: number;
+  inserted: number;
+  skipped: number;
+  reasons: Record<string, number>;
+};
+
+/**
+ * Write supply_snapshots for past timestamps (from .. to, every stepSeconds).
+ * Each timestamp maps to the last indexed block at or before it; rows are marked
+ * metadata.reconstructed = true with the method and block used.
+ */
+export async function reconstructSupplySnapshots(pool: Pool, opts: ReconstructOptions): Promise<ReconstructResult> {
+  const base = loadConfig();
+
+  const token = new ethers.Contract(base.tokenAddress, ERC20_ABI, provider);
+  const decimals = Number(await token.decimals().catch(() => 18));
+  const cfg: Config = { ...base, decimals };
+
+  const result: ReconstructResult = { mode: "replay", points: 0, inserted: 0, skipped: 0, reasons: {} };
+  const skip = (reason: string) => {
+    result.skipped += 1;
+    result.reasons[reason] = (result.reasons[reason] ?? 0) + 1;
+  };
+
+  let mode: ReconstructMode | null = opts.mode === "archive" || opts.mode === "replay" ? opts.mode : null;
+
+  for (let t = opts.from.getTime(); t <= opts.to.getTime(); t += opts.stepSeconds * 1000) {
+    const ts = new Date(t);
+    result.points += 1;
+
+    const asOf = await resolveAsOf(pool, { timestamp: ts });
+    if (!asOf) {
+      skip("nothing indexed at/before ts");
+      continue;
+    }
+
+    // auto: probe archive once on the first usable block, then stick with the answer
+    if (!mode) {
+      try {
+        await token.totalSupply({ blockTag: asOf.blockNumber });
+        mode = "archive";
+      } catch (e: any) {
+        console.log(`[supply-reconstruct] archive state unavailable (${String(e?.shortMessage ?? e?.message ?? e)}); replaying ledger`);
+        mode = "replay";
+      }
+    }
+    result.mode = mode;
+
+    const parts = mode === "archive" ? await readArchive(cfg, asOf.blockNumber) : await readReplay(pool, cfg, asOf.blockNumber);
+    if (parts.totalSupplyRaw <= 0n) {
+      skip("total_supply_raw <= 0");
+      continue;
+    }
+
+    let circulatingRaw = parts.totalSupplyRaw - parts.burnedRaw - parts.lpRaw - parts.lockedRaw;
+    if (circulatingRaw < 0n) circulatingRaw = 0n;
+
+    const priceUsd = parts.priceInWbnb != null && parts.bnbUsd != null ? parts.priceInWbnb * parts.bnbUsd : null;
+    const circulatingHuman = parseFloat(ethers.formatUnits(circulatingRaw, decimals));
+    const marketcapUsd = priceUsd != null && Number.isFinite(circulatingHuman) ? priceUsd * circulatingHuman : null;
+
+    const metadata = {
+      reconstructed: true,
+      method: mode,
+      block: asOf.blockNumber,
+      blockTime: asOf.blockTime,
+      decimals,
+      tokenAddress: cfg.tokenAddress,
+      pairAddress: cfg.pairAddress,
+      wbnbAddress: cfg.wbnb,
+      bnbUsdFeed: cfg.bnbUsdFeed || null,
+      treasury: cfg.treasury || null,
+      devburn: cfg.devburn || null,
+      lockedAddress: cfg.lockedAddr || null,
+      computed: { priceInWbnb: parts.priceInWbnb, bnbUsd: parts.bnbUsd },
+      notes: parts.notes,
+    };
+
+    // live rows always win; reconstructed rows are only replaced with overwrite
+    const ins = await pool.query(
+      `
+      INSERT INTO public.supply_snapshots (
+        token_address, ts, total_supply_raw, burned_raw, lp_raw, locked_raw,
+        circulating_raw, price_usd, marketcap_usd, metadata, price_method
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$12)
+      ON CONFLICT (ts) DO UPDATE SET
+        token_address    = EXCLUDED.token_address,
+        total_supply_raw = EXCLUDED.total_supply_raw,
+        burned_raw       = EXCLUDED.burned_raw,
+        lp_raw           = EXCLUDED.lp_raw,
+        locked_raw       = EXCLUDED.locked_raw,
+        circulating_raw  = EXCLUDED.circulating_raw,
+        price_usd        = EXCLUDED.price_usd,
+        marketcap_usd    = EXCLUDED.marketcap_usd,
+        metadata         = EXCLUDED.metadata,
+        price_method     = EXCLUDED.price_method
+      WHERE $11::boolean AND (public.supply_snapshots.metadata->>'reconstructed') = 'true'
+      `,
+      [
+        cfg.tokenAddress,
+        ts,
+        parts.totalSupplyRaw.toString(),
+        parts.burnedRaw.toString(),
+        parts.lpRaw.toString(),
+        parts.lockedRaw.toString(),
+        circulatingRaw.toString(),
+        priceUsd != null ? String(priceUsd) : null,
+        marketcapUsd != null ? String(marketcapUsd) : null,
+        metadata,
+        opts.overwrite === true,
+        // archive reserves at the block: no history to average over
+        priceUsd != null ? "spot" : null,
+      ]
+    );
+
+    if ((ins.rowCount ?? 0) > 0) result.inserted += 1;
+    else skip("snapshot already exists at ts");
+  }
+
+  return result;
+}
+
+/** First indexed ledger time (token launch as far as the indexer knows) and first live snapshot. */
+export async function getReconstructionBounds(pool: Pool) {
+  const r = await pool.query<{ first_ledger: string | null; first_live: string | null }>(
+    `
+    SELECT
+      (SELECT MIN(block_time)::text FROM balance_changes) AS first_ledger,
+      (SELECT MIN(ts)::text FROM public.supply_snapshots
+        WHERE COALESCE(metadata->>'reconstructed', 'false') <> 'true') AS first_live
+    `
+  );
+  const row = r.rows[0];
+  return {
+    firstLedger: row?.first_ledger ? new Date(row.first_ledger) : null,
+    firstLive: row?.first_live ? new Date(row.first_live) : null,
+  };
+}
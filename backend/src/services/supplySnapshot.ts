@@ -1,5 +1,7 @@
 import type { Pool } from "pg";
 import { ethers } from "ethers";
+import { provider } from "../clients/bscClient";
+import { PriceMethod, resolveTokenPrice } from "./tokenPrice";
 
 const ERC20_ABI = [
   "function name() view returns (string)",
@@ -51,6 +53,7 @@ export type SupplySnapshotInsert = {
   circulating_raw: string;
   price_usd: string | null;
   marketcap_usd: string | null;
+  price_method: PriceMethod | null;
   metadata: any;
 };
 
@@ -60,10 +63,7 @@ export type InsertSupplySnapshotResult = {
   reason?: string;
 };
 
-export async function buildSupplySnapshot(): Promise<{ snapshot: SupplySnapshotInsert }> {
-  const rpcUrl = (process.env.BSC_RPC_URL || "").trim();
-  if (!rpcUrl) throw new Error("Missing BSC_RPC_URL");
-
+export async function buildSupplySnapshot(pool: Pool): Promise<{ snapshot: SupplySnapshotInsert }> {
   const tokenAddress = mustAddr("BC400_TOKEN_ADDRESS", process.env.BC400_TOKEN_ADDRESS);
   const pairAddress = mustAddr("BC400_PAIR_ADDRESS", process.env.BC400_PAIR_ADDRESS);
 
@@ -71,7 +71,6 @@ export async function buildSupplySnapshot(): Promise<{ snapshot: SupplySnapshotI
   const devburn = addrOrEmpty(process.env.BC400_DEV_BURN_WALLET);
   const lockedAddr = addrOrEmpty(process.env.BC400_LOCKED_ADDRESS);
 
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
   const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
   const pair = new ethers.Contract(pairAddress, PAIR_ABI, provider);
 
@@ -155,8 +154,15 @@ export async function buildSupplySnapshot(): Promise<{ snapshot: SupplySnapshotI
     }
   }
 
-  const priceUsd =
-    priceInWbnb != null && bnbUsd != null ? priceInWbnb * bnbUsd : null;
+  // spot / TWAP / liquidity-weighted per PRICE_METHOD; the method used is stored with the row
+  const price = await resolveTokenPrice(pool, {
+    pairAddress,
+    tokenAddress,
+    tokenDecimals,
+    spotWbnb: priceInWbnb,
+    bnbUsd,
+  });
+  const priceUsd = price.priceUsd;
 
   const circulatingHuman = parseFloat(
     ethers.formatUnits(circulatingRaw, tokenDecimals)
@@ -183,7 +189,17 @@ export async function buildSupplySnapshot(): Promise<{ snapshot: SupplySnapshotI
     devburn: includeDevburn ? devburn : null,
     devburnSkippedBecauseOverlap: devburn && !includeDevburn ? devburn : null,
     lockedAddress: lockedAddr || null,
-    computed: { priceInWbnb, bnbUsd },
+    computed: { priceInWbnb, bnbUsd, priceMethod: price.method },
+    price: {
+      method: price.method,
+      requested: price.requested,
+      spotUsd: price.spot.priceUsd,
+      twapUsd: price.twap?.priceUsd ?? null,
+      twapCoveragePct: price.twap?.coveragePct ?? null,
+      liquidityWeightedUsd: price.liquidityWeighted?.priceUsd ?? null,
+      deviation: price.deviation,
+      warnings: price.warnings,
+    },
   };
 
   const snapshot: SupplySnapshotInsert = {
@@ -196,6 +212,7 @@ export async function buildSupplySnapshot(): Promise<{ snapshot: SupplySnapshotI
     circulating_raw: circulatingRaw.toString(),
     price_usd: priceUsd != null ? String(priceUsd) : null,
     marketcap_usd: marketcapUsd != null ? String(marketcapUsd) : null,
+    price_method: priceUsd != null ? price.method : null,
     metadata,
   };
 
@@ -237,7 +254,7 @@ function asBig(v: string | null | undefined) {
 }
 
 export async function insertSupplySnapshot(pool: Pool): Promise<InsertSupplySnapshotResult> {
-  const { snapshot } = await buildSupplySnapshot();
+  const { snapshot } = await buildSupplySnapshot(pool);
 
   // -----------------------
   // Guard rails
@@ -284,8 +301,9 @@ export async function insertSupplySnapshot(pool: Pool): Promise<InsertSupplySnap
       circulating_raw,
       price_usd,
       marketcap_usd,
+      price_method,
       metadata
-    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
     `,
     [
       snapshot.token_address,
@@ -297,6 +315,7 @@ export async function insertSupplySnapshot(pool: Pool): Promise<InsertSupplySnap
       snapshot.circulating_raw,
       snapshot.price_usd,
       snapshot.marketcap_usd,
+      snapshot.price_method,
       snapshot.metadata,
     ]
   );
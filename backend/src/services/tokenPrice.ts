@@ -0,0 +1,219 @@
+import type { Pool, PoolClient } from "pg";
+import { callRpc, provider } from "../clients/bscClient";
+import { aggregatePools, listDexPools } from "./dexPools";
+
+type Db = Pool | PoolClient;
+
+export type PriceMethod = "spot" | "twap" | "liquidity_weighted";
+
+export const PRICE_METHODS: PriceMethod[] = ["spot", "twap", "liquidity_weighted"];
+
+export type TwapReading = {
+  priceWbnb: number | null;
+  windowSeconds: number;
+  from: string;
+  to: string;
+  syncs: number; // Sync events inside the window (+1 for the carried-in price)
+  coveragePct: number; // share of the window with a known price
+  lastSyncAt: string | null;
+};
+
+/**
+ * Time-weighted average token price (WBNB per token) over [end - window, end] from the
+ * pair's stored Sync reserves (lp_events): each Sync's price holds until the next one,
+ * and the last Sync before the window carries in. A swap only moves the TWAP by its
+ * price times the time it stayed in the pool. `end` must not be past the indexed head
+ * (see indexedHeadTime): the last Sync is only known to hold up to there.
+ */
+export async function getTwapWbnb(
+  db: Db,
+  pairAddress: string,
+  tokenAddress: string,
+  tokenDecimals: number,
+  windowSeconds: number,
+  end: Date = new Date()
+): Promise<TwapReading> {
+  const from = new Date(end.getTime() - windowSeconds * 1000);
+
+  const r = await db.query<{ twap: number | null; syncs: string; covered_seconds: number | null; last_sync: string | null }>(
+    `
+    WITH px AS (
+      SELECT
+        block_time,
+        block_number,
+        log_index,
+        CASE
+          WHEN metadata->>'token0' = $2 THEN
+            ((metadata->>'reserve1')::numeric / 1e18)
+            / NULLIF((metadata->>'reserve0')::numeric / (10::numeric ^ $3::int), 0)
+          ELSE
+            ((metadata->>'reserve0')::numeric / 1e18)
+            / NULLIF((metadata->>'reserve1')::numeric / (10::numeric ^ $3::int), 0)
+        END AS price
+      FROM public.lp_events
+      WHERE pair_address = $1
+        AND event_type = 'SYNC'
+        AND block_time IS NOT NULL
+    ),
+    pts AS (
+      (SELECT $4::timestamptz AS t, block_number, log_index, price
+       FROM px
+       WHERE block_time <= $4
+       ORDER BY block_time DESC, block_number DESC, log_index DESC
+       LIMIT 1)
+      UNION ALL
+      SELECT block_time AS t, block_number, log_index, price
+      FROM px
+      WHERE block_time > $4 AND block_time <= $5
+    ),
+    seg AS (
+      SELECT
+        price,
+        extract(epoch FROM COALESCE(LEAD(t) OVER (ORDER BY t, block_number, log_index), $5::timestamptz) - t) AS secs
+      FROM pts
+      WHERE price IS NOT NULL
+    )
+    SELECT
+      (SUM(price * secs::numeric) / NULLIF(SUM(secs::numeric), 0))::float8 AS twap,
+      COUNT(*)::text AS syncs,
+      SUM(secs)::float8 AS covered_seconds,
+      (SELECT MAX(block_time) FROM px WHERE block_time <= $5)::text AS last_sync
+    FROM seg
+    `,
+    [pairAddress.toLowerCase(), tokenAddress.toLowerCase(), tokenDecimals, from, end]
+  );
+
+  const row = r.rows[0];
+  const covered = Number(row?.covered_seconds ?? 0);
+  return {
+    priceWbnb: row?.twap ?? null,
+    windowSeconds,
+    from: from.toISOString(),
+    to: end.toISOString(),
+    syncs: Number(row?.syncs ?? 0),
+    coveragePct: windowSeconds > 0 ? Math.min(100, (covered / windowSeconds) * 100) : 0,
+    lastSyncAt: row?.last_sync ? new Date(row.last_sync).toISOString() : null,
+  };
+}
+
+export type PriceReading = {
+  method: PriceMethod; // the one priceUsd/priceWbnb come from
+  requested: PriceMethod | "auto";
+  priceUsd: number | null;
+  priceWbnb: number | null;
+  bnbUsd: number | null;
+  spot: { priceWbnb: number | null; priceUsd: number | null };
+  twap: (TwapReading & { priceUsd: number | null }) | null;
+  liquidityWeighted: { priceUsd: number | null; pools: number } | null;
+  deviation: { spotVsTwapPct: number | null; thresholdPct: number; flagged: boolean };
+  warnings: string[];
+};
+
+/** Block time of meta.last_indexed_block: stored Syncs are complete up to here, not up to now. */
+async function indexedHeadTime(db: Db): Promise<Date | null> {
+  const r = await db.query<{ value: string }>(`SELECT value FROM meta WHERE key = 'last_indexed_block'`);
+  const block = r.rows[0]?.value;
+  if (!block) return null;
+  const b = await callRpc(() => provider.getBlock(Number(block)), `getBlock(${block})`);
+  return b ? new Date(Number(b.timestamp) * 1000) : null;
+}
+
+function requestedMethod(): PriceMethod | "auto" {
+  const v = String(process.env.PRICE_METHOD || "auto").trim().toLowerCase();
+  return (PRICE_METHODS as string[]).includes(v) ? (v as PriceMethod) : "auto";
+}
+
+/**
+ * Spot, TWAP and liquidity-weighted (all dex_pools) prices side by side, plus the one to use.
+ * PRICE_METHOD=spot|twap|liquidity_weighted|auto (default auto: TWAP when the stored Syncs
+ * cover at least half the window, else spot). An unavailable requested method falls back to spot.
+ * The TWAP window ends at the indexed head; a head older than the window means no TWAP.
+ * Spot vs TWAP beyond PRICE_DEVIATION_PCT (default 10) is flagged as a possible manipulation.
+ */
+export async function resolveTokenPrice(
+  db: Db,
+  input: {
+    pairAddress: string;
+    tokenAddress: string;
+    tokenDecimals: number;
+    spotWbnb: number | null;
+    bnbUsd: number | null;
+  }
+): Promise<PriceReading> {
+  const windowMinutes = Math.max(1, Number(process.env.PRICE_TWAP_MINUTES || "60"));
+  const thresholdPct = Number(process.env.PRICE_DEVIATION_PCT || "10");
+  const requested = requestedMethod();
+  const warnings: string[] = [];
+  const { bnbUsd } = input;
+  const usd = (wbnb: number | null) => (wbnb !== null && bnbUsd ? wbnb * bnbUsd : null);
+
+  let twap: PriceReading["twap"] = null;
+  try {
+    const now = Date.now();
+    const head = await indexedHeadTime(db);
+    if (!head) {
+      warnings.push("TWAP unavailable: no last_indexed_block yet");
+    } else if (head.getTime() < now - windowMinutes * 60_000) {
+      warnings.push(`TWAP unavailable: indexer head (${head.toISOString()}) is older than the ${windowMinutes}m window`);
+    } else {
+      const end = new Date(Math.min(now, head.getTime()));
+      const t = await getTwapWbnb(db, input.pairAddress, input.tokenAddress, input.tokenDecimals, windowMinutes * 60, end);
+      twap = { ...t, priceUsd: usd(t.priceWbnb) };
+    }
+  } catch (e) {
+    warnings.push(`TWAP unavailable: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  let liquidityWeighted: PriceReading["liquidityWeighted"] = null;
+  try {
+    const agg = aggregatePools(await listDexPools(db, input.tokenAddress));
+    liquidityWeighted = { priceUsd: agg.priceUsd, pools: agg.pricedPools };
+  } catch (e) {
+    warnings.push(`Pool registry unavailable: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const spot = { priceWbnb: input.spotWbnb, priceUsd: usd(input.spotWbnb) };
+  const twapOk = twap !== null && twap.priceWbnb !== null && twap.coveragePct >= 50;
+
+  const spotVsTwapPct =
+    twapOk && spot.priceWbnb !== null ? ((spot.priceWbnb - twap!.priceWbnb!) / twap!.priceWbnb!) * 100 : null;
+  const flagged = spotVsTwapPct !== null && Math.abs(spotVsTwapPct) > thresholdPct;
+  if (flagged) {
+    warnings.push(
+      `Spot deviates ${spotVsTwapPct!.toFixed(2)}% from the ${windowMinutes}m TWAP (threshold ${thresholdPct}%)`
+    );
+  }
+
+  let method: PriceMethod = "spot";
+  if (requested === "twap" || requested === "auto") {
+    if (twapOk) method = "twap";
+    else if (requested === "twap") warnings.push("TWAP requested but not available (stale index or < 50% coverage); using spot");
+  } else if (requested === "liquidity_weighted") {
+    if (liquidityWeighted?.priceUsd != null) method = "liquidity_weighted";
+    else warnings.push("Liquidity-weighted price requested but no priced pools are registered; using spot");
+  }
+
+  const priceUsd =
+    method === "twap" ? twap!.priceUsd : method === "liquidity_weighted" ? liquidityWeighted!.priceUsd : spot.priceUsd;
+  const priceWbnb =
+    method === "twap"
+      ? twap!.priceWbnb
+      : method === "liquidity_weighted"
+        ? priceUsd !== null && bnbUsd
+          ? priceUsd / bnbUsd
+          : null
+        : spot.priceWbnb;
+
+  return {
+    method,
+    requested,
+    priceUsd,
+    priceWbnb,
+    bnbUsd,
+    spot,
+    twap,
+    liquidityWeighted,
+    deviation: { spotVsTwapPct, thresholdPct, flagged },
+    warnings,
+  };
+}
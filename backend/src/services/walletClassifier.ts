@@ -0,0 +1,278 @@
+import type { Pool } from "pg";
+import { ethers } from "ethers";
+import { callRpc, provider } from "../clients/bscClient";
+import { syncHolderTags } from "./walletLabels";
+
+const DEAD = "0x000000000000000000000000000000000000dead";
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+// PancakeSwap v2 factory / router on BSC
+const PANCAKE_V2_FACTORY = "0xca143ce32fe78f1f7019d7d551a6402fc5350c73";
+const PANCAKE_V2_ROUTER = "0x10ed43c718714eb63d5aa57b78b54704e256024e";
+
+const PAIR_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function factory() view returns (address)",
+];
+
+const ROUTER_ABI = ["function factory() view returns (address)", "function WETH() view returns (address)"];
+
+// ------------------- Tuning -------------------
+const MAX_CANDIDATES = Number(process.env.CLASSIFIER_MAX_ADDRESSES || "500");
+const CEX_MIN_SENDERS = Number(process.env.CLASSIFIER_CEX_MIN_SENDERS || "200");
+const CEX_FAN_IN_RATIO = Number(process.env.CLASSIFIER_CEX_FAN_IN_RATIO || "5");
+const ROUTER_MIN_TXS = Number(process.env.CLASSIFIER_ROUTER_MIN_TXS || "50");
+const ROUTER_PASSTHROUGH_SHARE = Number(process.env.CLASSIFIER_ROUTER_PASSTHROUGH_SHARE || "0.8");
+
+function addrOrEmpty(v?: string) {
+  const val = (v ?? "").trim().toLowerCase();
+  return /^0x[a-f0-9]{40}$/.test(val) ? val : "";
+}
+
+function csvAddrs(v?: string) {
+  return String(v || "")
+    .split(",")
+    .map((s) => addrOrEmpty(s))
+    .filter(Boolean);
+}
+
+type CandidateStats = {
+  address_id: number;
+  address: string;
+  senders: number;
+  receivers: number;
+  tx_total: number;
+  passthrough_txs: number;
+};
+
+export type AutoLabel = { label: string; confidence: number; reason: string };
+
+export type ClassifierResult = {
+  candidates: number;
+  contracts: number;
+  labelled: number;
+  written: number;
+  removed: number;
+  skippedManual: number;
+  byLabel: Record<string, number>;
+};
+
+async function loadCandidates(pool: Pool, extra: string[]): Promise<CandidateStats[]> {
+  const res = await pool.query<CandidateStats>(
+    `
+    WITH picked AS (
+      (SELECT address_id FROM holder_balances ORDER BY balance_raw::numeric DESC LIMIT $1)
+      UNION
+      (SELECT to_address_id FROM transfers GROUP BY to_address_id ORDER BY COUNT(DISTINCT from_address_id) DESC LIMIT $1)
+      UNION
+      (SELECT from_address_id FROM transfers GROUP BY from_address_id ORDER BY COUNT(*) DESC LIMIT $1)
+      UNION
+      (SELECT id FROM addresses WHERE address = ANY($2::text[]))
+    )
+    SELECT
+      a.id AS address_id,
+      a.address,
+      (SELECT COUNT(DISTINCT t.from_address_id) FROM transfers t WHERE t.to_address_id = a.id)::int AS senders,
+      (SELECT COUNT(DISTINCT t.to_address_id)   FROM transfers t WHERE t.from_address_id = a.id)::int AS receivers,
+      (SELECT COUNT(DISTINCT t.tx_hash) FROM transfers t
+        WHERE t.from_address_id = a.id OR t.to_address_id = a.id)::int AS tx_total,
+      -- txs where the address both received and forwarded BC400 (router / aggregator hop)
+      (SELECT COUNT(DISTINCT i.tx_hash) FROM transfers i
+        JOIN transfers o ON o.tx_hash = i.tx_hash AND o.from_address_id = a.id
+        WHERE i.to_address_id = a.id)::int AS passthrough_txs
+    FROM picked p
+    JOIN addresses a ON a.id = p.address_id
+    `,
+    [MAX_CANDIDATES, extra]
+  );
+  return res.rows;
+}
+
+async function isContract(address: string): Promise<boolean> {
+  const code = await callRpc(() => provider.getCode(address), `getCode(${address})`);
+  return typeof code === "string" && code !== "0x";
+}
+
+// reverts / undecodable returns (not a pair / not a router) are expected -> null.
+// Anything else (timeouts, rate limits) is rethrown so the address is skipped and keeps its labels.
+async function tryView<T>(fn: () => Promise<T>): Promise<T | null> {
+  try {
+    return await fn();
+  } catch (e) {
+    if (ethers.isError(e, "CALL_EXCEPTION") || ethers.isError(e, "BAD_DATA")) return null;
+    throw e;
+  }
+}
+
+/** Rules for one address. Config addresses from env win over heuristics. */
+async function classifyOne(c: CandidateStats, cfg: Record<string, AutoLabel>): Promise<{ contract: boolean; labels: AutoLabel[] }> {
+  const addr = c.address.toLowerCase();
+  const labels: AutoLabel[] = [];
+
+  if (cfg[addr]) labels.push(cfg[addr]);
+
+  if (addr === DEAD || addr === ZERO) {
+    labels.push({ label: "burn", confidence: 1, reason: "well-known burn sink" });
+    return { contract: false, labels };
+  }
+
+  const contract = await isContract(addr);
+
+  if (contract) {
+    const pair = new ethers.Contract(addr, PAIR_ABI, provider);
+    const [t0, t1] = await Promise.all([tryView(() => pair.token0()), tryView(() => pair.token1())]);
+
+    if (t0 && t1) {
+      const factory = String((await tryView(() => pair.factory())) ?? "").toLowerCase();
+      const pancake = factory === PANCAKE_V2_FACTORY;
+      labels.push({
+        label: "lp_pair",
+        confidence: pancake ? 0.99 : 0.9,
+        reason: `token0()/token1() = ${String(t0).toLowerCase()}/${String(t1).toLowerCase()}${factory ? ` factory=${factory}` : ""}`,
+      });
+    } else if (addr === PANCAKE_V2_ROUTER) {
+      labels.push({ label: "router", confidence: 0.99, reason: "PancakeSwap v2 router" });
+    } else {
+      const router = new ethers.Contract(addr, ROUTER_ABI, provider);
+      const [factory, weth] = await Promise.all([tryView(() => router.factory()), tryView(() => router.WETH())]);
+      const passShare = c.tx_total > 0 ? c.passthrough_txs / c.tx_total : 0;
+
+      if (factory && weth) {
+        labels.push({ label: "router", confidence: 0.95, reason: `router interface (factory()+WETH()) factory=${String(factory).toLowerCase()}` });
+      } else if (c.tx_total >= ROUTER_MIN_TXS && passShare >= ROUTER_PASSTHROUGH_SHARE) {
+        labels.push({
+          label: "router",
+          confidence: Math.min(0.85, 0.5 + passShare * 0.35),
+          reason: `forwards BC400 within the same tx in ${(passShare * 100).toFixed(0)}% of ${c.tx_total} txs`,
+        });
+      }
+    }
+  } else {
+    // vanity burn addresses (0x000…dead-style EOAs nobody can sign for) that never send
+    if (/^0x0{30,}/.test(addr) && c.receivers === 0) {
+      labels.push({ label: "burn", confidence: 0.9, reason: "zero-prefixed address that never sends" });
+    }
+
+    // exchange deposit / hot wallet: many distinct senders, few destinations
+    const ratio = c.senders / Math.max(c.receivers, 1);
+    if (c.senders >= CEX_MIN_SENDERS && ratio >= CEX_FAN_IN_RATIO) {
+      const conf = Math.min(0.9, 0.5 + 0.2 * Math.log10(c.senders / CEX_MIN_SENDERS + 1) + 0.05 * Math.log10(ratio));
+      labels.push({
+        label: "cex",
+        confidence: Number(conf.toFixed(2)),
+        reason: `fan-in: ${c.senders} distinct senders vs ${c.receivers} receivers`,
+      });
+    }
+  }
+
+  return { contract, labels };
+}
+
+/**
+ * Classify high-signal addresses and write wallet_labels with source 'auto'.
+ * - addresses that carry any manual/import label are left alone entirely
+ * - existing auto labels that no longer match are removed
+ */
+export async function runWalletClassifier(pool: Pool): Promise<ClassifierResult> {
+  // configured addresses are labelled as-is (they're operator facts, not heuristics)
+  const cfg: Record<string, AutoLabel> = {};
+  const pairAddr = addrOrEmpty(process.env.BC400_PAIR_ADDRESS);
+  const treasury = addrOrEmpty(process.env.BC400_TREASURY_WALLET);
+  const devburn = addrOrEmpty(process.env.BC400_DEV_BURN_WALLET);
+  const locked = addrOrEmpty(process.env.BC400_LOCKED_ADDRESS);
+  if (pairAddr) cfg[pairAddr] = { label: "lp_pair", confidence: 1, reason: "BC400_PAIR_ADDRESS" };
+  if (treasury) cfg[treasury] = { label: "treasury", confidence: 1, reason: "BC400_TREASURY_WALLET" };
+  if (devburn) cfg[devburn] = { label: "burn", confidence: 1, reason: "BC400_DEV_BURN_WALLET" };
+  if (locked) cfg[locked] = { label: "lock_contract", confidence: 0.9, reason: "BC400_LOCKED_ADDRESS" };
+  for (const a of csvAddrs(process.env.CLASSIFIER_LOCKER_ADDRESSES)) {
+    cfg[a] = { label: "lock_contract", confidence: 0.95, reason: "CLASSIFIER_LOCKER_ADDRESSES" };
+  }
+  for (const a of csvAddrs(process.env.CLASSIFIER_CEX_ADDRESSES)) {
+    cfg[a] = { label: "cex", confidence: 0.95, reason: "CLASSIFIER_CEX_ADDRESSES" };
+  }
+
+  const candidates = await loadCandidates(pool, [DEAD, ZERO, PANCAKE_V2_ROUTER, ...Object.keys(cfg)]);
+
+  const protectedRes = await pool.query<{ address_id: number }>(
+    `SELECT DISTINCT address_id FROM wallet_labels WHERE source <> 'auto' AND address_id = ANY($1::int[])`,
+    [candidates.map((c) => c.address_id)]
+  );
+  const protectedIds = new Set(protectedRes.rows.map((r) => Number(r.address_id)));
+
+  const result: ClassifierResult = {
+    candidates: candidates.length,
+    contracts: 0,
+    labelled: 0,
+    written: 0,
+    removed: 0,
+    skippedManual: 0,
+    byLabel: {},
+  };
+
+  const decided = new Map<number, AutoLabel[]>();
+  for (const c of candidates) {
+    if (protectedIds.has(c.address_id)) {
+      result.skippedManual++;
+      continue;
+    }
+
+    try {
+      const { contract, labels } = await classifyOne(c, cfg);
+      if (contract) result.contracts++;
+
+      // one row per label; keep the most confident reason
+      const best = new Map<string, AutoLabel>();
+      for (const l of labels) {
+        const prev = best.get(l.label);
+        if (!prev || l.confidence > prev.confidence) best.set(l.label, l);
+      }
+      decided.set(c.address_id, Array.from(best.values()));
+    } catch (e) {
+      console.warn(`[classifier] ${c.address} skipped:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    for (const [addressId, labels] of decided) {
+      if (labels.length) result.labelled++;
+
+      for (const l of labels) {
+        // never touch manual/import rows (guarded again in SQL in case one appeared mid-run)
+        const w = await client.query(
+          `
+          INSERT INTO wallet_labels (address_id, label, source, confidence, notes)
+          VALUES ($1, $2, 'auto', $3, $4)
+          ON CONFLICT (address_id, label) DO UPDATE SET
+            confidence = EXCLUDED.confidence,
+            notes      = EXCLUDED.notes,
+            updated_at = now()
+          WHERE wallet_labels.source = 'auto'
+          `,
+          [addressId, l.label, l.confidence, `auto: ${l.reason}`]
+        );
+        result.written += w.rowCount ?? 0;
+        result.byLabel[l.label] = (result.byLabel[l.label] || 0) + 1;
+      }
+
+      const del = await client.query(
+        `DELETE FROM wallet_labels WHERE address_id = $1 AND source = 'auto' AND NOT (label = ANY($2::text[]))`,
+        [addressId, labels.map((l) => l.label)]
+      );
+      result.removed += del.rowCount ?? 0;
+    }
+
+    await syncHolderTags(client, Array.from(decided.keys()));
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  return result;
+}
@@ -0,0 +1,294 @@
+import type { Pool } from "pg";
+
+const DEAD = "0x000000000000000000000000000000000000dead";
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+// labels that describe shared infrastructure, never one owner
+const HUB_LABELS = ["lp_pair", "router", "cex", "burn", "lock_contract", "staking_contract"];
+
+// ------------------- Tuning -------------------
+// a funder with more fresh wallets than this is a distributor (airdrop, exchange), not one owner
+const MAX_FUNDER_FANOUT = Number(process.env.CLUSTER_MAX_FUNDER_FANOUT || "50");
+const MIN_SWEEP_SHARE = Number(process.env.CLUSTER_MIN_SWEEP_SHARE || "0.9");
+const MAX_SWEEPERS = Number(process.env.CLUSTER_MAX_SWEEPERS || "100");
+const SAME_BLOCK_MIN = Number(process.env.CLUSTER_SAME_BLOCK_MIN || "3");
+const SAME_BLOCK_MAX = Number(process.env.CLUSTER_SAME_BLOCK_MAX || "25");
+const SAME_BLOCK_ENABLED = String(process.env.CLUSTER_SAME_BLOCK_ENABLED || "true").toLowerCase() !== "false";
+
+export type ClusterReason = "common_funder" | "sweep_destination" | "same_block_funding";
+
+type Link = { a: number; b: number; reason: ClusterReason; evidence: Record<string, any> };
+
+export type ClusteringResult = {
+  links: number;
+  clusters: number;
+  clusteredAddresses: number;
+  byReason: Record<string, number>;
+};
+
+// union-find over address ids
+class DisjointSet {
+  private parent = new Map<number, number>();
+
+  find(x: number): number {
+    let p = this.parent.get(x);
+    if (p === undefined) {
+      this.parent.set(x, x);
+      return x;
+    }
+    while (p !== x) {
+      const gp = this.parent.get(p)!;
+      this.parent.set(x, gp);
+      x = p;
+      p = gp;
+    }
+    return x;
+  }
+
+  union(a: number, b: number) {
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra === rb) return;
+    // smallest id becomes the root -> stable cluster ids across runs
+    if (ra < rb) this.parent.set(rb, ra);
+    else this.parent.set(ra, rb);
+  }
+
+  keys() {
+    return Array.from(this.parent.keys());
+  }
+}
+
+function addrOrEmpty(v?: string) {
+  const val = (v ?? "").trim().toLowerCase();
+  return /^0x[a-f0-9]{40}$/.test(val) ? val : "";
+}
+
+async function loadHubIds(pool: Pool): Promise<Set<number>> {
+  const envHubs = [
+    DEAD,
+    ZERO,
+    addrOrEmpty(process.env.BC400_PAIR_ADDRESS),
+    addrOrEmpty(process.env.BC400_LOCKED_ADDRESS),
+    addrOrEmpty(process.env.BC400_DEV_BURN_WALLET),
+  ].filter(Boolean);
+
+  const res = await pool.query<{ id: number }>(
+    `
+    SELECT id FROM addresses WHERE address = ANY($1::text[])
+    UNION
+    SELECT address_id FROM wallet_labels WHERE label = ANY($2::text[])
+    `,
+    [envHubs, HUB_LABELS]
+  );
+  return new Set(res.rows.map((r) => Number(r.id)));
+}
+
+/** Each address's first inbound transfer (its "funding" event). */
+async function loadFirstFunding(pool: Pool) {
+  const res = await pool.query<{ address_id: number; funder_id: number; block_number: string; tx_hash: string }>(
+    `
+    SELECT DISTINCT ON (t.to_address_id)
+      t.to_address_id   AS address_id,
+      t.from_address_id AS funder_id,
+      t.block_number::text AS block_number,
+      t.tx_hash
+    FROM transfers t
+    WHERE t.from_address_id <> t.to_address_id
+    ORDER BY t.to_address_id, t.block_number, t.log_index
+    `
+  );
+  return res.rows.map((r) => ({ ...r, address_id: Number(r.address_id), funder_id: Number(r.funder_id) }));
+}
+
+/** Senders whose outflow goes (almost) entirely to one destination. */
+async function loadSweeps(pool: Pool) {
+  const res = await pool.query<{ sender_id: number; dest_id: number; share: string; sent_raw: string }>(
+    `
+    WITH outflow AS (
+      SELECT from_address_id AS s, to_address_id AS d, SUM(raw_amount::numeric) AS amt
+      FROM transfers
+      WHERE from_address_id <> to_address_id
+      GROUP BY 1, 2
+    ),
+    total AS (
+      SELECT s, SUM(amt) AS total FROM outflow GROUP BY s
+    ),
+    top_dest AS (
+      SELECT DISTINCT ON (s) s, d, amt FROM outflow ORDER BY s, amt DESC
+    )
+    SELECT
+      top_dest.s AS sender_id,
+      top_dest.d AS dest_id,
+      (top_dest.amt / total.total)::text AS share,
+      top_dest.amt::text AS sent_raw
+    FROM top_dest
+    JOIN total ON total.s = top_dest.s
+    WHERE total.total > 0 AND top_dest.amt / total.total >= $1
+    `,
+    [MIN_SWEEP_SHARE]
+  );
+  return res.rows.map((r) => ({ ...r, sender_id: Number(r.sender_id), dest_id: Number(r.dest_id) }));
+}
+
+function groupBy<T, K>(rows: T[], key: (r: T) => K): Map<K, T[]> {
+  const m = new Map<K, T[]>();
+  for (const r of rows) {
+    const k = key(r);
+    const arr = m.get(k);
+    if (arr) arr.push(r);
+    else m.set(k, [r]);
+  }
+  return m;
+}
+
+/**
+ * Rebuild wallet clusters from the transfers graph:
+ * - common_funder:       a non-hub address that made the first funding transfer to 2..MAX wallets
+ * - sweep_destination:   2+ wallets that send >= MIN_SWEEP_SHARE of their outflow to the same non-hub address
+ * - same_block_funding:  SAME_BLOCK_MIN..MAX wallets first funded in the same block by non-hub senders
+ * Links to hubs (pair, routers, CEX, burn, lockers) are never made.
+ */
+export async function runWalletClustering(pool: Pool): Promise<ClusteringResult> {
+  const hubs = await loadHubIds(pool);
+  const links: Link[] = [];
+
+  const funding = (await loadFirstFunding(pool)).filter((f) => !hubs.has(f.address_id));
+
+  // common funder
+  for (const [funderId, funded] of groupBy(funding, (f) => f.funder_id)) {
+    if (hubs.has(funderId) || funded.length < 2 || funded.length > MAX_FUNDER_FANOUT) continue;
+    for (const f of funded) {
+      links.push({
+        a: funderId,
+        b: f.address_id,
+        reason: "common_funder",
+        evidence: { fundedWallets: funded.length, block: f.block_number, txHash: f.tx_hash },
+      });
+    }
+  }
+
+  // same-block first funding (bundled sniper / airdrop-to-self pattern). Buys from the pair/router
+  // are hub-funded and skipped: unrelated buyers in one block share nothing but the block.
+  const sameBlock = funding.filter((f) => !hubs.has(f.funder_id));
+  for (const [block, funded] of SAME_BLOCK_ENABLED ? groupBy(sameBlock, (f) => f.block_number) : []) {
+    if (funded.length < SAME_BLOCK_MIN || funded.length > SAME_BLOCK_MAX) continue;
+    const [first, ...rest] = funded;
+    for (const f of rest) {
+      links.push({
+        a: first.address_id,
+        b: f.address_id,
+        reason: "same_block_funding",
+        evidence: { block, funder: f.funder_id, wallets: funded.length, txHash: f.tx_hash },
+      });
+    }
+  }
+
+  // sweep to the same destination
+  const sweeps = (await loadSweeps(pool)).filter((s) => !hubs.has(s.sender_id) && !hubs.has(s.dest_id));
+  for (const [destId, senders] of groupBy(sweeps, (s) => s.dest_id)) {
+    if (senders.length < 2 || senders.length > MAX_SWEEPERS) continue;
+    for (const s of senders) {
+      links.push({
+        a: destId,
+        b: s.sender_id,
+        reason: "sweep_destination",
+        evidence: { sweepers: senders.length, share: Number(s.share), sentRaw: s.sent_raw },
+      });
+    }
+  }
+
+  const ds = new DisjointSet();
+  for (const l of links) ds.union(l.a, l.b);
+
+  const members = new Map<number, number[]>();
+  for (const id of ds.keys()) {
+    const root = ds.find(id);
+    const arr = members.get(root);
+    if (arr) arr.push(id);
+    else members.set(root, [id]);
+  }
+
+  const reasonsByRoot = new Map<number, Set<string>>();
+  for (const l of links) {
+    const root = ds.find(l.a);
+    if (!reasonsByRoot.has(root)) reasonsByRoot.set(root, new Set());
+    reasonsByRoot.get(root)!.add(l.reason);
+  }
+
+  const assignIds: number[] = [];
+  const assignCluster: number[] = [];
+  for (const [root, ids] of members) {
+    for (const id of ids) {
+      assignIds.push(id);
+      assignCluster.push(root);
+    }
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    await client.query(`UPDATE addresses SET cluster_id = NULL WHERE cluster_id IS NOT NULL`);
+    await client.query(
+      `
+      UPDATE addresses a
+      SET cluster_id = x.cluster_id
+      FROM UNNEST($1::int[], $2::bigint[]) AS x(address_id, cluster_id)
+      WHERE a.id = x.address_id
+      `,
+      [assignIds, assignCluster]
+    );
+
+    await client.query(`DELETE FROM wallet_clusters`);
+    const roots = Array.from(members.keys());
+    await client.query(
+      `
+      INSERT INTO wallet_clusters (cluster_id, member_count, reasons)
+      SELECT x.cluster_id, x.member_count, string_to_array(x.reasons, ',')
+      FROM UNNEST($1::bigint[], $2::int[], $3::text[]) AS x(cluster_id, member_count, reasons)
+      `,
+      [
+        roots,
+        roots.map((r) => members.get(r)!.length),
+        roots.map((r) => Array.from(reasonsByRoot.get(r) ?? []).sort().join(",")),
+      ]
+    );
+
+    await client.query(`DELETE FROM wallet_cluster_links`);
+    const BATCH_ROWS = 1000;
+    for (let i = 0; i < links.length; i += BATCH_ROWS) {
+      const batch = links.slice(i, i + BATCH_ROWS);
+      await client.query(
+        `
+        INSERT INTO wallet_cluster_links (address_id_a, address_id_b, reason, evidence)
+        SELECT * FROM UNNEST($1::int[], $2::int[], $3::text[], $4::jsonb[])
+        ON CONFLICT DO NOTHING
+        `,
+        [
+          batch.map((l) => Math.min(l.a, l.b)),
+          batch.map((l) => Math.max(l.a, l.b)),
+          batch.map((l) => l.reason),
+          batch.map((l) => JSON.stringify(l.evidence)),
+        ]
+      );
+    }
+
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  const byReason: Record<string, number> = {};
+  for (const l of links) byReason[l.reason] = (byReason[l.reason] || 0) + 1;
+
+  return {
+    links: links.length,
+    clusters: members.size,
+    clusteredAddresses: assignIds.length,
+    byReason,
+  };
+}
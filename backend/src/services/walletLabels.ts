@@ -0,0 +1,259 @@
+import type { Pool, PoolClient } from "pg";
+
+type Db = Pool | PoolClient;
+
+// must match the CHECK constraints in sql/migrations/2025_12_19_add_audit_tables.sql
+export const WALLET_LABELS = [
+  "burn",
+  "lp_pair",
+  "lock_contract",
+  "vesting_contract",
+  "team",
+  "treasury",
+  "cex",
+  "router",
+  "marketing",
+  "staking_contract",
+  "unknown",
+] as const;
+
+export const WALLET_LABEL_SOURCES = ["manual", "auto", "import"] as const;
+
+export type WalletLabelSource = (typeof WALLET_LABEL_SOURCES)[number];
+
+export type WalletLabelInput = {
+  address: string;
+  label: string;
+  source: WalletLabelSource;
+  confidence: number;
+  notes: string | null;
+};
+
+export type WalletLabelRow = {
+  address: string;
+  label: string;
+  source: string;
+  confidence: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Validate one label row (API body, JSON import item or CSV record).
+ * Returns the normalized input or a list of human-readable errors.
+ */
+export function validateLabelInput(
+  raw: any,
+  defaults: { source: WalletLabelSource }
+): { ok: true; value: WalletLabelInput } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+
+  const address = String(raw?.address ?? "").trim().toLowerCase();
+  if (!/^0x[a-f0-9]{40}$/.test(address)) errors.push(`invalid address "${raw?.address ?? ""}"`);
+
+  const label = String(raw?.label ?? "").trim().toLowerCase();
+  if (!(WALLET_LABELS as readonly string[]).includes(label)) {
+    errors.push(`invalid label "${raw?.label ?? ""}" (expected one of ${WALLET_LABELS.join(", ")})`);
+  }
+
+  const sourceRaw = String(raw?.source ?? "").trim().toLowerCase();
+  const source = (sourceRaw || defaults.source) as WalletLabelSource;
+  if (!(WALLET_LABEL_SOURCES as readonly string[]).includes(source)) {
+    errors.push(`invalid source "${raw?.source}" (expected one of ${WALLET_LABEL_SOURCES.join(", ")})`);
+  }
+
+  const confRaw = raw?.confidence;
+  const confidence = confRaw === undefined || confRaw === null || confRaw === "" ? 1 : Number(confRaw);
+  if (!Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    errors.push(`invalid confidence "${confRaw}" (expected 0..1)`);
+  }
+
+  const notesRaw = raw?.notes ?? raw?.note;
+  const notes = notesRaw === undefined || notesRaw === null || String(notesRaw).trim() === "" ? null : String(notesRaw);
+
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, value: { address, label, source, confidence, notes } };
+}
+
+/**
+ * Mirror wallet_labels into holder_balances.tags (comma-separated, 'none' when unlabeled)
+ * so /top-holders and friends pick labels up without extra joins.
+ */
+export async function syncHolderTags(db: Db, addressIds: number[]): Promise<void> {
+  const ids = Array.from(new Set(addressIds)).filter((x) => Number.isFinite(x));
+  if (ids.length === 0) return;
+
+  await db.query(
+    `
+    UPDATE holder_balances hb
+    SET tags = COALESCE(
+      (SELECT string_agg(wl.label, ',' ORDER BY wl.label) FROM wallet_labels wl WHERE wl.address_id = hb.address_id),
+      'none'
+    )
+    WHERE hb.address_id = ANY($1::int[])
+    `,
+    [ids]
+  );
+}
+
+async function getOrCreateAddressIdFor(client: PoolClient, address: string): Promise<number> {
+  const res = await client.query<{ id: number }>(
+    `
+    INSERT INTO addresses (address) VALUES ($1)
+    ON CONFLICT (address) DO UPDATE SET address = EXCLUDED.address
+    RETURNING id
+    `,
+    [address]
+  );
+  return Number(res.rows[0].id);
+}
+
+/** Insert or update one label; returns whether the row was newly created. */
+/**
+ * Insert or update one label. `import` mode keeps the existing row's source (auto/manual provenance
+ * survives a bulk import) and never touches manual rows: those come back as skipped.
+ */
+export async function upsertLabel(
+  client: PoolClient,
+  input: WalletLabelInput,
+  mode: "write" | "import" = "write"
+): Promise<{ created: boolean; skipped: boolean; addressId: number }> {
+  const addressId = await getOrCreateAddressIdFor(client, input.address);
+
+  const res = await client.query<{ created: boolean }>(
+    mode === "import"
+      ? `
+    INSERT INTO wallet_labels (address_id, label, source, confidence, notes)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (address_id, label) DO UPDATE SET
+      confidence = EXCLUDED.confidence,
+      notes      = EXCLUDED.notes,
+      updated_at = now()
+    WHERE wallet_labels.source <> 'manual'
+    RETURNING (xmax = 0) AS created
+    `
+      : `
+    INSERT INTO wallet_labels (address_id, label, source, confidence, notes)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (address_id, label) DO UPDATE SET
+      source     = EXCLUDED.source,
+      confidence = EXCLUDED.confidence,
+      notes      = EXCLUDED.notes,
+      updated_at = now()
+    RETURNING (xmax = 0) AS created
+    `,
+    [addressId, input.label, input.source, input.confidence, input.notes]
+  );
+
+  return { created: Boolean(res.rows[0]?.created), skipped: res.rowCount === 0, addressId };
+}
+
+export async function listLabels(
+  db: Db,
+  filter: { address?: string; label?: string; source?: string; limit: number; offset: number }
+): Promise<{ items: WalletLabelRow[]; total: number }> {
+  const where: string[] = [];
+  const params: any[] = [];
+
+  if (filter.address) {
+    params.push(filter.address);
+    where.push(`a.address = $${params.length}`);
+  }
+  if (filter.label) {
+    params.push(filter.label);
+    where.push(`wl.label = $${params.length}`);
+  }
+  if (filter.source) {
+    params.push(filter.source);
+    where.push(`wl.source = $${params.length}`);
+  }
+
+  const whereSql = where.length ? `WHERE ${where.join(" AND ")}` : "";
+
+  const total = await db.query<{ n: string }>(
+    `SELECT COUNT(*)::text AS n FROM wallet_labels wl JOIN addresses a ON a.id = wl.address_id ${whereSql}`,
+    params
+  );
+
+  const items = await db.query<WalletLabelRow>(
+    `
+    SELECT
+      a.address,
+      wl.label,
+      wl.source,
+      wl.confidence::text AS confidence,
+      wl.notes,
+      wl.created_at::text AS created_at,
+      wl.updated_at::text AS updated_at
+    FROM wallet_labels wl
+    JOIN addresses a ON a.id = wl.address_id
+    ${whereSql}
+    ORDER BY wl.updated_at DESC, a.address, wl.label
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `,
+    [...params, filter.limit, filter.offset]
+  );
+
+  return { items: items.rows, total: Number(total.rows[0]?.n ?? 0) };
+}
+
+export type CsvRecord = { line: number; values: Record<string, string> };
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, "" escapes, CRLF). First row is the header.
+ * `line` is the 1-based source line a record starts on (blank lines still count).
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === "\n" || (c === "\r" && text[i + 1] !== "\n")) line++;
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+      continue;
+    }
+
+    if (c === '"') quoted = true;
+    else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: rowLine, fields: row });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else field += c;
+  }
+  if (field.length || row.length) {
+    row.push(field);
+    rows.push({ line: rowLine, fields: row });
+  }
+
+  const nonEmpty = rows.filter((r) => r.fields.some((v) => v.trim() !== ""));
+  if (nonEmpty.length === 0) return [];
+
+  const header = nonEmpty[0].fields.map((h) => h.trim().toLowerCase());
+  return nonEmpty.slice(1).map((r) => {
+    const values: Record<string, string> = {};
+    header.forEach((h, idx) => {
+      values[h] = (r.fields[idx] ?? "").trim();
+    });
+    return { line: r.line, values };
+  });
+}
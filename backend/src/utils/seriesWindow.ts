@@ -0,0 +1,75 @@
+export type SeriesWindow = {
+  from: Date;
+  to: Date;
+  interval: string; // normalized, e.g. "1h"
+  intervalSeconds: number;
+  // bucket = floor((epoch - offset) / interval) * interval + offset; week buckets start on Monday 00:00 UTC
+  bucketOffsetSeconds: number;
+};
+
+const UNIT_SECONDS: Record<string, number> = { m: 60, h: 3600, d: 86400, w: 604800 };
+// 1970-01-01 was a Thursday; the first Monday is 4 days later
+const MONDAY_OFFSET_SECONDS = 4 * 86400;
+const INTERVAL_ALIASES: Record<string, string> = { hour: "1h", day: "1d", week: "1w" };
+
+// picked when ?interval is omitted: smallest one that keeps the series under AUTO_MAX_POINTS
+const AUTO_INTERVALS = ["15m", "1h", "6h", "1d", "1w"];
+const AUTO_MAX_POINTS = 500;
+const MAX_POINTS = 5000;
+
+export function parseInterval(v: string): number | null {
+  const m = /^(\d+)\s*([mhdw])$/.exec(v.trim().toLowerCase());
+  if (!m) return null;
+  const n = Number(m[1]);
+  return n > 0 ? n * UNIT_SECONDS[m[2]] : null;
+}
+
+function parseTime(v: string): Date | null {
+  const s = v.trim();
+  // unix seconds or ISO date/time
+  const d = /^\d+$/.test(s) ? new Date(Number(s) * 1000) : new Date(s);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Parse ?from=&to=&interval= for time-series endpoints.
+ * Defaults: to = now, from = to - defaultDays, interval = auto (15m / 1h / 6h / 1d / 1w).
+ */
+export function parseSeriesWindow(
+  query: Record<string, any>,
+  defaultDays = 30
+): { ok: true; value: SeriesWindow } | { ok: false; error: string } {
+  const toRaw = String(query.to ?? "");
+  const fromRaw = String(query.from ?? "");
+  const intervalRaw = String(query.interval ?? "");
+
+  const to = toRaw ? parseTime(toRaw) : new Date();
+  if (!to) return { ok: false, error: `invalid "to" (ISO time or unix seconds): ${toRaw}` };
+
+  const from = fromRaw ? parseTime(fromRaw) : new Date(to.getTime() - defaultDays * 86400 * 1000);
+  if (!from) return { ok: false, error: `invalid "from" (ISO time or unix seconds): ${fromRaw}` };
+  if (from.getTime() >= to.getTime()) return { ok: false, error: `"from" must be before "to"` };
+
+  const spanSeconds = (to.getTime() - from.getTime()) / 1000;
+
+  let interval = intervalRaw.trim().toLowerCase();
+  interval = INTERVAL_ALIASES[interval] ?? interval;
+  let intervalSeconds: number | null;
+  if (interval) {
+    intervalSeconds = parseInterval(interval);
+    if (!intervalSeconds) return { ok: false, error: `invalid "interval" (e.g. 15m, 1h, 6h, 1d, 1w, hour, day, week): ${intervalRaw}` };
+  } else {
+    interval =
+      AUTO_INTERVALS.find((i) => spanSeconds / (parseInterval(i) as number) <= AUTO_MAX_POINTS) ??
+      AUTO_INTERVALS[AUTO_INTERVALS.length - 1];
+    intervalSeconds = parseInterval(interval) as number;
+  }
+
+  if (spanSeconds / intervalSeconds > MAX_POINTS) {
+    return { ok: false, error: `too many points (> ${MAX_POINTS}); use a larger interval or a shorter range` };
+  }
+
+  const bucketOffsetSeconds = intervalSeconds % UNIT_SECONDS.w === 0 ? MONDAY_OFFSET_SECONDS : 0;
+
+  return { ok: true, value: { from, to, interval, intervalSeconds, bucketOffsetSeconds } };
+}
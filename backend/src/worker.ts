@@ -3,6 +3,12 @@ dotenv.config();
 
 import { pool } from "./db";
 import { startSupplySnapshotCron } from "./cron/supplySnapshotCron";
+import { startAuditSnapshotCron } from "./cron/auditSnapshotCron";
+import { startConcentrationSnapshotCron } from "./cron/concentrationSnapshotCron";
+import { startDexCandleCron } from "./cron/dexCandleCron";
+import { startDexPoolsCron } from "./cron/dexPoolsCron";
+import { startWalletClassifierCron } from "./cron/walletClassifierCron";
+import { startWalletClusterCron } from "./cron/walletClusterCron";
 
 async function main() {
   console.log("🟣 Worker starting...");
@@ -20,6 +26,24 @@ async function main() {
   startSupplySnapshotCron(pool);
   console.log("✅ Supply snapshot worker is running.");
 
+  // ✅ Daily audit snapshots (checks ENABLE_AUDIT_SNAPSHOT_CRON)
+  startAuditSnapshotCron(pool);
+
+  // ✅ Concentration time series (checks ENABLE_CONCENTRATION_SNAPSHOT_CRON)
+  startConcentrationSnapshotCron(pool);
+
+  // ✅ OHLCV candles from indexed pair events (checks ENABLE_DEX_CANDLE_CRON)
+  startDexCandleCron(pool);
+
+  // ✅ DEX pool registry across v2/v3 + quote tokens (checks ENABLE_DEX_POOLS_CRON)
+  startDexPoolsCron(pool);
+
+  // ✅ Auto wallet labels (checks ENABLE_WALLET_CLASSIFIER_CRON)
+  startWalletClassifierCron(pool);
+
+  // ✅ Wallet clusters (checks ENABLE_WALLET_CLUSTER_CRON)
+  startWalletClusterCron(pool);
+
   // ✅ Keep the process alive (works reliably on Render)
   setInterval(() => {
     console.log("🟡 Worker heartbeat:", new Date().toISOString());
@@ -42,6 +42,46 @@ export type DexPrice = {
   priceWbnb?: string | number;
   priceUsd?: string | number | null;
   marketCapUsd?: string | number | null;
+  // all registered pools (v2 + v3, any quote); null if the registry isn't available
+  aggregate?: {
+    pools: number;
+    pricedPools: number;
+    liquidityUsd: number | null;
+    priceUsd: number | null;
+    minPriceUsd: number | null;
+    maxPriceUsd: number | null;
+  } | null;
+  // PRICE_METHOD-resolved price (what supply snapshots store) + spot-vs-TWAP manipulation guard
+  pricing?: {
+    method: "spot" | "twap" | "liquidity_weighted";
+    requested: "spot" | "twap" | "liquidity_weighted" | "auto";
+    priceUsd: number | null;
+    twap: {
+      priceWbnb: number | null;
+      priceUsd: number | null;
+      windowSeconds: number;
+      from: string;
+      to: string;
+      syncs: number;
+      coveragePct: number;
+      lastSyncAt: string | null;
+    } | null;
+    liquidityWeighted: { priceUsd: number | null; pools: number } | null;
+    deviation: { spotVsTwapPct: number | null; thresholdPct: number; flagged: boolean };
+  };
+  // BC400 that can be sold before the pool price drops 5 / 10 / 25 %
+  depth?: {
+    feePct: number;
+    sell: Array<{
+      dropPct: number;
+      tokenRaw: string;
+      token: string;
+      wbnbOutRaw: string;
+      wbnbOut: string;
+      wbnbOutUsd: number | null;
+      reserveTokenPct: number;
+    }>;
+  };
   updatedAt?: string;
   reason?: string;
   note?: string;
@@ -55,6 +95,25 @@ export type LpLock = {
   expectedPairAddress?: string | null;
   warnings?: string[];
   burn?: { burnedPct?: number };
+  // from indexed locker events (PinkLock / UNCX / Team Finance); null if the check failed
+  lock?: {
+    verified: boolean;
+    lockedRaw: string;
+    lockedPct: number;
+    locker: { provider: string; address: string; lockedRaw: string; lockedPct: number } | null;
+    lockers: Array<{ provider: string; address: string; lockedRaw: string; lockedPct: number }>;
+    nextUnlock: {
+      provider: string;
+      contract: string;
+      lockId: string | null;
+      owner: string | null;
+      amountRaw: string | null;
+      unlockTime: string;
+    } | null;
+    unlockableNow: number;
+    activeLocks: number;
+  } | null;
+  securedPct?: number;
   updatedAt?: string;
   reason?: string;
 };
@@ -198,6 +257,50 @@ export type DailyAuditResponse = {
   risk?: { latest?: any };
 };
 
+/** =========================
+ * /api/daily-audit/diff (two stored daily audits)
+ * ========================= */
+export type AuditDelta<T> = { from: T | null; to: T | null; delta: T | null };
+
+export type AuditTop20Entry = { rank: number; address: string; balanceRaw: string };
+
+export type DailyAuditDiff = {
+  from: { date: string; snapshotTime: string };
+  to: { date: string; snapshotTime: string };
+
+  supply: {
+    totalSupplyRaw: AuditDelta<string>;
+    burnedRaw: AuditDelta<string>;
+    lpRaw: AuditDelta<string>;
+    lockedRaw: AuditDelta<string>;
+    circulatingRaw: AuditDelta<string>;
+  };
+
+  concentration: {
+    top10PctOfTrueCirculating: AuditDelta<number>;
+    effectiveHolders: AuditDelta<number>;
+  };
+
+  activity: {
+    transfers24h: AuditDelta<number>;
+    activeWallets24h: AuditDelta<number>;
+  };
+
+  risk: {
+    score: AuditDelta<number>;
+    label: { from: string | null; to: string | null; changed: boolean };
+    reasonsAdded: string[];
+    reasonsRemoved: string[];
+    reasonsUnchanged: string[];
+  };
+
+  top20: {
+    available: boolean;
+    entered: AuditTop20Entry[] | null;
+    left: AuditTop20Entry[] | null;
+  };
+};
+
 /** =========================
  * Bundle returned to UI
  * ========================= */
@@ -220,6 +323,9 @@ export type DailyAuditBundle = {
 
   /** ✅ what the 4 cards need */
   investorAdjusted?: InvestorAdjusted | null;
+
+  /** latest stored audit vs the one before (null until two days are stored) */
+  auditDiff?: DailyAuditDiff | null;
 };
 
 async function fetchJson<T>(
@@ -340,6 +446,17 @@ export async function fetchDailyAuditRaw(): Promise<DailyAuditResponse | null> {
   return null;
 }
 
+/** fetch /api/daily-audit/diff (latest stored day vs the previous one) */
+export async function fetchDailyAuditDiff(): Promise<DailyAuditDiff | null> {
+  const a = await fetchJson<DailyAuditDiff>("/api/daily-audit/diff");
+  if (a.status === "ok") return a.data;
+
+  const b = await fetchJson<DailyAuditDiff>("/daily-audit/diff");
+  if (b.status === "ok") return b.data;
+
+  return null;
+}
+
 /** ✅ fetch /api/investor/adjusted (preferred) */
 export async function fetchInvestorAdjusted(): Promise<InvestorAdjusted | null> {
   const a = await fetchJson<InvestorAdjusted>("/api/investor/adjusted");
@@ -386,9 +503,10 @@ export async function fetchDailyAuditBundle(opts?: {
   includeDexTotals?: boolean;
 }): Promise<DailyAuditBundle> {
   // Pull both (these power the adjusted cards + some snapshot values)
-  const [dailyAudit, investorAdjusted] = await Promise.all([
+  const [dailyAudit, investorAdjusted, auditDiff] = await Promise.all([
     fetchDailyAuditRaw(),
     fetchInvestorAdjusted(),
+    fetchDailyAuditDiff(),
   ]);
 
   // Keep old data sources too (so nothing breaks)
@@ -481,5 +599,6 @@ export async function fetchDailyAuditBundle(opts?: {
     dexTotals,
     dailyAudit,
     investorAdjusted,
+    auditDiff,
   };
 }
\ No newline at end of file
@@ -1,11 +1,59 @@
 import { apiGet } from "./client";
-import type { DailyAudit, DexTotals } from "./types";
+import type { DailyAudit, DexTotals, HolderDistribution, SupplySeries, DexCandles, LpHolders, LiquidityEvents, DexImpact, DexPools } from "./types";
 
 export const api = {
   dailyAudit: () => apiGet<DailyAudit>("/daily-audit"),
 
   // optional endpoint: safe to call; if missing you’ll get ok:false + status 404
   dexTotals: () => apiGet<DexTotals>("/dex/totals"),
+
+  // Gini / Nakamoto / Lorenz points for decentralization charts
+  holderDistribution: (points = 20) => apiGet<HolderDistribution>(`/holders/distribution?points=${points}`),
+
+  // burn progress / float over time; interval: "hour" | "day" | "week" (or 15m, 6h, ...)
+  supplySeries: (params: { from?: string; to?: string; interval?: string; fill?: boolean } = {}) => {
+    const q = new URLSearchParams();
+    if (params.from) q.set("from", params.from);
+    if (params.to) q.set("to", params.to);
+    if (params.interval) q.set("interval", params.interval);
+    if (params.fill === false) q.set("fill", "false");
+    const qs = q.toString();
+    return apiGet<SupplySeries>(`/supply/series${qs ? `?${qs}` : ""}`);
+  },
+
+  // OHLCV for the price chart (WBNB + USD)
+  dexCandles: (params: { resolution?: DexCandles["resolution"]; from?: string; to?: string } = {}) => {
+    const q = new URLSearchParams({ resolution: params.resolution ?? "1h" });
+    if (params.from) q.set("from", params.from);
+    if (params.to) q.set("to", params.to);
+    return apiGet<DexCandles>(`/dex/candles?${q.toString()}`);
+  },
+
+  // every v2/v3 pool of the token + liquidity-weighted price
+  dexPools: () => apiGet<DexPools>("/dex/pools"),
+
+  // buy/sell price impact for trade sizes (default unit: usd) + sell depth to -5/-10/-25 %
+  dexImpact: (params: { amounts?: Array<string | number>; unit?: "usd" | "wbnb" | "bc400"; side?: "buy" | "sell" | "both" } = {}) => {
+    const q = new URLSearchParams();
+    if (params.amounts?.length) q.set("amount", params.amounts.join(","));
+    if (params.unit) q.set("unit", params.unit);
+    if (params.side) q.set("side", params.side);
+    const qs = q.toString();
+    return apiGet<DexImpact>(`/dex/impact${qs ? `?${qs}` : ""}`);
+  },
+
+  // who holds the LP (burned / locker / team / deployer / unknown) + 24h removals
+  lpHolders: (limit = 50) => apiGet<LpHolders>(`/lp/holders?limit=${limit}`),
+
+  // liquidity add/remove history, optionally for one holder
+  lpLiquidity: (params: { holder?: string; kind?: "add" | "remove"; limit?: number } = {}) => {
+    const q = new URLSearchParams();
+    if (params.holder) q.set("holder", params.holder);
+    if (params.kind) q.set("kind", params.kind);
+    if (params.limit) q.set("limit", String(params.limit));
+    const qs = q.toString();
+    return apiGet<LiquidityEvents>(`/lp/liquidity${qs ? `?${qs}` : ""}`);
+  },
 };
 
-export type { DailyAudit, DexTotals };
+export type { DailyAudit, DexTotals, HolderDistribution, SupplySeries, DexCandles, LpHolders, LiquidityEvents, DexImpact, DexPools };
@@ -90,3 +90,196 @@ export type DexTotals = {
   totalSoldRaw: string;
   note?: string;
 };
+
+export type HolderDistribution = {
+  holders: number;
+  totalRaw: string;
+  gini: number | null; // 0 = equal, 1 = one holder has everything
+  nakamoto: number | null; // fewest holders controlling > 50%
+  hhi: number | null;
+  effectiveHolders: number | null; // 1/HHI
+  topSharesPct: { top1: number | null; top10: number | null; top100: number | null };
+  lorenz: Array<{ holdersShare: number; balanceShare: number }>;
+  buckets: Array<{
+    label: string;
+    minBc400: number;
+    maxBc400: number | null;
+    holders: number;
+    balanceRaw: string;
+    sharePct: number | null;
+  }>;
+  excluded: string[];
+  definitions?: Record<string, string>;
+  updatedAt: string;
+};
+
+export type SupplySeriesPoint = {
+  t: string; // bucket start
+  ts: string | null; // snapshot actually used
+  filled: boolean; // carried forward from an earlier bucket
+  reconstructed: boolean; // back-filled from archive state / ledger replay, not a live snapshot
+  decimals: number | null;
+  totalSupplyRaw: string | null;
+  burnedRaw: string | null;
+  lpRaw: string | null;
+  lockedRaw: string | null;
+  circulatingRaw: string | null;
+  totalSupply: string | null;
+  burned: string | null;
+  lp: string | null;
+  locked: string | null;
+  circulating: string | null;
+  priceUsd: number | null;
+  marketCapUsd: number | null;
+  priceMethod: "spot" | "twap" | "liquidity_weighted" | null;
+};
+
+export type SupplySeries = {
+  from: string;
+  to: string;
+  interval: string;
+  fill: boolean;
+  tokenAddress: string | null;
+  points: SupplySeriesPoint[];
+};
+
+export type DexCandle = {
+  t: string; // bucket start
+  wbnb: { open: number | null; high: number | null; low: number | null; close: number | null };
+  usd: { open: number | null; high: number | null; low: number | null; close: number | null; bnbUsd: number | null } | null;
+  volumeTokenRaw: string;
+  volumeWbnbRaw: string;
+  volumeUsd: number | null;
+  trades: number;
+};
+
+export type DexCandles = {
+  pairAddress: string;
+  resolution: "1m" | "5m" | "1h" | "1d";
+  from: string;
+  to: string;
+  updatedAt: string | null;
+  candles: DexCandle[];
+};
+
+export type LpHolderTag = "burned" | "locker" | "team" | "deployer" | "unknown";
+
+export type LpHolder = {
+  rank: number;
+  address: string;
+  balanceRaw: string;
+  sharePct: number;
+  tag: LpHolderTag;
+  label: string | null;
+  liquidity: {
+    adds: number;
+    removes: number;
+    lpAddedRaw: string;
+    lpRemovedRaw: string;
+    lastRemoveTime: string | null;
+  };
+};
+
+export type LpHolders = {
+  pairAddress: string;
+  totalSupplyRaw: string;
+  holderCount: number;
+  deployer: string | null;
+  byTag: Record<LpHolderTag, { raw: string; pct: number }>;
+  removals24h: { count: number; holders: number; lpRaw: string; pctOfSupply: number };
+  holders: LpHolder[];
+  updatedAt: string;
+};
+
+export type LiquidityEvent = {
+  kind: "ADD" | "REMOVE";
+  blockNumber: number;
+  time: string | null;
+  txHash: string;
+  holder: string;
+  lpRaw: string;
+  bc400Raw: string | null;
+  wbnbRaw: string | null;
+};
+
+export type LiquidityEvents = {
+  pairAddress: string;
+  holder: string | null;
+  kind: "ADD" | "REMOVE" | null;
+  events: LiquidityEvent[];
+  updatedAt: string;
+};
+
+export type SwapQuote = {
+  side: "buy" | "sell";
+  tokenRaw: string;
+  wbnbRaw: string;
+  token: string;
+  wbnb: string;
+  wbnbUsd: number | null;
+  avgPriceWbnb: number | null;
+  priceImpactPct: number; // execution vs mid price, fee included
+  priceMovePct: number; // pool price after vs before (signed)
+  reserveTokenPct: number;
+};
+
+export type DexImpact = {
+  ok: boolean;
+  dex: string;
+  pairAddress: string | null;
+  reason?: string;
+  feePct?: number;
+  priceWbnb?: number | null;
+  bnbUsd?: number | null;
+  bnbUsdSource?: string;
+  reservesRaw?: { bc400: string; wbnb: string };
+  quotes?: Array<{ amount: string; unit: "usd" | "wbnb" | "bc400"; buy?: SwapQuote | null; sell?: SwapQuote | null }>;
+  depth?: {
+    sell: Array<{
+      dropPct: number;
+      tokenRaw: string;
+      token: string;
+      wbnbOutRaw: string;
+      wbnbOut: string;
+      wbnbOutUsd: number | null;
+      reserveTokenPct: number;
+    }>;
+  };
+  updatedAt: string;
+};
+
+export type PoolAggregate = {
+  pools: number;
+  pricedPools: number;
+  liquidityUsd: number | null;
+  priceUsd: number | null; // liquidity-weighted
+  minPriceUsd: number | null;
+  maxPriceUsd: number | null;
+};
+
+export type DexPool = {
+  poolAddress: string;
+  dex: "pancake_v2" | "pancake_v3";
+  feeTier: number | null;
+  feePct: number;
+  quote: { symbol: string; address: string };
+  configured: boolean;
+  reserveTokenRaw: string;
+  reserveQuoteRaw: string;
+  liquidityRaw: string | null;
+  priceQuote: number | null;
+  priceUsd: number | null;
+  liquidityUsd: number | null;
+  liquiditySharePct: number | null;
+  blockNumber: number | null;
+  discoveredAt: string;
+  updatedAt: string;
+};
+
+export type DexPools = {
+  tokenAddress: string;
+  configuredPair: string | null;
+  aggregate: PoolAggregate;
+  pools: DexPool[];
+  updatedAt: string | null;
+};
@@ -19,6 +19,12 @@ type LpLock = {
   dex?: string;
   pairAddress?: string | null;
   burn?: { burnedPct?: number };
+  lock?: {
+    verified: boolean;
+    lockedPct: number;
+    locker: { provider: string; address: string } | null;
+    nextUnlock: { unlockTime: string } | null;
+  } | null;
   warnings?: string[];
   updatedAt?: string;
   reason?: string;
@@ -291,7 +297,11 @@ export function DailyAuditRoadmap(props: {
           ) : (
             <div className="audit-roadmap-meta">
               Pair: {shortAddr(lp.data.pairAddress)} · LP Burned: {fmtPct(lp.data.burn?.burnedPct)}
-              {" · "}Locker: not verified
+              {" · "}
+              {lp.data.lock?.verified && lp.data.lock.locker
+                ? `Locked: ${fmtPct(lp.data.lock.lockedPct)} in ${lp.data.lock.locker.provider} (${shortAddr(lp.data.lock.locker.address)})` +
+                  (lp.data.lock.nextUnlock ? ` · Next unlock: ${fmtTime(new Date(lp.data.lock.nextUnlock.unlockTime))}` : "")
+                : "Locker: not verified"}
               {lp.data.warnings?.length ? ` · ${lp.data.warnings.join(" | ")}` : ""}
             </div>
           )
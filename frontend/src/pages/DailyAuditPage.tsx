@@ -15,6 +15,8 @@ import type {
   Transfer,
   TokenBurn,
   InvestorAdjusted,
+  DailyAuditDiff,
+  AuditDelta,
 } from "../api/dailyAudit";
 
 import { fetchDailyAuditBundle } from "../api/dailyAudit";
@@ -147,6 +149,32 @@ function looksIntString(v: any): boolean {
   return /^\d+$/.test(s);
 }
 
+// "+1,234.50" / "-12.00" / "0" for day-over-day deltas
+function signed(s: string, isZero: boolean): string {
+  if (isZero) return "0";
+  return s.startsWith("-") ? s : `+${s}`;
+}
+
+function rawDeltaCard(d: AuditDelta<string> | undefined): { value: string; helper?: string } {
+  if (!d || d.delta === null) return { value: "-" };
+  return {
+    value: signed(formatFromRaw18(d.delta, 2, 2), toBigIntSafe(d.delta) === 0n),
+    helper: `${formatFromRaw18(String(d.from), 2, 0)} → ${formatFromRaw18(String(d.to), 2, 0)}`,
+  };
+}
+
+function numDeltaCard(
+  d: AuditDelta<number> | undefined,
+  digits = 0,
+  unit = ""
+): { value: string; helper?: string } {
+  if (!d || d.delta === null || d.from === null || d.to === null) return { value: "-" };
+  return {
+    value: `${signed(d.delta.toFixed(digits), Number(d.delta.toFixed(digits)) === 0)}${unit}`,
+    helper: `${d.from.toFixed(digits)} → ${d.to.toFixed(digits)}`,
+  };
+}
+
 export default function DailyAuditPage() {
   const [bundle, setBundle] = useState<DailyAuditBundle | null>(null);
   const [loading, setLoading] = useState(false);
@@ -310,6 +338,30 @@ export default function DailyAuditPage() {
   const marketCapUsdCard = marketCapUsdNum !== null ? safeUsd(marketCapUsdNum) : "-";
   const fdvUsdCard = fdvUsdNum !== null ? safeUsd(fdvUsdNum) : "-";
 
+  // all registered pools (v2 + v3, WBNB/USDT/BUSD/USDC) from /dex/price aggregate
+  const poolsAgg = dexLive ? (dex?.aggregate ?? null) : null;
+  const poolsLiquidityCard =
+    poolsAgg && poolsAgg.liquidityUsd !== null ? `${safeUsd(poolsAgg.liquidityUsd)} (${poolsAgg.pools} pools)` : "-";
+
+  // spot vs TWAP of stored Syncs (/dex/price pricing); a large gap means the spot price may be pushed
+  const pricing = dexLive ? (dex?.pricing ?? null) : null;
+  const priceDeviation = pricing?.deviation ?? null;
+  const twapCard =
+    pricing?.twap && pricing.twap.priceUsd !== null
+      ? `${safeUsd(pricing.twap.priceUsd)}${
+          priceDeviation?.spotVsTwapPct != null
+            ? ` (spot ${priceDeviation.spotVsTwapPct >= 0 ? "+" : ""}${priceDeviation.spotVsTwapPct.toFixed(2)}%)`
+            : ""
+        }`
+      : "-";
+
+  // liquidity depth: BC400 sellable before the price drops 5 / 10 / 25 % (from /dex/price reserves)
+  const depthCards: StatCardData[] = (dexLive ? (dex?.depth?.sell ?? []) : []).map((l) => ({
+    id: `depth${l.dropPct}`,
+    label: `Sell to −${l.dropPct}%\n(BC400)`,
+    value: `${formatHumanDecimal(l.token, 0, 0)}${l.wbnbOutUsd !== null ? ` (≈${safeUsd(l.wbnbOutUsd)})` : ""}`,
+  }));
+
   const trueCirculatingCard =
     adjustedLive && looksIntString(investorAdjusted?.trueCirculatingRaw)
       ? `${formatFromRaw18(String(investorAdjusted!.trueCirculatingRaw), 6, 0)}`
@@ -333,6 +385,7 @@ export default function DailyAuditPage() {
       : "-";
 
   const lpBurnedPct = lpLive ? safePct(lp?.burn?.burnedPct, 2) : "-";
+  const lpLock = lpLive ? (lp?.lock ?? null) : null;
 
   const statusCards: StatCardData[] = [
     {
@@ -361,6 +414,11 @@ export default function DailyAuditPage() {
     { id: "aw24", label: "Active wallets (24h)\n(server)", value: formatNumber(metrics.activeWallets) },
 
     { id: "pUsd", label: "Price (USD)\n(snapshot)", value: priceUsdCard },
+    {
+      id: "twap",
+      label: `Price (USD)\n(${pricing?.twap ? Math.round(pricing.twap.windowSeconds / 60) : 60}m TWAP)`,
+      value: twapCard,
+    },
 
     { id: "mcReal", label: "Market Cap (USD)\n(circulating)", value: marketCapUsdCard },
     { id: "fdv", label: "FDV (USD)\n(total supply)", value: fdvUsdCard },
@@ -368,6 +426,9 @@ export default function DailyAuditPage() {
     { id: "circ", label: "Circulating\n(snapshot)", value: circulatingCard },
     { id: "burned", label: "Token burned\n(snapshot)", value: tokenBurnedPct },
 
+    { id: "poolsLiq", label: "DEX liquidity (USD)\n(all pools)", value: poolsLiquidityCard },
+    ...depthCards,
+
     { id: "risk", label: "Risk score\n(latest)", value: riskScoreCard },
     { id: "band", label: "Risk band\n(latest)", value: riskBandCard },
 
@@ -377,6 +438,31 @@ export default function DailyAuditPage() {
     { id: "effH", label: "Effective holders", value: effHoldersCard },
   ];
 
+  const diff: DailyAuditDiff | null = bundle?.auditDiff ?? null;
+
+  const changeCards: StatCardData[] = diff
+    ? [
+        { id: "d-circ", label: "Circulating\n(BC400)", ...rawDeltaCard(diff.supply.circulatingRaw) },
+        { id: "d-burned", label: "Burned\n(BC400)", ...rawDeltaCard(diff.supply.burnedRaw) },
+        { id: "d-lp", label: "In LP\n(BC400)", ...rawDeltaCard(diff.supply.lpRaw) },
+        {
+          id: "d-top10",
+          label: "Top-10 % of\ntrue circulating",
+          ...numDeltaCard(diff.concentration.top10PctOfTrueCirculating, 2, " pp"),
+        },
+        { id: "d-effh", label: "Effective holders", ...numDeltaCard(diff.concentration.effectiveHolders, 1) },
+        { id: "d-t24", label: "Transfers (24h)", ...numDeltaCard(diff.activity.transfers24h) },
+        { id: "d-aw24", label: "Active wallets (24h)", ...numDeltaCard(diff.activity.activeWallets24h) },
+        {
+          id: "d-risk",
+          label: diff.risk.label.changed
+            ? `Risk score\n(${diff.risk.label.from ?? "-"} → ${diff.risk.label.to ?? "-"})`
+            : "Risk score",
+          ...numDeltaCard(diff.risk.score),
+        },
+      ]
+    : [];
+
   const whaleCards: StatCardData[] = [
     { id: "whale-net-2", label: "Top holder net flow", value: `${metrics.whaleNetFlow} BC400` },
   ];
@@ -417,6 +503,63 @@ export default function DailyAuditPage() {
         </div>
       </section>
 
+      <section className="panel panel--table">
+        <div className="panel-header-row">
+          <h2 className="panel-title">What changed since yesterday</h2>
+          <span className="panel-caption">
+            {diff ? `Stored audits ${diff.from.date} → ${diff.to.date}` : "From /daily-audit/diff"}
+          </span>
+        </div>
+
+        {diff ? (
+          <>
+            <div style={{ marginTop: 8 }}>
+              <StatsGrid stats={changeCards} columns={4} />
+            </div>
+
+            <div className="panel-muted" style={{ marginTop: 10 }}>
+              <div>
+                <b>New risk reasons:</b>{" "}
+                {diff.risk.reasonsAdded.length ? diff.risk.reasonsAdded.join(" · ") : "none"}
+              </div>
+              <div style={{ marginTop: 6 }}>
+                <b>Resolved risk reasons:</b>{" "}
+                {diff.risk.reasonsRemoved.length ? diff.risk.reasonsRemoved.join(" · ") : "none"}
+              </div>
+
+              {diff.top20.available ? (
+                <>
+                  <div style={{ marginTop: 6 }}>
+                    <b>Entered top 20:</b>{" "}
+                    {diff.top20.entered && diff.top20.entered.length
+                      ? diff.top20.entered
+                          .map((h) => `#${h.rank} ${shortAddr(h.address)} (${formatFromRaw18(h.balanceRaw, 2, 0)})`)
+                          .join(" · ")
+                      : "none"}
+                  </div>
+                  <div style={{ marginTop: 6 }}>
+                    <b>Left top 20:</b>{" "}
+                    {diff.top20.left && diff.top20.left.length
+                      ? diff.top20.left
+                          .map((h) => `was #${h.rank} ${shortAddr(h.address)} (${formatFromRaw18(h.balanceRaw, 2, 0)})`)
+                          .join(" · ")
+                      : "none"}
+                  </div>
+                </>
+              ) : (
+                <div style={{ marginTop: 6 }}>
+                  <b>Top 20 changes:</b> not available for these snapshots yet.
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="panel-muted" style={{ marginTop: 8 }}>
+            Needs two stored daily audits (backend <b>ENABLE_AUDIT_SNAPSHOT_CRON</b>). Check back tomorrow.
+          </div>
+        )}
+      </section>
+
       <section className="panel panel--table">
         <div className="panel-header-row">
           <h2 className="panel-title">Confidence Signals</h2>
@@ -440,7 +583,9 @@ export default function DailyAuditPage() {
 
         <div className="panel-muted" style={{ marginTop: 10 }}>
           <b>Sources:</b> Price from <b>/dex/price</b> · Circulating + Total supply + Burn% from{" "}
-          <b>/token/burn</b> · Market Cap = price × circulating · FDV = price × total supply · LP burn shown in{" "}
+          <b>/token/burn</b> · Market Cap = price × circulating · FDV = price × total supply · Sell depth = BC400 that
+          moves the pool price down 5/10/25 % (constant product, 0.25 % fee; sizes via <b>/dex/impact</b>) · TWAP = time-weighted pair
+          price from indexed Sync events · LP burn shown in{" "}
           <b>Liquidity</b> (<b>/lp/lock</b>).
           <div style={{ marginTop: 6 }}>
             <b>True circulating + concentration:</b> requires backend exclusions (burn wallets + LP + locks).
@@ -457,6 +602,14 @@ export default function DailyAuditPage() {
           </div>
         )}
 
+        {priceDeviation?.flagged && (
+          <div className="panel-muted" style={{ marginTop: 10 }}>
+            <b>Price warning:</b> spot deviates {priceDeviation.spotVsTwapPct?.toFixed(2)}% from the TWAP (threshold{" "}
+            {priceDeviation.thresholdPct}%) — the pool price may be manipulated; snapshots use the{" "}
+            {pricing?.method.replace("_", "-")} price.
+          </div>
+        )}
+
         {!!investorAdjusted && !adjustedLive && (
           <div className="panel-muted" style={{ marginTop: 10 }}>
             <b>True metrics status:</b> ok:false — {investorAdjusted.reason || "No reason provided"}
@@ -500,9 +653,32 @@ export default function DailyAuditPage() {
               </div>
 
               <div style={{ marginTop: 6 }}>
-                <b>LP Burned:</b> {lpBurnedPct} {" · "} <b>Locker:</b> not verified
+                <b>LP Burned:</b> {lpBurnedPct} {" · "} <b>Locker:</b>{" "}
+                {lpLock?.verified && lpLock.locker ? (
+                  <>
+                    {lpLock.locker.provider} ({shortAddr(lpLock.locker.address)}) {" · "}
+                    <b>LP Locked:</b> {safePct(lpLock.lockedPct, 2)}
+                  </>
+                ) : (
+                  "not verified"
+                )}
               </div>
 
+              {lpLock?.verified ? (
+                <div style={{ marginTop: 6 }}>
+                  <b>Next unlock:</b>{" "}
+                  {lpLock.nextUnlock
+                    ? `${formatDateTime(lpLock.nextUnlock.unlockTime)} (${lpLock.nextUnlock.provider})`
+                    : "none scheduled"}
+                  {lpLock.unlockableNow > 0 ? (
+                    <>
+                      {" · "}
+                      <b>Unlocked, not withdrawn:</b> {lpLock.unlockableNow}
+                    </>
+                  ) : null}
+                </div>
+              ) : null}
+
               {Array.isArray(lp?.warnings) && lp.warnings.length > 0 ? (
                 <div style={{ marginTop: 6 }}>
                   <b>Warnings:</b> {lp.warnings.join(" · ")}